@@ -1,8 +1,13 @@
-const { app, BrowserWindow, shell } = require('electron');
+const { app, BrowserWindow, Notification, ipcMain, shell } = require('electron');
 const path = require('path');
+const { DesktopNotification } = require('@chatterbox/shared');
 
 let mainWindow = null;
 
+// Shown notifications are held until clicked or closed; one that's been
+// garbage collected no longer reports its click
+const activeNotifications = new Set();
+
 const isDev = !app.isPackaged;
 
 async function createWindow() {
@@ -16,6 +21,7 @@ async function createWindow() {
     webPreferences: {
       nodeIntegration: false,
       contextIsolation: true,
+      preload: path.join(__dirname, 'preload.cjs'),
     },
     titleBarStyle: process.platform === 'darwin' ? 'hiddenInset' : 'default',
     show: false,
@@ -74,6 +80,30 @@ app.on('activate', () => {
   }
 });
 
+// A native notification for the page. Clicking it brings the window forward
+// and tells the page which conversation to open.
+ipcMain.on('notify', (event, payload) => {
+  if (!mainWindow || event.sender !== mainWindow.webContents || !Notification.isSupported()) return;
+
+  // Whatever the page sends is checked before it's used
+  const notification = DesktopNotification.safeParse(payload);
+  if (!notification.success) return;
+  const { title, body, conversationId } = notification.data;
+
+  const shown = new Notification({ title: title.slice(0, 200), body: body.slice(0, 500) });
+  activeNotifications.add(shown);
+  shown.on('close', () => activeNotifications.delete(shown));
+  shown.on('click', () => {
+    activeNotifications.delete(shown);
+    if (!mainWindow) return;
+    if (mainWindow.isMinimized()) mainWindow.restore();
+    mainWindow.show();
+    mainWindow.focus();
+    mainWindow.webContents.send('notification-click', conversationId);
+  });
+  shown.show();
+});
+
 // Security: Prevent navigation to unknown URLs
 app.on('web-contents-created', (_, contents) => {
   contents.on('will-navigate', (event, navigationUrl) => {
@@ -1,8 +1,13 @@
-import { app, BrowserWindow, shell } from 'electron';
+import { app, BrowserWindow, Notification, ipcMain, shell } from 'electron';
 import path from 'path';
+import { DesktopNotification } from '@chatterbox/shared';
 
 let mainWindow: BrowserWindow | null = null;
 
+// Shown notifications are held until clicked or closed; one that's been
+// garbage collected no longer reports its click
+const activeNotifications = new Set<Notification>();
+
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 
 function createWindow() {
@@ -16,6 +21,7 @@ function createWindow() {
     webPreferences: {
       nodeIntegration: false,
       contextIsolation: true,
+      preload: path.join(__dirname, 'preload.cjs'),
     },
     titleBarStyle: process.platform === 'darwin' ? 'hiddenInset' : 'default',
     show: false,
@@ -58,6 +64,30 @@ app.on('activate', () => {
   }
 });
 
+// A native notification for the page. Clicking it brings the window forward
+// and tells the page which conversation to open.
+ipcMain.on('notify', (event, payload: unknown) => {
+  if (!mainWindow || event.sender !== mainWindow.webContents || !Notification.isSupported()) return;
+
+  // Whatever the page sends is checked before it's used
+  const notification = DesktopNotification.safeParse(payload);
+  if (!notification.success) return;
+  const { title, body, conversationId } = notification.data;
+
+  const shown = new Notification({ title: title.slice(0, 200), body: body.slice(0, 500) });
+  activeNotifications.add(shown);
+  shown.on('close', () => activeNotifications.delete(shown));
+  shown.on('click', () => {
+    activeNotifications.delete(shown);
+    if (!mainWindow) return;
+    if (mainWindow.isMinimized()) mainWindow.restore();
+    mainWindow.show();
+    mainWindow.focus();
+    mainWindow.webContents.send('notification-click', conversationId);
+  });
+  shown.show();
+});
+
 // Security: Prevent navigation to unknown URLs
 app.on('web-contents-created', (_, contents) => {
   contents.on('will-navigate', (event, navigationUrl) => {
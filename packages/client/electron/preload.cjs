@@ -0,0 +1,19 @@
+const { contextBridge, ipcRenderer } = require('electron');
+
+// What the page can reach of the shell, as window.chatterbox. Only plain
+// values cross the bridge, never Electron objects.
+contextBridge.exposeInMainWorld('chatterbox', {
+  /** @param {import('@chatterbox/shared').DesktopNotification} notification */
+  notify: (notification) => {
+    const { title, body, conversationId } = notification;
+    ipcRenderer.send('notify', { title, body, conversationId });
+  },
+  // Returns a function that stops listening
+  onNotificationClick: (callback) => {
+    const listener = (_, conversationId) => callback(conversationId);
+    ipcRenderer.on('notification-click', listener);
+    return () => {
+      ipcRenderer.removeListener('notification-click', listener);
+    };
+  },
+});
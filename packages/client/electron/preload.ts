@@ -0,0 +1,19 @@
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+// Types only: a sandboxed preload can't load other modules
+import type { DesktopNotification } from '@chatterbox/shared';
+
+// What the page can reach of the shell, as window.chatterbox. Only plain
+// values cross the bridge, never Electron objects.
+contextBridge.exposeInMainWorld('chatterbox', {
+  notify: ({ title, body, conversationId }: DesktopNotification) => {
+    ipcRenderer.send('notify', { title, body, conversationId });
+  },
+  // Returns a function that stops listening
+  onNotificationClick: (callback: (conversationId: string) => void) => {
+    const listener = (_: IpcRendererEvent, conversationId: string) => callback(conversationId);
+    ipcRenderer.on('notification-click', listener);
+    return () => {
+      ipcRenderer.removeListener('notification-click', listener);
+    };
+  },
+});
@@ -4,17 +4,25 @@ import { useChatStore } from './stores/chatStore';
 import { Auth } from './components/Auth';
 import { Sidebar } from './components/Sidebar';
 import { ChatArea } from './components/ChatArea';
+import { ThreadPanel } from './components/ThreadPanel';
+import { onNotificationClick, requestNotificationPermission } from './notifications';
+
+// How long without input before the user shows as away
+const IDLE_AFTER_MS = 5 * 60 * 1000;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'];
 
 function App() {
   const { user, token, checkAuth } = useAuthStore();
-  const { connect, disconnect, isConnected } = useChatStore();
+  // Tokens rotate while signed in; only signing in or out should reconnect
+  const isSignedIn = !!token && !!user;
+  const { connect, disconnect, isConnected, setIdle } = useChatStore();
 
   useEffect(() => {
     checkAuth();
   }, [checkAuth]);
 
   useEffect(() => {
-    if (token && user) {
+    if (isSignedIn) {
       connect();
     } else {
       disconnect();
@@ -23,7 +31,41 @@ function App() {
     return () => {
       disconnect();
     };
-  }, [token, user, connect, disconnect]);
+  }, [isSignedIn, connect, disconnect]);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    let idleTimer = setTimeout(() => setIdle(true), IDLE_AFTER_MS);
+    const handleActivity = () => {
+      clearTimeout(idleTimer);
+      setIdle(false);
+      idleTimer = setTimeout(() => setIdle(true), IDLE_AFTER_MS);
+    };
+
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, handleActivity, { passive: true });
+    }
+    return () => {
+      clearTimeout(idleTimer);
+      for (const event of ACTIVITY_EVENTS) {
+        window.removeEventListener(event, handleActivity);
+      }
+      setIdle(false);
+    };
+  }, [isSignedIn, setIdle]);
+
+  // Clicking a notification opens its conversation
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    requestNotificationPermission();
+    return onNotificationClick((conversationId) => {
+      const { conversations, selectConversation } = useChatStore.getState();
+      const conversation = conversations.find(c => c.id === conversationId);
+      if (conversation) selectConversation(conversation);
+    });
+  }, [isSignedIn]);
 
   if (!user) {
     return <Auth />;
@@ -33,6 +75,7 @@ function App() {
     <div className="app">
       <Sidebar />
       <ChatArea />
+      <ThreadPanel />
       {!isConnected && (
         <div
           style={{
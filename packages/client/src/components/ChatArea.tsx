@@ -1,61 +1,271 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
+import { markdownToText, mentionsUser, GROUP_MENTIONS } from '@chatterbox/shared';
 import { useAuthStore } from '../stores/authStore';
-import { useChatStore, Message, User } from '../stores/chatStore';
+import { useChatStore, Conversation, Message, MessagePreview, User, fileUrl, avatarUrl } from '../stores/chatStore';
+import { useOutboxStore } from '../stores/outboxStore';
 import { format, isToday, isYesterday, isSameDay } from 'date-fns';
 import { UserProfileView } from './UserProfileView';
+import { GroupSettings } from './GroupSettings';
+import { PendingMessage } from './PendingMessage';
+import { Markdown, MessageText } from './Markdown';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { ConversationNotifications } from './NotificationSettings';
+import { describeStatus, formatCustomStatus } from '../presence';
+
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🎉', '🔥', '👀'];
+// How close to either end of the list, in pixels, before the next page loads
+const PAGING_THRESHOLD = 200;
+// How often a typing indicator is re-sent while the user keeps typing
+const TYPING_REFRESH_MS = 3000;
+// The composer grows with its content up to this many lines
+const MAX_INPUT_ROWS = 6;
+const MAX_MENTION_SUGGESTIONS = 6;
+
+export function getPreviewText(message: Message | MessagePreview): string {
+  if (message.deletedAt) return 'Message deleted';
+  if (message.type === 'image') return '📷 Image';
+  if (message.type === 'file') return `📎 ${message.content || 'File'}`;
+  if (message.format === 'markdown' && message.content) {
+    return markdownToText(message.content).replace(/\s*\n\s*/g, ' ');
+  }
+  return message.content || '';
+}
+
+export function inputRows(value: string): number {
+  return Math.min(MAX_INPUT_ROWS, value.split('\n').length);
+}
+
+// Enter submits the textarea's form; Shift+Enter starts a new line
+export function submitOnEnter(e: React.KeyboardEvent<HTMLTextAreaElement>) {
+  if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+    e.preventDefault();
+    e.currentTarget.form?.requestSubmit();
+  }
+}
+
+// The @name being typed just before the caret, if any. Follows the same rule
+// as mentions in sent messages: the @ can't come straight after a word.
+export function mentionQueryAt(value: string, caret: number): { start: number; query: string } | null {
+  const match = value.slice(0, caret).match(/(?<![\w@/])@([\w.-]*)$/);
+  return match ? { start: caret - match[0].length, query: match[1].toLowerCase() } : null;
+}
+
+interface MentionSuggestion {
+  name: string;
+  label: string;
+}
+
+// Members whose username or display name starts with `query`, then @here and
+// @all in groups
+export function mentionSuggestions(conversation: Conversation, query: string, userId?: string): MentionSuggestion[] {
+  const members = conversation.members
+    .filter((m) => m.id !== userId)
+    .filter((m) => m.username.toLowerCase().startsWith(query) || m.displayName.toLowerCase().startsWith(query))
+    .map((m) => ({ name: m.username, label: m.displayName }));
+  const groups = conversation.isGroup
+    ? GROUP_MENTIONS.filter((name) => name.startsWith(query)).map((name) => ({
+        name,
+        label: name === 'here' ? 'Everyone online' : 'Everyone in the group',
+      }))
+    : [];
+  return [...members, ...groups].slice(0, MAX_MENTION_SUGGESTIONS);
+}
 
 export function ChatArea() {
   const { user } = useAuthStore();
   const {
     currentConversation,
     messages,
+    history,
+    loadOlderMessages,
+    loadNewerMessages,
     typingUsers,
     sendMessage,
+    editMessage,
+    deleteMessage,
     uploadFile,
+    refreshAttachment,
+    removeLinkPreview,
     sendTyping,
+    replyingTo,
+    setReplyingTo,
+    openThread,
+    toggleReaction,
+    markRead,
+    highlightedMessageId,
   } = useChatStore();
+  const outbox = useOutboxStore((state) => state.messages);
 
   const [inputValue, setInputValue] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState('');
   const [viewingUser, setViewingUser] = useState<User | null>(null);
+  const [showGroupSettings, setShowGroupSettings] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [pickerMessageId, setPickerMessageId] = useState<string | null>(null);
+  // Previews on other people's messages that this user has hidden
+  const [hiddenPreviewIds, setHiddenPreviewIds] = useState<Set<string>>(new Set());
+  // The @name being typed in the composer, and which suggestion is picked
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // Set while a page of history is loading, so the next render keeps the
+  // view where it was instead of scrolling to the newest message
+  const pagingRef = useRef<{ direction: 'older' | 'newer'; scrollHeight: number; scrollTop: number } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const typingTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const typingSentAtRef = useRef(0);
 
   const currentMessages = currentConversation ? messages[currentConversation.id] || [] : [];
+  const currentHistory = currentConversation ? history[currentConversation.id] : undefined;
+  const pendingMessages = outbox.filter(
+    (m) => m.conversationId === currentConversation?.id && m.userId === user?.id && !m.threadRootId
+  );
+
+  const suggestions = currentConversation && mentionQuery
+    ? mentionSuggestions(currentConversation, mentionQuery.query, user?.id)
+    : [];
 
   const currentTypingUsers = typingUsers.filter(
     (t) => t.conversationId === currentConversation?.id
   );
 
-  useEffect(() => {
+  useLayoutEffect(() => {
+    const paging = pagingRef.current;
+    const container = messagesContainerRef.current;
+    if (paging && container) {
+      // Older messages went in above the viewport; shift by their height so
+      // the messages the user was reading stay put
+      if (paging.direction === 'older') {
+        container.scrollTop = paging.scrollTop + container.scrollHeight - paging.scrollHeight;
+      }
+      pagingRef.current = null;
+      return;
+    }
+
+    // After jumping to a search result, keep that message in view instead of the newest one
+    if (highlightedMessageId) {
+      document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ block: 'center' });
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [currentMessages]);
+  }, [currentMessages, pendingMessages.length, highlightedMessageId]);
+
+  // Mark the latest message read whenever it changes or the window regains focus
+  const latestMessageId = currentMessages[currentMessages.length - 1]?.id;
+  useEffect(() => {
+    if (!currentConversation || !latestMessageId) return;
+
+    const markLatestRead = () => {
+      if (document.hasFocus()) markRead(currentConversation.id, latestMessageId);
+    };
+    markLatestRead();
+    window.addEventListener('focus', markLatestRead);
+    return () => window.removeEventListener('focus', markLatestRead);
+  }, [currentConversation?.id, latestMessageId, markRead]);
+
+  const handleScroll = () => {
+    const container = messagesContainerRef.current;
+    if (!container || !currentConversation || !currentHistory || currentHistory.isLoading) return;
+
+    const { scrollTop, scrollHeight, clientHeight } = container;
+    let direction: 'older' | 'newer' | null = null;
+    if (scrollTop < PAGING_THRESHOLD && currentHistory.hasOlder) {
+      direction = 'older';
+    } else if (scrollHeight - scrollTop - clientHeight < PAGING_THRESHOLD && currentHistory.hasNewer) {
+      direction = 'newer';
+    }
+    if (!direction) return;
+
+    const paging = { direction, scrollHeight, scrollTop };
+    pagingRef.current = paging;
+    const load = direction === 'older' ? loadOlderMessages : loadNewerMessages;
+    load(currentConversation.id).then(() => {
+      // Still set if the load added nothing, so no render restored the view
+      if (pagingRef.current === paging) pagingRef.current = null;
+    });
+  };
 
   const handleInputChange = useCallback(
-    (e: React.ChangeEvent<HTMLInputElement>) => {
+    (e: React.ChangeEvent<HTMLTextAreaElement>) => {
       setInputValue(e.target.value);
+      setMentionQuery(mentionQueryAt(e.target.value, e.target.selectionStart));
+      setMentionIndex(0);
 
       // Send typing indicator
       if (typingTimeoutRef.current) {
         clearTimeout(typingTimeoutRef.current);
       }
 
-      sendTyping(true);
+      // Others drop the indicator after 5 seconds, so it's refreshed every
+      // few seconds rather than sent with each keystroke
+      if (Date.now() - typingSentAtRef.current > TYPING_REFRESH_MS) {
+        typingSentAtRef.current = Date.now();
+        sendTyping(true);
+      }
 
       typingTimeoutRef.current = setTimeout(() => {
+        typingSentAtRef.current = 0;
         sendTyping(false);
       }, 2000);
     },
     [sendTyping]
   );
 
+  // Replaces the @name being typed with the chosen one
+  const insertMention = (suggestion: MentionSuggestion) => {
+    const input = inputRef.current;
+    if (!mentionQuery || !input) return;
+
+    const text = `@${suggestion.name} `;
+    const caret = mentionQuery.start + text.length;
+    setInputValue(inputValue.slice(0, mentionQuery.start) + text + inputValue.slice(input.selectionStart));
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      input.focus();
+      input.setSelectionRange(caret, caret);
+    });
+  };
+
+  // While suggestions are showing, the arrow keys move through them and
+  // Enter or Tab picks one
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setMentionIndex((mentionIndex + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[Math.min(mentionIndex, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setMentionQuery(null);
+        return;
+      }
+    }
+    submitOnEnter(e);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!inputValue.trim()) return;
 
-    sendMessage(inputValue.trim());
+    sendMessage(inputValue.trim(), {
+      format: 'markdown',
+      replyToId: replyingTo?.id,
+    });
     setInputValue('');
+    setMentionQuery(null);
+    setReplyingTo(null);
+    typingSentAtRef.current = 0;
     sendTyping(false);
   };
 
@@ -64,16 +274,18 @@ export function ChatArea() {
     if (!file) return;
 
     setIsUploading(true);
+    setUploadError('');
     const result = await uploadFile(file);
     setIsUploading(false);
 
-    if (result) {
+    if (result.attachment) {
+      const { attachment } = result;
       sendMessage(
-        result.type === 'image' ? 'Shared an image' : `Shared a file: ${result.fileName}`,
-        result.type,
-        result.fileUrl,
-        result.fileName
+        attachment.isImage ? 'Shared an image' : `Shared a file: ${attachment.fileName}`,
+        { attachment }
       );
+    } else {
+      setUploadError(result.error || 'Upload failed');
     }
 
     // Reset file input
@@ -82,6 +294,95 @@ export function ChatArea() {
     }
   };
 
+  // Attachment URLs are signed and short-lived; links from a while ago get
+  // re-signed before opening
+  const openAttachment = async (message: Message) => {
+    let attachment = message.attachment;
+    if (attachment && new Date(attachment.urlsExpireAt).getTime() <= Date.now()) {
+      attachment = await refreshAttachment(message);
+    }
+    if (attachment) {
+      window.open(fileUrl(attachment.url), '_blank');
+    }
+  };
+
+  // Only an expired URL is worth retrying; otherwise the file is gone
+  const handleAttachmentError = (message: Message) => {
+    if (message.attachment && new Date(message.attachment.urlsExpireAt).getTime() <= Date.now()) {
+      refreshAttachment(message);
+    }
+  };
+
+  // A sender's dismiss removes the preview for everyone; anyone else's only
+  // hides it here
+  const dismissLinkPreview = (message: Message, previewId: string) => {
+    if (message.senderId === user?.id) {
+      removeLinkPreview(message, previewId);
+    } else {
+      setHiddenPreviewIds((ids) => new Set(ids).add(previewId));
+    }
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditValue(message.content || '');
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditValue('');
+  };
+
+  const handleEditSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingMessageId || !editValue.trim()) return;
+
+    editMessage(editingMessageId, editValue.trim());
+    cancelEditing();
+  };
+
+  const handleDelete = (message: Message) => {
+    if (window.confirm('Delete this message?')) {
+      deleteMessage(message.id);
+    }
+  };
+
+  const renderReactionChips = (message: Message) =>
+    message.reactions.length > 0 && (
+      <div className="reaction-chips">
+        {message.reactions.map((reaction) => (
+          <button
+            key={reaction.emoji}
+            className={`reaction-chip ${reaction.reacted ? 'active' : ''}`}
+            onClick={() => toggleReaction(message, reaction.emoji)}
+          >
+            {reaction.emoji} {reaction.count}
+          </button>
+        ))}
+      </div>
+    );
+
+  const renderReactionPicker = (message: Message) =>
+    pickerMessageId === message.id && (
+      <div className="reaction-picker">
+        {REACTION_EMOJIS.map((emoji) => (
+          <button
+            key={emoji}
+            onClick={() => {
+              toggleReaction(message, emoji);
+              setPickerMessageId(null);
+            }}
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+    );
+
+  const togglePicker = (message: Message) => {
+    setPickerMessageId(pickerMessageId === message.id ? null : message.id);
+  };
+
   const getOtherMember = () => {
     if (!currentConversation) return null;
     return currentConversation.members.find((m) => m.id !== user?.id);
@@ -117,23 +418,37 @@ export function ChatArea() {
   const chatName = currentConversation.name || otherMember?.displayName || 'Chat';
   const chatStatus = currentConversation.isGroup
     ? `${currentConversation.members.length} members`
-    : otherMember?.status || 'offline';
+    : otherMember
+      ? [describeStatus(otherMember), formatCustomStatus(otherMember)].filter(Boolean).join(' · ')
+      : 'Offline';
+
+  const myRole = currentConversation.members.find((m) => m.id === user?.id)?.role;
+  const canModerate = currentConversation.isGroup && (myRole === 'owner' || myRole === 'admin');
 
   const handleViewProfile = (memberToView: User) => {
     setViewingUser(memberToView);
   };
 
+  const handleHeaderClick = () => {
+    if (currentConversation.isGroup) {
+      setShowGroupSettings(true);
+    } else if (otherMember) {
+      handleViewProfile(otherMember);
+    }
+  };
+
+  const headerAvatar = currentConversation.isGroup
+    ? currentConversation.avatar && avatarUrl(currentConversation.avatar, 64)
+    : otherMember?.avatar && avatarUrl(otherMember.avatar, 64);
+
   return (
     <div className="chat-area">
-      <div 
-        className={`chat-header ${!currentConversation.isGroup ? 'clickable' : ''}`}
-        onClick={() => !currentConversation.isGroup && otherMember && handleViewProfile(otherMember)}
-      >
+      <div className="chat-header clickable" onClick={handleHeaderClick}>
         <div 
           className="conversation-avatar"
-          style={!currentConversation.isGroup && otherMember?.avatar ? { backgroundImage: `url(${otherMember.avatar})`, backgroundSize: 'cover' } : {}}
+          style={headerAvatar ? { backgroundImage: `url(${headerAvatar})`, backgroundSize: 'cover' } : {}}
         >
-          {!(otherMember?.avatar && !currentConversation.isGroup) && (
+          {!headerAvatar && (
             currentConversation.isGroup
               ? currentConversation.name?.[0] || 'G'
               : otherMember?.displayName?.[0]?.toUpperCase() || '?'
@@ -146,12 +461,36 @@ export function ChatArea() {
           <h3>{chatName}</h3>
           <span>{chatStatus}</span>
         </div>
+        <ConversationNotifications conversation={currentConversation} />
       </div>
 
-      <div className="messages-container">
+      <div className="messages-container" ref={messagesContainerRef} onScroll={handleScroll}>
         {currentMessages.map((message, index) => {
           const isSent = message.senderId === user?.id;
           const showDate = shouldShowDateSeparator(message, index);
+          const seenBy = currentConversation.members.filter(
+            (m) => m.lastReadMessageId === message.id && m.id !== user?.id && m.id !== message.senderId
+          );
+
+          if (message.type === 'system') {
+            return (
+              <div key={message.id}>
+                {showDate && (
+                  <div className="date-separator">
+                    <span>{formatMessageDate(new Date(message.createdAt))}</span>
+                  </div>
+                )}
+                <div id={`message-${message.id}`} className="system-message">
+                  <span>{message.content}</span>
+                  {renderReactionChips(message)}
+                  <div className="message-actions">
+                    <button onClick={() => togglePicker(message)}>React</button>
+                  </div>
+                  {renderReactionPicker(message)}
+                </div>
+              </div>
+            );
+          }
 
           return (
             <div key={message.id}>
@@ -160,53 +499,147 @@ export function ChatArea() {
                   <span>{formatMessageDate(new Date(message.createdAt))}</span>
                 </div>
               )}
-              <div className={`message ${isSent ? 'sent' : 'received'}`}>
+              <div
+                id={`message-${message.id}`}
+                className={`message ${isSent ? 'sent' : 'received'} ${highlightedMessageId === message.id ? 'highlighted' : ''} ${!isSent && user && mentionsUser(message.mentions, user.id) ? 'mentioned' : ''}`}
+              >
                 {!isSent && (
-                  <div className="message-avatar">
-                    {message.senderName?.[0]?.toUpperCase() || '?'}
+                  <div
+                    className="message-avatar"
+                    style={
+                      message.webhookId && message.senderAvatar
+                        ? { backgroundImage: `url(${avatarUrl(message.senderAvatar, 64)})`, backgroundSize: 'cover' }
+                        : {}
+                    }
+                  >
+                    {!(message.webhookId && message.senderAvatar) && (message.senderName?.[0]?.toUpperCase() || '?')}
                   </div>
                 )}
                 <div className="message-content">
                   {!isSent && currentConversation.isGroup && (
-                    <div className="message-sender">{message.senderName}</div>
+                    <div className="message-sender">
+                      {message.senderName}
+                      {message.webhookId && <span className="webhook-badge">Webhook</span>}
+                    </div>
                   )}
 
-                  {message.type === 'image' && message.fileUrl && (
-                    <img
-                      src={message.fileUrl}
-                      alt="Shared image"
-                      className="message-image"
-                      onClick={() => window.open(message.fileUrl!, '_blank')}
-                    />
+                  {message.replyTo && !message.deletedAt && (
+                    <div className="message-quote">
+                      <span className="message-quote-sender">{message.replyTo.senderName}</span>
+                      <span className="message-quote-text">{getPreviewText(message.replyTo)}</span>
+                    </div>
                   )}
 
-                  {message.type === 'file' && message.fileUrl && (
-                    <a
-                      href={message.fileUrl}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="message-file"
-                    >
-                      <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-                        <path d="M14 2H6c-1.1 0-2 .9-2 2v16c0 1.1.9 2 2 2h12c1.1 0 2-.9 2-2V8l-6-6zM6 20V4h7v5h5v11H6z" />
-                      </svg>
-                      {message.fileName}
-                    </a>
+                  {message.deletedAt ? (
+                    <div className="message-bubble deleted">Message deleted</div>
+                  ) : editingMessageId === message.id ? (
+                    <form className="message-edit-form" onSubmit={handleEditSubmit}>
+                      <textarea
+                        value={editValue}
+                        rows={inputRows(editValue)}
+                        onChange={(e) => setEditValue(e.target.value)}
+                        onKeyDown={(e) => (e.key === 'Escape' ? cancelEditing() : submitOnEnter(e))}
+                        autoFocus
+                      />
+                      <button type="button" onClick={cancelEditing}>Cancel</button>
+                      <button type="submit" disabled={!editValue.trim()}>Save</button>
+                    </form>
+                  ) : (
+                    <>
+                      {message.type === 'image' && message.attachment && (
+                        <img
+                          src={fileUrl(message.attachment.previewUrl || message.attachment.url)}
+                          alt="Shared image"
+                          className="message-image"
+                          width={message.attachment.width || undefined}
+                          height={message.attachment.height || undefined}
+                          onError={() => handleAttachmentError(message)}
+                          onClick={() => openAttachment(message)}
+                        />
+                      )}
+
+                      {message.type === 'file' && message.attachment && (
+                        <a
+                          href={fileUrl(message.attachment.url)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="message-file"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            openAttachment(message);
+                          }}
+                        >
+                          <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+                            <path d="M14 2H6c-1.1 0-2 .9-2 2v16c0 1.1.9 2 2 2h12c1.1 0 2-.9 2-2V8l-6-6zM6 20V4h7v5h5v11H6z" />
+                          </svg>
+                          {message.fileName}
+                        </a>
+                      )}
+
+                      {(message.type === 'text' || !message.attachment) && message.content && (
+                        <div className="message-bubble">
+                          <MessageText content={message.content} format={message.format} mentions={message.mentions} />
+                        </div>
+                      )}
+
+                      {message.linkPreviews
+                        .filter((preview) => !hiddenPreviewIds.has(preview.id))
+                        .map((preview) => (
+                          <LinkPreviewCard
+                            key={preview.id}
+                            preview={preview}
+                            onDismiss={() => dismissLinkPreview(message, preview.id)}
+                          />
+                        ))}
+                    </>
                   )}
 
-                  {(message.type === 'text' || !message.fileUrl) && message.content && (
-                    <div className="message-bubble">{message.content}</div>
-                  )}
+                  {renderReactionChips(message)}
 
                   <div className="message-time">
                     {format(new Date(message.createdAt), 'HH:mm')}
+                    {message.editedAt && !message.deletedAt && (
+                      <span className="message-edited"> · edited</span>
+                    )}
                   </div>
+
+                  {message.replyCount > 0 && (
+                    <button className="thread-link" onClick={() => openThread(message)}>
+                      {message.replyCount} {message.replyCount === 1 ? 'reply' : 'replies'}
+                    </button>
+                  )}
+
+                  {!message.deletedAt && editingMessageId !== message.id && (
+                    <div className="message-actions">
+                      <button onClick={() => togglePicker(message)}>React</button>
+                      <button onClick={() => setReplyingTo(message)}>Reply</button>
+                      <button onClick={() => openThread(message)}>Thread</button>
+                      {isSent && message.content && (
+                        <button onClick={() => startEditing(message)}>Edit</button>
+                      )}
+                      {(isSent || canModerate) && (
+                        <button onClick={() => handleDelete(message)}>Delete</button>
+                      )}
+                    </div>
+                  )}
+
+                  {renderReactionPicker(message)}
+
+                  {seenBy.length > 0 && (
+                    <div className="message-seen-by">
+                      Seen by {seenBy.map((m) => m.displayName).join(', ')}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
           );
         })}
 
+        {!currentHistory?.hasNewer && pendingMessages.map((message) => (
+          <PendingMessage key={message.clientMessageId} message={message} />
+        ))}
+
         {currentTypingUsers.length > 0 && (
           <div className="typing-indicator">
             <div className="typing-dots">
@@ -223,6 +656,51 @@ export function ChatArea() {
       </div>
 
       <div className="message-input-container">
+        {uploadError && (
+          <div className="upload-error">
+            {uploadError}
+            <button className="close-btn" onClick={() => setUploadError('')}>
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+              </svg>
+            </button>
+          </div>
+        )}
+        {replyingTo && (
+          <div className="reply-bar">
+            <div className="message-quote">
+              <span className="message-quote-sender">Replying to {replyingTo.senderName}</span>
+              <span className="message-quote-text">{getPreviewText(replyingTo)}</span>
+            </div>
+            <button className="close-btn" onClick={() => setReplyingTo(null)}>
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+              </svg>
+            </button>
+          </div>
+        )}
+        {showPreview && inputValue.trim() && (
+          <div className="composer-preview">
+            <Markdown source={inputValue} />
+          </div>
+        )}
+        {suggestions.length > 0 && (
+          <div className="mention-suggestions">
+            {suggestions.map((suggestion, index) => (
+              <button
+                key={suggestion.name}
+                type="button"
+                className={`mention-suggestion ${index === mentionIndex ? 'active' : ''}`}
+                // Keeps focus, and the caret, in the composer
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertMention(suggestion)}
+              >
+                <span className="mention-suggestion-name">@{suggestion.name}</span>
+                <span className="mention-suggestion-label">{suggestion.label}</span>
+              </button>
+            ))}
+          </div>
+        )}
         <form className="message-input-form" onSubmit={handleSubmit}>
           <input
             type="file"
@@ -246,13 +724,27 @@ export function ChatArea() {
               </svg>
             )}
           </button>
-          <input
-            type="text"
+          <textarea
+            ref={inputRef}
             value={inputValue}
+            rows={inputRows(inputValue)}
             onChange={handleInputChange}
-            placeholder="Type a message..."
+            onKeyDown={handleInputKeyDown}
+            onClick={(e) => setMentionQuery(mentionQueryAt(inputValue, e.currentTarget.selectionStart))}
+            onBlur={() => setMentionQuery(null)}
+            placeholder="Type a message... (Shift+Enter for a new line)"
             autoFocus
           />
+          <button
+            type="button"
+            className={`preview-btn ${showPreview ? 'active' : ''}`}
+            onClick={() => setShowPreview(!showPreview)}
+            title={showPreview ? 'Hide preview' : 'Preview formatting'}
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M12 4.5C7 4.5 2.73 7.61 1 12c1.73 4.39 6 7.5 11 7.5s9.27-3.11 11-7.5c-1.73-4.39-6-7.5-11-7.5zM12 17c-2.76 0-5-2.24-5-5s2.24-5 5-5 5 2.24 5 5-2.24 5-5 5zm0-8c-1.66 0-3 1.34-3 3s1.34 3 3 3 3-1.34 3-3-1.34-3-3-3z" />
+            </svg>
+          </button>
           <button type="submit" className="send-btn" disabled={!inputValue.trim()}>
             <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
               <path d="M2.01 21L23 12 2.01 3 2 10l15 2-15 2z" />
@@ -265,6 +757,10 @@ export function ChatArea() {
       {viewingUser && (
         <UserProfileView user={viewingUser} onClose={() => setViewingUser(null)} />
       )}
+
+      {showGroupSettings && currentConversation.isGroup && (
+        <GroupSettings conversation={currentConversation} onClose={() => setShowGroupSettings(false)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,229 @@
+import { useState, useRef } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { useChatStore, Conversation, Member, User, avatarUrl } from '../stores/chatStore';
+import { WebhookSettings } from './WebhookSettings';
+
+interface GroupSettingsProps {
+  conversation: Conversation;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<Member['role'], string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+export function GroupSettings({ conversation, onClose }: GroupSettingsProps) {
+  const { user } = useAuthStore();
+  const {
+    updateGroup,
+    setGroupAvatar,
+    addGroupMember,
+    removeGroupMember,
+    setMemberRole,
+    leaveConversation,
+    searchUsers,
+  } = useChatStore();
+  const [name, setName] = useState(conversation.name || '');
+  const [userSearchQuery, setUserSearchQuery] = useState('');
+  const [userSearchResults, setUserSearchResults] = useState<User[]>([]);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const myRole = conversation.members.find((m) => m.id === user?.id)?.role;
+  const isOwner = myRole === 'owner';
+  const canManage = isOwner || myRole === 'admin';
+
+  // Mirrors the server's rules: the owner manages everyone, admins can only
+  // remove plain members
+  const canRemove = (member: Member) =>
+    member.id !== user?.id && member.role !== 'owner' && (isOwner || (canManage && member.role === 'member'));
+
+  const run = async (action: Promise<{ success: boolean; error?: string }>) => {
+    setError('');
+    const result = await action;
+    if (!result.success) {
+      setError(result.error || 'Something went wrong');
+    }
+    return result.success;
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || name.trim() === conversation.name) return;
+    run(updateGroup(conversation.id, { name: name.trim() }));
+  };
+
+  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    run(setGroupAvatar(conversation.id, file));
+  };
+
+  const handleUserSearch = async (query: string) => {
+    setUserSearchQuery(query);
+    if (query.trim().length >= 2) {
+      const results = await searchUsers(query);
+      setUserSearchResults(results.filter((u) => !conversation.members.some((m) => m.id === u.id)));
+    } else {
+      setUserSearchResults([]);
+    }
+  };
+
+  const handleAddMember = async (newMember: User) => {
+    if (await run(addGroupMember(conversation.id, newMember.id))) {
+      setUserSearchQuery('');
+      setUserSearchResults([]);
+    }
+  };
+
+  const handleRemove = (member: Member) => {
+    if (window.confirm(`Remove ${member.displayName} from the group?`)) {
+      run(removeGroupMember(conversation.id, member.id));
+    }
+  };
+
+  const handleLeave = async () => {
+    if (window.confirm('Leave this group?') && (await run(leaveConversation(conversation.id)))) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal profile-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="profile-header">
+          <h3>Group Settings</h3>
+          <button className="close-btn" onClick={onClose}>
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="avatar-section">
+          <div
+            className={`profile-avatar-large ${canManage ? '' : 'view-only'}`}
+            onClick={() => canManage && fileInputRef.current?.click()}
+            style={conversation.avatar ? { backgroundImage: `url(${avatarUrl(conversation.avatar, 256)})` } : {}}
+          >
+            {!conversation.avatar && (conversation.name?.[0] || 'G')}
+            {canManage && (
+              <div className="avatar-overlay">
+                <span>Change</span>
+              </div>
+            )}
+          </div>
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleAvatarChange}
+            accept="image/*"
+            style={{ display: 'none' }}
+          />
+          {canManage && conversation.avatar && (
+            <button className="btn btn-secondary" onClick={() => run(setGroupAvatar(conversation.id, null))}>
+              Remove picture
+            </button>
+          )}
+        </div>
+
+        {error && <div className="error-message">{error}</div>}
+
+        {canManage ? (
+          <form className="group-rename-form" onSubmit={handleRename}>
+            <div className="form-group">
+              <label htmlFor="groupName">Group Name</label>
+              <input
+                type="text"
+                id="groupName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Enter group name"
+              />
+            </div>
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={!name.trim() || name.trim() === conversation.name}
+            >
+              Rename
+            </button>
+          </form>
+        ) : (
+          <div className="profile-info-item">
+            <label>Group Name</label>
+            <div className="profile-info-value">{conversation.name}</div>
+          </div>
+        )}
+
+        <div className="group-members">
+          <label>{conversation.members.length} members</label>
+          {conversation.members.map((member) => (
+            <div key={member.id} className="group-member-item">
+              <div
+                className="user-avatar"
+                style={member.avatar ? { backgroundImage: `url(${avatarUrl(member.avatar, 64)})`, backgroundSize: 'cover' } : {}}
+              >
+                {!member.avatar && member.displayName?.[0]?.toUpperCase()}
+              </div>
+              <div className="group-member-info">
+                <span>
+                  {member.displayName}
+                  {member.id === user?.id && ' (you)'}
+                </span>
+                {member.role !== 'member' && (
+                  <span className={`role-badge ${member.role}`}>{ROLE_LABELS[member.role]}</span>
+                )}
+              </div>
+              <div className="group-member-actions">
+                {isOwner && member.id !== user?.id && (
+                  <button onClick={() => run(setMemberRole(conversation.id, member.id, member.role === 'admin' ? 'member' : 'admin'))}>
+                    {member.role === 'admin' ? 'Remove admin' : 'Make admin'}
+                  </button>
+                )}
+                {canRemove(member) && (
+                  <button onClick={() => handleRemove(member)}>Remove</button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {canManage && (
+          <div className="form-group">
+            <label>Add Members</label>
+            <input
+              type="text"
+              value={userSearchQuery}
+              onChange={(e) => handleUserSearch(e.target.value)}
+              placeholder="Search by username or name"
+            />
+            <div className="user-search-results">
+              {userSearchResults.map((searchUser) => (
+                <div key={searchUser.id} className="user-search-item" onClick={() => handleAddMember(searchUser)}>
+                  <div className="user-avatar">{searchUser.displayName?.[0]?.toUpperCase()}</div>
+                  <div className="user-search-info">
+                    <h4>{searchUser.displayName}</h4>
+                    <span>@{searchUser.username}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {canManage && <WebhookSettings conversation={conversation} />}
+
+        <div className="profile-actions">
+          <button className="btn btn-danger" onClick={handleLeave}>
+            Leave Group
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
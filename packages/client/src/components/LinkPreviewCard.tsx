@@ -0,0 +1,27 @@
+import { LinkPreview, fileUrl } from '../stores/chatStore';
+
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+  onDismiss: () => void;
+}
+
+// A card for a link in a message, showing what the server found at it
+export function LinkPreviewCard({ preview, onDismiss }: LinkPreviewCardProps) {
+  return (
+    <div className="link-preview">
+      <a href={preview.url} target="_blank" rel="noopener noreferrer" className="link-preview-body">
+        {preview.imageUrl && (
+          <img src={fileUrl(preview.imageUrl)} alt="" className="link-preview-image" loading="lazy" />
+        )}
+        <div className="link-preview-text">
+          <div className="link-preview-site">{preview.siteName || new URL(preview.url).hostname}</div>
+          {preview.title && <div className="link-preview-title">{preview.title}</div>}
+          {preview.description && <div className="link-preview-description">{preview.description}</div>}
+        </div>
+      </a>
+      <button className="link-preview-dismiss" onClick={onDismiss} title="Remove preview">
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useMemo, Fragment, ReactNode } from 'react';
+import {
+  parseMarkdown, splitMentions, MarkdownBlock, MarkdownInline, Mention, MessageFormat,
+} from '@chatterbox/shared';
+import { useAuthStore } from '../stores/authStore';
+import { highlight } from '../highlight';
+
+// Renders a run of text, marking up whatever mentions it contains
+type TextRenderer = (text: string) => ReactNode;
+
+const plainText: TextRenderer = (text) => text;
+
+function renderInline(nodes: MarkdownInline[], renderText: TextRenderer): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={index}>{renderText(node.text)}</Fragment>;
+      case 'code':
+        return <code key={index} className="md-code">{node.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children, renderText)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children, renderText)}</em>;
+      case 'strikethrough':
+        return <del key={index}>{renderInline(node.children, renderText)}</del>;
+      case 'link':
+        // Opened in the system browser by the window open handler. Link
+        // text is never a mention.
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children, plainText)}
+          </a>
+        );
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+}
+
+function CodeBlock({ text, language }: { text: string; language: string | null }) {
+  const tokens = useMemo(() => highlight(text, language), [text, language]);
+  return (
+    <pre className="md-code-block" data-language={language || undefined}>
+      <code>
+        {tokens.map((token, index) =>
+          token.type === 'plain' ? token.text : <span key={index} className={`hl-${token.type}`}>{token.text}</span>
+        )}
+      </code>
+    </pre>
+  );
+}
+
+function renderBlocks(blocks: MarkdownBlock[], renderText: TextRenderer): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children, renderText)}</p>;
+      case 'code_block':
+        return <CodeBlock key={index} text={block.text} language={block.language} />;
+      case 'blockquote':
+        return <blockquote key={index}>{renderBlocks(block.children, renderText)}</blockquote>;
+      case 'list': {
+        const items = block.items.map((item, i) => <li key={i}>{renderInline(item, renderText)}</li>);
+        return block.ordered
+          ? <ol key={index} start={block.start}>{items}</ol>
+          : <ul key={index}>{items}</ul>;
+      }
+    }
+  });
+}
+
+// Marks up the @names the server resolved to mentions; anything else that
+// looks like one stays text. Mentions of `username`, @here and @all stand out.
+function mentionRenderer(mentions: Mention[], username: string | undefined): TextRenderer {
+  if (mentions.length === 0) return plainText;
+
+  const isMe = new Map<string, boolean>();
+  for (const mention of mentions) {
+    if (mention.type === 'user') {
+      const name = mention.username.toLowerCase();
+      isMe.set(name, name === username?.toLowerCase());
+    } else {
+      isMe.set(mention.type, true);
+    }
+  }
+
+  return (text) => splitMentions(text).map((segment, index) => {
+    if (segment.type === 'text' || !isMe.has(segment.name)) return segment.text;
+    return (
+      <span key={index} className={`mention ${isMe.get(segment.name) ? 'mention-me' : ''}`}>
+        {segment.text}
+      </span>
+    );
+  });
+}
+
+interface MarkdownProps {
+  source: string;
+  renderText?: TextRenderer;
+}
+
+// Renders the markdown subset as React elements; the source is never
+// treated as HTML
+export function Markdown({ source, renderText = plainText }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return <div className="markdown">{renderBlocks(blocks, renderText)}</div>;
+}
+
+interface MessageTextProps {
+  content: string;
+  format: MessageFormat;
+  mentions?: Mention[];
+}
+
+// A message's content as its sender meant it to look
+export function MessageText({ content, format, mentions = [] }: MessageTextProps) {
+  const username = useAuthStore((state) => state.user?.username);
+  const renderText = useMemo(() => mentionRenderer(mentions, username), [mentions, username]);
+
+  if (format === 'markdown') return <Markdown source={content} renderText={renderText} />;
+  return <span className="plain-text">{renderText(content)}</span>;
+}
@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useChatStore, Conversation, Message } from '../stores/chatStore';
+import { getPreviewText } from './ChatArea';
+
+interface MentionInboxProps {
+  getConversationName: (conv: Conversation) => string;
+}
+
+// Messages that mentioned the user, newest first. New mentions arriving
+// while it's open reload the first page.
+export function MentionInbox({ getConversationName }: MentionInboxProps) {
+  const { conversations, fetchMentions, jumpToMessage, unseenMentions, clearUnseenMentions } = useChatStore();
+
+  const [mentions, setMentions] = useState<Message[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const openedRef = useRef(false);
+  const mountedRef = useRef(false);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  // Not cancelled when clearing the count re-runs this, only on unmount
+  useEffect(() => {
+    if (openedRef.current && unseenMentions === 0) return;
+    openedRef.current = true;
+
+    clearUnseenMentions();
+    fetchMentions().then((page) => {
+      if (mountedRef.current) {
+        setMentions(page.messages);
+        setNextCursor(page.nextCursor);
+        setIsLoading(false);
+      }
+    });
+  }, [unseenMentions, fetchMentions, clearUnseenMentions]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoading(true);
+    const page = await fetchMentions(nextCursor);
+    setMentions([...mentions, ...page.messages]);
+    setNextCursor(page.nextCursor);
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="conversation-list">
+      {mentions.map((message) => {
+        const conv = conversations.find((c) => c.id === message.conversationId);
+        return (
+          <div key={message.id} className="search-result" onClick={() => jumpToMessage(message)}>
+            <div className="search-result-header">
+              <span className="conversation-name">
+                {message.senderName}
+                {conv && <span className="search-result-conversation"> in {getConversationName(conv)}</span>}
+              </span>
+              <span className="conversation-time">
+                {formatDistanceToNow(new Date(message.createdAt), { addSuffix: false })}
+              </span>
+            </div>
+            <div className="search-result-snippet">{getPreviewText(message)}</div>
+          </div>
+        );
+      })}
+
+      {nextCursor && (
+        <button className="btn btn-secondary search-load-more" onClick={handleLoadMore} disabled={isLoading}>
+          {isLoading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+
+      {!isLoading && mentions.length === 0 && (
+        <div style={{ padding: '20px', textAlign: 'center', color: 'var(--text-muted)' }}>
+          No mentions yet
+        </div>
+      )}
+    </div>
+  );
+}
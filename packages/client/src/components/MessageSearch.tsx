@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useChatStore, Conversation, Member, SearchFilters, SearchHit } from '../stores/chatStore';
+
+interface MessageSearchProps {
+  query: string;
+  getConversationName: (conv: Conversation) => string;
+}
+
+// Date inputs give local calendar days; the API wants ISO instants
+function toApiFilters(filters: SearchFilters): SearchFilters {
+  return {
+    ...filters,
+    from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+  };
+}
+
+function Snippet({ hit }: { hit: SearchHit }) {
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  hit.highlights.forEach(([start, end], i) => {
+    if (start > pos) parts.push(hit.snippet.slice(pos, start));
+    parts.push(<mark key={i}>{hit.snippet.slice(start, end)}</mark>);
+    pos = end;
+  });
+  parts.push(hit.snippet.slice(pos));
+  return <>{parts}</>;
+}
+
+export function MessageSearch({ query, getConversationName }: MessageSearchProps) {
+  const { conversations, searchMessages, jumpToMessage } = useChatStore();
+
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Everyone the user shares a conversation with, for the sender filter
+  const senders = new Map<string, Member>();
+  for (const conv of conversations) {
+    if (filters.conversationId && conv.id !== filters.conversationId) continue;
+    for (const member of conv.members) senders.set(member.id, member);
+  }
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setNextCursor(null);
+      setIsLoading(false);
+      return;
+    }
+
+    // Debounce so we don't search on every keystroke
+    let cancelled = false;
+    setIsLoading(true);
+    const timer = setTimeout(async () => {
+      const page = await searchMessages(query, toApiFilters(filters));
+      if (!cancelled) {
+        setResults(page.results);
+        setNextCursor(page.nextCursor);
+        setIsLoading(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, filters, searchMessages]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoading(true);
+    const page = await searchMessages(query, toApiFilters(filters), nextCursor);
+    setResults([...results, ...page.results]);
+    setNextCursor(page.nextCursor);
+    setIsLoading(false);
+  };
+
+  const updateFilter = (key: keyof SearchFilters, value: string) => {
+    setFilters({ ...filters, [key]: value || undefined });
+  };
+
+  return (
+    <div className="message-search">
+      <div className="message-search-filters">
+        <select
+          value={filters.conversationId || ''}
+          onChange={(e) => setFilters({ ...filters, conversationId: e.target.value || undefined, senderId: undefined })}
+        >
+          <option value="">All conversations</option>
+          {conversations.map((conv) => (
+            <option key={conv.id} value={conv.id}>{getConversationName(conv)}</option>
+          ))}
+        </select>
+        <select value={filters.senderId || ''} onChange={(e) => updateFilter('senderId', e.target.value)}>
+          <option value="">Anyone</option>
+          {Array.from(senders.values()).map((member) => (
+            <option key={member.id} value={member.id}>{member.displayName}</option>
+          ))}
+        </select>
+        <select value={filters.type || ''} onChange={(e) => updateFilter('type', e.target.value)}>
+          <option value="">Any type</option>
+          <option value="text">Text</option>
+          <option value="image">Images</option>
+          <option value="file">Files</option>
+        </select>
+        <div className="message-search-dates">
+          <input
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            title="From"
+          />
+          <input
+            type="date"
+            value={filters.to || ''}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            title="To"
+          />
+        </div>
+      </div>
+
+      <div className="conversation-list">
+        {results.map((hit) => {
+          const conv = conversations.find((c) => c.id === hit.message.conversationId);
+          return (
+            <div
+              key={hit.message.id}
+              className="search-result"
+              onClick={() => jumpToMessage(hit.message)}
+            >
+              <div className="search-result-header">
+                <span className="conversation-name">
+                  {hit.message.senderName}
+                  {conv && <span className="search-result-conversation"> in {getConversationName(conv)}</span>}
+                </span>
+                <span className="conversation-time">
+                  {formatDistanceToNow(new Date(hit.message.createdAt), { addSuffix: false })}
+                </span>
+              </div>
+              <div className="search-result-snippet">
+                <Snippet hit={hit} />
+              </div>
+            </div>
+          );
+        })}
+
+        {nextCursor && (
+          <button className="btn btn-secondary search-load-more" onClick={handleLoadMore} disabled={isLoading}>
+            {isLoading ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+
+        {query.trim() && !isLoading && results.length === 0 && (
+          <div style={{ padding: '20px', textAlign: 'center', color: 'var(--text-muted)' }}>
+            No messages found
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
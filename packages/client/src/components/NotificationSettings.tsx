@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { isMuteExpired, UpdateNotificationsRequest } from '@chatterbox/shared';
+import { useAuthStore } from '../stores/authStore';
+import { useChatStore, Conversation, NotificationLevel, NotificationPreference } from '../stores/chatStore';
+
+const LEVEL_LABELS: Record<NotificationLevel, string> = {
+  all: 'All messages',
+  mentions: 'Mentions only',
+  muted: 'Muted',
+};
+
+// Mute lengths, in minutes (0 = until unmuted)
+const MUTE_OPTIONS = [
+  { label: 'Mute for 1 hour', minutes: 60 },
+  { label: 'Mute for 8 hours', minutes: 480 },
+  { label: 'Mute for 24 hours', minutes: 1440 },
+  { label: 'Mute until unmuted', minutes: 0 },
+];
+
+function describe(preference: NotificationPreference): string {
+  if (preference.level === 'muted' && preference.mutedUntil) {
+    return `Muted until ${format(new Date(preference.mutedUntil), 'MMM d, h:mm a')}`;
+  }
+  return LEVEL_LABELS[preference.level];
+}
+
+// A setting whose mute has run out counts as unset
+function inForce(preference: NotificationPreference | null | undefined): NotificationPreference | null {
+  return preference && !isMuteExpired(preference) ? preference : null;
+}
+
+interface NotificationSelectProps {
+  preference: NotificationPreference | null;
+  // Offered as the first choice when there's a default to fall back to
+  defaultLabel?: string;
+  onChange: (update: UpdateNotificationsRequest | null) => Promise<{ success: boolean; error?: string }>;
+}
+
+// One select for the level and mute length. A running mute shows as its own
+// choice, so picking it again changes nothing.
+function NotificationSelect({ preference, defaultLabel, onChange }: NotificationSelectProps) {
+  const [error, setError] = useState('');
+
+  const value = !preference ? 'default' : preference.level === 'muted' ? 'current' : preference.level;
+
+  const handleChange = async (choice: string) => {
+    if (choice === 'current') return;
+    setError('');
+
+    let update: UpdateNotificationsRequest | null = null;
+    if (choice === 'all' || choice === 'mentions') {
+      update = { level: choice };
+    } else if (choice.startsWith('mute:')) {
+      const minutes = Number(choice.slice('mute:'.length));
+      update = { level: 'muted', mutedUntil: minutes ? new Date(Date.now() + minutes * 60000).toISOString() : null };
+    }
+
+    const result = await onChange(update);
+    if (!result.success) setError(result.error || 'Failed to update notifications');
+  };
+
+  return (
+    <>
+      <select
+        className="notification-select"
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        onClick={(e) => e.stopPropagation()}
+        title={error || 'Notifications'}
+      >
+        {defaultLabel !== undefined && <option value="default">{defaultLabel}</option>}
+        <option value="all">{LEVEL_LABELS.all}</option>
+        <option value="mentions">{LEVEL_LABELS.mentions}</option>
+        {preference?.level === 'muted' && <option value="current">{describe(preference)}</option>}
+        {MUTE_OPTIONS.map((option) => (
+          <option key={option.minutes} value={`mute:${option.minutes}`}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {error && <div className="error-message">{error}</div>}
+    </>
+  );
+}
+
+// The user's notifications for one conversation, falling back to their default
+export function ConversationNotifications({ conversation }: { conversation: Conversation }) {
+  const user = useAuthStore((state) => state.user);
+  const setConversationNotifications = useChatStore((state) => state.setConversationNotifications);
+  const fallback = inForce(user?.notifications);
+
+  return (
+    <NotificationSelect
+      preference={inForce(conversation.notifications)}
+      defaultLabel={`Default (${fallback ? describe(fallback) : LEVEL_LABELS.all})`}
+      onChange={(update) => setConversationNotifications(conversation.id, update)}
+    />
+  );
+}
+
+// The default for conversations without a setting of their own
+export function DefaultNotifications() {
+  const { user, updateNotifications } = useAuthStore();
+
+  return (
+    <div className="status-settings">
+      <label>Notifications</label>
+      <NotificationSelect
+        preference={inForce(user?.notifications) ?? { level: 'all', mutedUntil: null }}
+        onChange={(update) => updateNotifications(update ?? { level: 'all' })}
+      />
+      <span className="input-hint">Conversations can override this from their header</span>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { useChatStore } from '../stores/chatStore';
+import { OutboxMessage } from '../stores/outboxStore';
+import { MessageText } from './Markdown';
+
+interface PendingMessageProps {
+  message: OutboxMessage;
+}
+
+// A sent message still waiting in the outbox for the server's ack
+export function PendingMessage({ message }: PendingMessageProps) {
+  const { retryMessage, discardMessage } = useChatStore();
+
+  return (
+    <div className={`message sent ${message.status}`}>
+      <div className="message-content">
+        <div className="message-bubble">
+          {/* Queued before messages had a format */}
+          <MessageText content={message.content} format={message.format || 'plain'} />
+        </div>
+        {message.status === 'pending' ? (
+          <div className="message-time">Sending...</div>
+        ) : (
+          <div className="message-time message-failed">
+            {message.error || 'Not sent'}
+            <button onClick={() => retryMessage(message.clientMessageId)}>Retry</button>
+            <button onClick={() => discardMessage(message.clientMessageId)}>Discard</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
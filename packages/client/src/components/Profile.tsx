@@ -1,16 +1,20 @@
 import { useState, useRef } from 'react';
 import { useAuthStore } from '../stores/authStore';
+import { avatarUrl } from '../stores/chatStore';
+import { SessionList } from './SessionList';
+import { StatusSettings } from './StatusSettings';
+import { DefaultNotifications } from './NotificationSettings';
 
 interface ProfileProps {
   onClose: () => void;
 }
 
 export function Profile({ onClose }: ProfileProps) {
-  const { user, updateProfile } = useAuthStore();
+  const { user, updateProfile, uploadAvatar, removeAvatar } = useAuthStore();
   const [displayName, setDisplayName] = useState(user?.displayName || '');
   const [bio, setBio] = useState(user?.bio || '');
-  const [avatar, setAvatar] = useState(user?.avatar || '');
   const [isLoading, setIsLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -21,14 +25,24 @@ export function Profile({ onClose }: ProfileProps) {
 
   const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
 
-    // Convert to base64 for simple storage
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setAvatar(reader.result as string);
-    };
-    reader.readAsDataURL(file);
+    setError('');
+    setIsUploading(true);
+    const result = await uploadAvatar(file);
+    setIsUploading(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to upload avatar');
+    }
+  };
+
+  const handleRemoveAvatar = async () => {
+    setError('');
+    const result = await removeAvatar();
+    if (!result.success) {
+      setError(result.error || 'Failed to remove avatar');
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -37,7 +51,7 @@ export function Profile({ onClose }: ProfileProps) {
     setSuccess('');
     setIsLoading(true);
 
-    const result = await updateProfile({ displayName, bio, avatar });
+    const result = await updateProfile({ displayName, bio });
     
     setIsLoading(false);
     if (result.success) {
@@ -69,21 +83,26 @@ export function Profile({ onClose }: ProfileProps) {
             <div 
               className="profile-avatar-large" 
               onClick={handleAvatarClick}
-              style={avatar ? { backgroundImage: `url(${avatar})` } : {}}
+              style={user?.avatar ? { backgroundImage: `url(${avatarUrl(user.avatar, 256)})` } : {}}
             >
-              {!avatar && getInitials()}
+              {!user?.avatar && getInitials()}
               <div className="avatar-overlay">
                 <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor">
                   <path d="M3 4V1h2v3h3v2H5v3H3V6H0V4h3zm3 6V7h3V4h7l1.83 2H21c1.1 0 2 .9 2 2v12c0 1.1-.9 2-2 2H5c-1.1 0-2-.9-2-2V10h3zm7 9c2.76 0 5-2.24 5-5s-2.24-5-5-5-5 2.24-5 5 2.24 5 5 5zm-3.2-5c0 1.77 1.43 3.2 3.2 3.2s3.2-1.43 3.2-3.2-1.43-3.2-3.2-3.2-3.2 1.43-3.2 3.2z" />
                 </svg>
-                <span>Change</span>
+                <span>{isUploading ? 'Uploading...' : 'Change'}</span>
               </div>
             </div>
+            {user?.avatar && (
+              <button type="button" className="btn btn-secondary" onClick={handleRemoveAvatar} disabled={isUploading}>
+                Remove picture
+              </button>
+            )}
             <input
               type="file"
               ref={fileInputRef}
               onChange={handleAvatarChange}
-              accept="image/*"
+              accept="image/png,image/jpeg,image/gif,image/webp"
               style={{ display: 'none' }}
             />
           </div>
@@ -137,6 +156,10 @@ export function Profile({ onClose }: ProfileProps) {
             </button>
           </div>
         </form>
+
+        <StatusSettings />
+        <DefaultNotifications />
+        <SessionList />
       </div>
     </div>
   );
@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuthStore, Session } from '../stores/authStore';
+
+// Pulls a readable platform out of a user agent string
+function describeDevice(device: string | null): string {
+  if (!device) return 'Unknown device';
+  if (device.includes('Electron')) return 'ChatterBox desktop';
+  const platform = device.match(/\(([^;)]+)/)?.[1];
+  return platform ? `Browser on ${platform}` : device;
+}
+
+export function SessionList() {
+  const { fetchSessions, revokeSession, revokeOtherSessions } = useAuthStore();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchSessions().then(setSessions);
+  }, [fetchSessions]);
+
+  const handleRevoke = async (session: Session) => {
+    setError('');
+    if (await revokeSession(session.id)) {
+      setSessions((current) => current.filter((s) => s.id !== session.id));
+    } else {
+      setError('Failed to sign out that session');
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setError('');
+    if (await revokeOtherSessions()) {
+      setSessions((current) => current.filter((s) => s.current));
+    } else {
+      setError('Failed to sign out other sessions');
+    }
+  };
+
+  const otherSessions = sessions.filter((s) => !s.current);
+
+  return (
+    <div className="session-list">
+      <label>Active sessions</label>
+      {error && <div className="error-message">{error}</div>}
+
+      {sessions.map((session) => (
+        <div key={session.id} className="session-item">
+          <div className="session-info">
+            <span className="session-device">
+              {describeDevice(session.device)}
+              {session.current && <span className="session-current"> · This device</span>}
+            </span>
+            <span className="session-meta">
+              {session.ip || 'Unknown IP'} · active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+            </span>
+          </div>
+          {!session.current && (
+            <button className="btn btn-secondary" onClick={() => handleRevoke(session)}>
+              Sign out
+            </button>
+          )}
+        </div>
+      ))}
+
+      {otherSessions.length > 0 && (
+        <button className="btn btn-secondary session-revoke-all" onClick={handleRevokeOthers}>
+          Sign out all other sessions
+        </button>
+      )}
+    </div>
+  );
+}
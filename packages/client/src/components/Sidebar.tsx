@@ -1,8 +1,11 @@
 import { useState } from 'react';
-import { useAuthStore } from '../stores/authStore';
-import { useChatStore, Conversation, User } from '../stores/chatStore';
+import { useAuthStore, UserStatus } from '../stores/authStore';
+import { useChatStore, Conversation, User, avatarUrl } from '../stores/chatStore';
 import { formatDistanceToNow } from 'date-fns';
+import { markdownToText } from '@chatterbox/shared';
 import { Profile } from './Profile';
+import { MessageSearch } from './MessageSearch';
+import { MentionInbox } from './MentionInbox';
 
 export function Sidebar() {
   const { user, logout } = useAuthStore();
@@ -12,9 +15,11 @@ export function Sidebar() {
     selectConversation,
     searchUsers,
     createConversation,
+    unseenMentions,
   } = useChatStore();
 
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchMode, setSearchMode] = useState<'conversations' | 'messages' | 'mentions'>('conversations');
   const [showNewChat, setShowNewChat] = useState(false);
   const [showNewGroup, setShowNewGroup] = useState(false);
   const [showProfile, setShowProfile] = useState(false);
@@ -41,7 +46,7 @@ export function Sidebar() {
     return other?.displayName?.[0]?.toUpperCase() || '?';
   }
 
-  function getOnlineStatus(conv: Conversation): string {
+  function getOnlineStatus(conv: Conversation): UserStatus | '' {
     if (conv.isGroup) return '';
     const other = conv.members.find((m) => m.id !== user?.id);
     return other?.status || 'offline';
@@ -95,7 +100,7 @@ export function Sidebar() {
           <div 
             className="user-avatar clickable"
             onClick={() => setShowProfile(true)}
-            style={user?.avatar ? { backgroundImage: `url(${user.avatar})`, backgroundSize: 'cover' } : {}}
+            style={user?.avatar ? { backgroundImage: `url(${avatarUrl(user.avatar, 64)})`, backgroundSize: 'cover' } : {}}
             title="View Profile"
           >
             {!user?.avatar && user?.displayName?.[0]?.toUpperCase()}
@@ -116,51 +121,94 @@ export function Sidebar() {
       </div>
 
       <div className="search-box">
-        <input
-          type="text"
-          placeholder="Search conversations..."
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-        />
+        {searchMode !== 'mentions' && (
+          <input
+            type="text"
+            placeholder={searchMode === 'messages' ? 'Search messages...' : 'Search conversations...'}
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+        )}
+        <div className="search-tabs">
+          <button
+            className={searchMode === 'conversations' ? 'active' : ''}
+            onClick={() => setSearchMode('conversations')}
+          >
+            Chats
+          </button>
+          <button
+            className={searchMode === 'messages' ? 'active' : ''}
+            onClick={() => setSearchMode('messages')}
+          >
+            Messages
+          </button>
+          <button
+            className={searchMode === 'mentions' ? 'active' : ''}
+            onClick={() => setSearchMode('mentions')}
+          >
+            Mentions
+            {unseenMentions > 0 && searchMode !== 'mentions' && (
+              <span className="mention-count">{unseenMentions}</span>
+            )}
+          </button>
+        </div>
       </div>
 
-      <div className="conversation-list">
-        {filteredConversations.map((conv) => (
-          <div
-            key={conv.id}
-            className={`conversation-item ${currentConversation?.id === conv.id ? 'active' : ''}`}
-            onClick={() => selectConversation(conv)}
-          >
-            <div className="conversation-avatar">
-              {getConversationAvatar(conv)}
-              {!conv.isGroup && (
-                <span className={`status-indicator ${getOnlineStatus(conv)}`} />
-              )}
-            </div>
-            <div className="conversation-details">
-              <div className="conversation-name">{getConversationName(conv)}</div>
-              <div className="conversation-preview">
-                {conv.lastMessage?.type === 'image'
-                  ? '📷 Image'
-                  : conv.lastMessage?.type === 'file'
-                  ? `📎 ${conv.lastMessage.fileName}`
-                  : conv.lastMessage?.content || 'No messages yet'}
+      {searchMode === 'mentions' ? (
+        <MentionInbox getConversationName={getConversationName} />
+      ) : searchMode === 'messages' ? (
+        <MessageSearch query={searchQuery} getConversationName={getConversationName} />
+      ) : (
+        <div className="conversation-list">
+          {filteredConversations.map((conv) => (
+            <div
+              key={conv.id}
+              className={`conversation-item ${currentConversation?.id === conv.id ? 'active' : ''}`}
+              onClick={() => selectConversation(conv)}
+            >
+              <div
+                className="conversation-avatar"
+                style={conv.avatar ? { backgroundImage: `url(${avatarUrl(conv.avatar, 64)})`, backgroundSize: 'cover' } : {}}
+              >
+                {!conv.avatar && getConversationAvatar(conv)}
+                {!conv.isGroup && (
+                  <span className={`status-indicator ${getOnlineStatus(conv)}`} />
+                )}
               </div>
-            </div>
-            {conv.lastMessage && (
-              <div className="conversation-time">
-                {formatDistanceToNow(new Date(conv.lastMessage.createdAt), { addSuffix: false })}
+              <div className="conversation-details">
+                <div className="conversation-name">{getConversationName(conv)}</div>
+                <div className="conversation-preview">
+                  {conv.lastMessage?.deletedAt
+                    ? 'Message deleted'
+                    : conv.lastMessage?.type === 'image'
+                    ? '📷 Image'
+                    : conv.lastMessage?.type === 'file'
+                    ? `📎 ${conv.lastMessage.fileName}`
+                    : conv.lastMessage?.format === 'markdown' && conv.lastMessage.content
+                    ? markdownToText(conv.lastMessage.content)
+                    : conv.lastMessage?.content || 'No messages yet'}
+                </div>
               </div>
-            )}
-          </div>
-        ))}
+              <div className="conversation-meta">
+                {conv.lastMessage && (
+                  <div className="conversation-time">
+                    {formatDistanceToNow(new Date(conv.lastMessage.createdAt), { addSuffix: false })}
+                  </div>
+                )}
+                {conv.unreadCount > 0 && currentConversation?.id !== conv.id && (
+                  <span className="unread-badge">{conv.unreadCount > 99 ? '99+' : conv.unreadCount}</span>
+                )}
+              </div>
+            </div>
+          ))}
 
-        {filteredConversations.length === 0 && (
-          <div style={{ padding: '20px', textAlign: 'center', color: 'var(--text-muted)' }}>
-            {searchQuery ? 'No conversations found' : 'No conversations yet. Start a new chat!'}
-          </div>
-        )}
-      </div>
+          {filteredConversations.length === 0 && (
+            <div style={{ padding: '20px', textAlign: 'center', color: 'var(--text-muted)' }}>
+              {searchQuery ? 'No conversations found' : 'No conversations yet. Start a new chat!'}
+            </div>
+          )}
+        </div>
+      )}
 
       {/* New Chat Modal */}
       {(showNewChat || showNewGroup) && (
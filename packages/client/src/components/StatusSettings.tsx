@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { useAuthStore, PresenceSetting } from '../stores/authStore';
+import { STATUS_LABELS } from '../presence';
+
+const PRESENCE_OPTIONS: PresenceSetting[] = ['online', 'away', 'dnd', 'invisible'];
+
+// Clear-after choices for the custom status, in minutes (0 = never)
+const EXPIRY_OPTIONS = [
+  { label: "Don't clear", minutes: 0 },
+  { label: '30 minutes', minutes: 30 },
+  { label: '1 hour', minutes: 60 },
+  { label: '4 hours', minutes: 240 },
+  { label: 'Today', minutes: -1 },
+];
+
+function expiryFor(minutes: number): string | null {
+  if (minutes === 0) return null;
+  if (minutes === -1) {
+    const endOfDay = new Date();
+    endOfDay.setHours(23, 59, 59, 999);
+    return endOfDay.toISOString();
+  }
+  return new Date(Date.now() + minutes * 60000).toISOString();
+}
+
+export function StatusSettings() {
+  const { user, updateStatus } = useAuthStore();
+  const [emoji, setEmoji] = useState(user?.customStatus?.emoji || '');
+  const [text, setText] = useState(user?.customStatus?.text || '');
+  const [expiry, setExpiry] = useState(0);
+  const [error, setError] = useState('');
+
+  const handlePresenceChange = async (presence: PresenceSetting) => {
+    setError('');
+    const result = await updateStatus({ presence });
+    if (!result.success) setError(result.error || 'Failed to update status');
+  };
+
+  const handleSave = async () => {
+    setError('');
+    const customStatus = emoji.trim() || text.trim()
+      ? { emoji: emoji.trim() || null, text: text.trim() || null, expiresAt: expiryFor(expiry) }
+      : null;
+    const result = await updateStatus({ customStatus });
+    if (!result.success) setError(result.error || 'Failed to update status');
+  };
+
+  const handleClear = async () => {
+    setError('');
+    setEmoji('');
+    setText('');
+    const result = await updateStatus({ customStatus: null });
+    if (!result.success) setError(result.error || 'Failed to clear status');
+  };
+
+  return (
+    <div className="status-settings">
+      <label>Status</label>
+      {error && <div className="error-message">{error}</div>}
+
+      <select
+        value={user?.presence || 'online'}
+        onChange={(e) => handlePresenceChange(e.target.value as PresenceSetting)}
+      >
+        {PRESENCE_OPTIONS.map((presence) => (
+          <option key={presence} value={presence}>
+            {STATUS_LABELS[presence]}
+          </option>
+        ))}
+      </select>
+      {user?.presence === 'invisible' && (
+        <span className="input-hint">You appear offline to everyone else</span>
+      )}
+
+      <div className="custom-status-form">
+        <input
+          type="text"
+          className="custom-status-emoji"
+          value={emoji}
+          onChange={(e) => setEmoji(e.target.value)}
+          placeholder="🙂"
+          maxLength={16}
+        />
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="What's your status?"
+          maxLength={100}
+        />
+      </div>
+
+      <div className="custom-status-actions">
+        <select value={expiry} onChange={(e) => setExpiry(Number(e.target.value))}>
+          {EXPIRY_OPTIONS.map((option) => (
+            <option key={option.minutes} value={option.minutes}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {user?.customStatus && (
+          <button type="button" className="btn btn-secondary" onClick={handleClear}>
+            Clear
+          </button>
+        )}
+        <button type="button" className="btn btn-primary" onClick={handleSave}>
+          Set status
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState, useEffect, useRef } from 'react';
+import { format } from 'date-fns';
+import { useAuthStore } from '../stores/authStore';
+import { useChatStore, Message } from '../stores/chatStore';
+import { useOutboxStore } from '../stores/outboxStore';
+import { PendingMessage } from './PendingMessage';
+import { MessageText } from './Markdown';
+import { inputRows, submitOnEnter } from './ChatArea';
+
+export function ThreadPanel() {
+  const { user } = useAuthStore();
+  const { activeThread, closeThread, sendMessage } = useChatStore();
+  const outbox = useOutboxStore((state) => state.messages);
+  const [inputValue, setInputValue] = useState('');
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [activeThread?.replies]);
+
+  if (!activeThread) return null;
+
+  const { root, replies } = activeThread;
+  const pendingReplies = outbox.filter((m) => m.threadRootId === root.id && m.userId === user?.id);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inputValue.trim()) return;
+
+    sendMessage(inputValue.trim(), { format: 'markdown', threadRootId: root.id });
+    setInputValue('');
+  };
+
+  const renderMessage = (message: Message) => (
+    <div key={message.id} className={`message ${message.senderId === user?.id ? 'sent' : 'received'}`}>
+      <div className="message-content">
+        <div className="message-sender">
+          {message.senderName}
+          {message.webhookId && <span className="webhook-badge">Webhook</span>}
+        </div>
+        {message.deletedAt ? (
+          <div className="message-bubble deleted">Message deleted</div>
+        ) : (
+          <div className="message-bubble">
+            {message.type === 'text'
+              ? <MessageText content={message.content || ''} format={message.format} mentions={message.mentions} />
+              : message.fileName || message.content}
+          </div>
+        )}
+        <div className="message-time">
+          {format(new Date(message.createdAt), 'HH:mm')}
+          {message.editedAt && !message.deletedAt && (
+            <span className="message-edited"> · edited</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="thread-panel">
+      <div className="thread-header">
+        <h3>Thread</h3>
+        <button className="close-btn" onClick={closeThread}>
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="thread-messages">
+        {renderMessage(root)}
+        <div className="date-separator">
+          <span>
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </span>
+        </div>
+        {replies.map(renderMessage)}
+        {pendingReplies.map((message) => (
+          <PendingMessage key={message.clientMessageId} message={message} />
+        ))}
+        <div ref={repliesEndRef} />
+      </div>
+
+      <div className="message-input-container">
+        <form className="message-input-form" onSubmit={handleSubmit}>
+          <textarea
+            value={inputValue}
+            rows={inputRows(inputValue)}
+            onChange={(e) => setInputValue(e.target.value)}
+            onKeyDown={submitOnEnter}
+            placeholder="Reply in thread..."
+            disabled={!!root.deletedAt}
+          />
+          <button type="submit" className="send-btn" disabled={!inputValue.trim()}>
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M2.01 21L23 12 2.01 3 2 10l15 2-15 2z" />
+            </svg>
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { User } from '../stores/chatStore';
+import { User, avatarUrl } from '../stores/chatStore';
+import { describeStatus, formatCustomStatus } from '../presence';
 
 interface UserProfileViewProps {
   user: User;
@@ -10,6 +11,8 @@ export function UserProfileView({ user, onClose }: UserProfileViewProps) {
     return user.displayName?.[0]?.toUpperCase() || '?';
   };
 
+  const customStatus = formatCustomStatus(user);
+
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div className="modal profile-modal" onClick={(e) => e.stopPropagation()}>
@@ -25,7 +28,7 @@ export function UserProfileView({ user, onClose }: UserProfileViewProps) {
         <div className="avatar-section">
           <div 
             className="profile-avatar-large view-only"
-            style={user.avatar ? { backgroundImage: `url(${user.avatar})` } : {}}
+            style={user.avatar ? { backgroundImage: `url(${avatarUrl(user.avatar, 256)})` } : {}}
           >
             {!user.avatar && getInitials()}
           </div>
@@ -53,8 +56,9 @@ export function UserProfileView({ user, onClose }: UserProfileViewProps) {
             <label>Status</label>
             <div className="profile-info-value status">
               <span className={`status-dot ${user.status}`}></span>
-              {user.status === 'online' ? 'Online' : 'Offline'}
+              {describeStatus(user)}
             </div>
+            {customStatus && <div className="profile-info-value custom-status">{customStatus}</div>}
           </div>
         </div>
 
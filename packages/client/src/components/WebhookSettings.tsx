@@ -0,0 +1,162 @@
+import { useEffect, useRef, useState } from 'react';
+import { useChatStore, Conversation, Webhook, WebhookResult, avatarUrl, fileUrl } from '../stores/chatStore';
+
+interface WebhookSettingsProps {
+  conversation: Conversation;
+}
+
+// A hook's URL and token, shown once after it's created or its token rotated
+interface IssuedToken {
+  webhookId: string;
+  url: string;
+  token: string;
+}
+
+// Incoming webhooks for a group, for its owner and admins. Tokens can't be
+// read back from the server, so a new one is shown until dismissed.
+export function WebhookSettings({ conversation }: WebhookSettingsProps) {
+  const {
+    fetchWebhooks,
+    createWebhook,
+    renameWebhook,
+    rotateWebhookToken,
+    revokeWebhook,
+    setWebhookAvatar,
+  } = useChatStore();
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [displayName, setDisplayName] = useState('');
+  const [issued, setIssued] = useState<IssuedToken | null>(null);
+  const [error, setError] = useState('');
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const avatarTargetRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchWebhooks(conversation.id).then((hooks) => {
+      if (!cancelled) setWebhooks(hooks);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [conversation.id, fetchWebhooks]);
+
+  // Runs a request and swaps the returned hook into the list
+  const run = async (action: Promise<WebhookResult>) => {
+    setError('');
+    const result = await action;
+    if (!result.success) {
+      setError(result.error || 'Something went wrong');
+      return result;
+    }
+    const { webhook, token } = result;
+    if (webhook) {
+      setWebhooks((hooks) =>
+        hooks.some((h) => h.id === webhook.id) ? hooks.map((h) => (h.id === webhook.id ? webhook : h)) : [...hooks, webhook]
+      );
+      if (token) setIssued({ webhookId: webhook.id, url: fileUrl(webhook.url), token });
+    }
+    return result;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if ((await run(createWebhook(conversation.id, displayName.trim() || null))).success) {
+      setDisplayName('');
+    }
+  };
+
+  const handleRename = (webhook: Webhook) => {
+    const name = window.prompt('Name shown on its messages (leave empty for "Webhook")', webhook.displayName || '');
+    if (name !== null) run(renameWebhook(conversation.id, webhook.id, name.trim() || null));
+  };
+
+  const handleRotate = (webhook: Webhook) => {
+    if (window.confirm('Issue a new token? Anything using the current one will stop working.')) {
+      run(rotateWebhookToken(conversation.id, webhook.id));
+    }
+  };
+
+  const handleRevoke = async (webhook: Webhook) => {
+    if (!window.confirm(`Revoke ${webhook.displayName || 'this webhook'}? It will stop accepting messages for good.`)) return;
+    if ((await run(revokeWebhook(conversation.id, webhook.id))).success) {
+      setWebhooks((hooks) => hooks.filter((h) => h.id !== webhook.id));
+      if (issued?.webhookId === webhook.id) setIssued(null);
+    }
+  };
+
+  const handleAvatarClick = (webhook: Webhook) => {
+    avatarTargetRef.current = webhook.id;
+    avatarInputRef.current?.click();
+  };
+
+  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const webhookId = avatarTargetRef.current;
+    e.target.value = '';
+    if (file && webhookId) run(setWebhookAvatar(conversation.id, webhookId, file));
+  };
+
+  return (
+    <div className="group-members">
+      <label>Incoming webhooks</label>
+      {error && <div className="error-message">{error}</div>}
+
+      {webhooks.map((webhook) => (
+        <div key={webhook.id} className="group-member-item">
+          <div
+            className="user-avatar clickable"
+            title="Change avatar"
+            onClick={() => handleAvatarClick(webhook)}
+            style={webhook.avatar ? { backgroundImage: `url(${avatarUrl(webhook.avatar, 64)})`, backgroundSize: 'cover' } : {}}
+          >
+            {!webhook.avatar && (webhook.displayName?.[0]?.toUpperCase() || 'W')}
+          </div>
+          <div className="group-member-info">
+            <span>{webhook.displayName || 'Webhook'}</span>
+          </div>
+          <div className="group-member-actions">
+            <button onClick={() => handleRename(webhook)}>Rename</button>
+            {webhook.avatar && (
+              <button onClick={() => run(setWebhookAvatar(conversation.id, webhook.id, null))}>Remove avatar</button>
+            )}
+            <button onClick={() => handleRotate(webhook)}>New token</button>
+            <button onClick={() => handleRevoke(webhook)}>Revoke</button>
+          </div>
+        </div>
+      ))}
+      <input
+        type="file"
+        ref={avatarInputRef}
+        onChange={handleAvatarChange}
+        accept="image/png,image/jpeg,image/gif,image/webp"
+        style={{ display: 'none' }}
+      />
+
+      {issued && (
+        <div className="webhook-token">
+          <p>Post JSON like {'{"content": "Build passed"}'} to this URL. Copy the token now; it won't be shown again.</p>
+          <input type="text" readOnly value={issued.url} onFocus={(e) => e.target.select()} />
+          <input type="text" readOnly value={`Authorization: Bearer ${issued.token}`} onFocus={(e) => e.target.select()} />
+          <button type="button" className="btn btn-secondary" onClick={() => setIssued(null)}>
+            Done
+          </button>
+        </div>
+      )}
+
+      <form className="group-rename-form" onSubmit={handleCreate}>
+        <div className="form-group">
+          <input
+            type="text"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder="Display name, e.g. CI (optional)"
+            maxLength={50}
+          />
+        </div>
+        <button type="submit" className="btn btn-primary">
+          Add webhook
+        </button>
+      </form>
+    </div>
+  );
+}
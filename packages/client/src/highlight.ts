@@ -0,0 +1,192 @@
+// A small tokenizer for colouring code blocks. It knows keywords, strings,
+// comments and numbers for a handful of common languages; anything else is
+// shown without colour.
+
+export type TokenType = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface Language {
+  keywords: Set<string>;
+  lineComment?: string;
+  blockComment?: [string, string];
+  quotes: string;
+}
+
+const C_LIKE_COMMENTS = { lineComment: '//', blockComment: ['/*', '*/'] as [string, string] };
+
+const JAVASCRIPT: Language = {
+  ...C_LIKE_COMMENTS,
+  quotes: '\'"`',
+  keywords: new Set([
+    'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+    'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if',
+    'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'of', 'private',
+    'protected', 'public', 'readonly', 'return', 'static', 'super', 'switch', 'this', 'throw',
+    'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+  ]),
+};
+
+const PYTHON: Language = {
+  lineComment: '#',
+  quotes: '\'"',
+  keywords: new Set([
+    'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif',
+    'else', 'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is',
+    'lambda', 'None', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while',
+    'with', 'yield',
+  ]),
+};
+
+const SHELL: Language = {
+  lineComment: '#',
+  quotes: '\'"',
+  keywords: new Set([
+    'case', 'do', 'done', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in',
+    'local', 'return', 'then', 'until', 'while',
+  ]),
+};
+
+const JSON_LANGUAGE: Language = {
+  quotes: '"',
+  keywords: new Set(['true', 'false', 'null']),
+};
+
+const SQL: Language = {
+  lineComment: '--',
+  blockComment: ['/*', '*/'],
+  quotes: '\'"',
+  keywords: new Set([
+    'add', 'alter', 'and', 'as', 'asc', 'by', 'create', 'delete', 'desc', 'distinct', 'drop', 'from',
+    'group', 'having', 'index', 'inner', 'insert', 'into', 'is', 'join', 'left', 'limit', 'not',
+    'null', 'on', 'or', 'order', 'outer', 'primary', 'key', 'right', 'select', 'set', 'table',
+    'union', 'update', 'values', 'where',
+  ]),
+};
+
+const GO: Language = {
+  ...C_LIKE_COMMENTS,
+  quotes: '\'"`',
+  keywords: new Set([
+    'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'false', 'for', 'func',
+    'go', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range', 'return', 'select',
+    'struct', 'switch', 'true', 'type', 'var',
+  ]),
+};
+
+const RUST: Language = {
+  ...C_LIKE_COMMENTS,
+  quotes: '"',
+  keywords: new Set([
+    'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'false', 'fn',
+    'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return',
+    'self', 'Self', 'static', 'struct', 'super', 'trait', 'true', 'type', 'use', 'where', 'while',
+  ]),
+};
+
+const C_FAMILY: Language = {
+  ...C_LIKE_COMMENTS,
+  quotes: '\'"',
+  keywords: new Set([
+    'abstract', 'auto', 'bool', 'break', 'case', 'catch', 'char', 'class', 'const', 'continue',
+    'default', 'delete', 'do', 'double', 'else', 'enum', 'extends', 'false', 'final', 'float', 'for',
+    'if', 'implements', 'import', 'include', 'int', 'interface', 'long', 'namespace', 'new', 'null',
+    'nullptr', 'package', 'private', 'protected', 'public', 'return', 'short', 'static', 'struct',
+    'switch', 'template', 'this', 'throw', 'true', 'try', 'typedef', 'unsigned', 'using', 'var',
+    'virtual', 'void', 'while',
+  ]),
+};
+
+const CSS: Language = {
+  blockComment: ['/*', '*/'],
+  quotes: '\'"',
+  keywords: new Set(['important', 'media', 'import', 'keyframes', 'from', 'to']),
+};
+
+const LANGUAGES: Record<string, Language> = {
+  js: JAVASCRIPT, javascript: JAVASCRIPT, jsx: JAVASCRIPT,
+  ts: JAVASCRIPT, typescript: JAVASCRIPT, tsx: JAVASCRIPT,
+  py: PYTHON, python: PYTHON,
+  sh: SHELL, bash: SHELL, shell: SHELL, zsh: SHELL,
+  json: JSON_LANGUAGE,
+  sql: SQL,
+  go: GO,
+  rs: RUST, rust: RUST,
+  c: C_FAMILY, h: C_FAMILY, cpp: C_FAMILY, 'c++': C_FAMILY, cs: C_FAMILY, 'c#': C_FAMILY,
+  java: C_FAMILY, kotlin: C_FAMILY,
+  css: CSS, scss: CSS,
+};
+
+// Splits `code` into tokens. Unknown languages come back as one plain token.
+export function highlight(code: string, language: string | null): Token[] {
+  const lang = language ? LANGUAGES[language] : undefined;
+  if (!lang) return [{ type: 'plain', text: code }];
+
+  const tokens: Token[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const rest = code.slice(i);
+
+    if (lang.lineComment && rest.startsWith(lang.lineComment)) {
+      const end = code.indexOf('\n', i);
+      const stop = end === -1 ? code.length : end;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    if (lang.blockComment && rest.startsWith(lang.blockComment[0])) {
+      const end = code.indexOf(lang.blockComment[1], i + lang.blockComment[0].length);
+      const stop = end === -1 ? code.length : end + lang.blockComment[1].length;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    if (lang.quotes.includes(code[i])) {
+      // Runs to the matching quote, honouring backslashes; unclosed strings
+      // other than template literals stop at the end of the line
+      const quote = code[i];
+      let j = i + 1;
+      while (j < code.length && code[j] !== quote && (quote === '`' || code[j] !== '\n')) {
+        j += code[j] === '\\' ? 2 : 1;
+      }
+      const stop = code[j] === quote ? j + 1 : Math.min(code.length, j);
+      push('string', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const number = rest.match(/^(0x[\da-f]+|\d+(\.\d+)?(e[+-]?\d+)?)/i);
+    if (number && !/[\w$]/.test(code[i - 1] || '')) {
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    const word = rest.match(/^[A-Za-z_$][\w$]*/);
+    if (word) {
+      const isKeyword = lang.keywords.has(word[0]) || (lang === SQL && lang.keywords.has(word[0].toLowerCase()));
+      push(isKeyword ? 'keyword' : 'plain', word[0]);
+      i += word[0].length;
+      continue;
+    }
+
+    push('plain', code[i]);
+    i++;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,51 @@
+// Desktop notifications. In the Electron shell they go through the preload
+// bridge as native notifications; in a browser, through the Notification API.
+import type { DesktopNotification } from '@chatterbox/shared';
+
+// window.chatterbox, set up by electron/preload
+interface DesktopBridge {
+  notify: (notification: DesktopNotification) => void;
+  onNotificationClick: (callback: (conversationId: string) => void) => () => void;
+}
+
+declare global {
+  interface Window {
+    chatterbox?: DesktopBridge;
+  }
+}
+
+const clickListeners = new Set<(conversationId: string) => void>();
+
+export function showNotification(notification: DesktopNotification) {
+  if (window.chatterbox) {
+    window.chatterbox.notify(notification);
+    return;
+  }
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  // Tagged by conversation so a busy one replaces its notification
+  const shown = new Notification(notification.title, { body: notification.body, tag: notification.conversationId });
+  shown.onclick = () => {
+    window.focus();
+    shown.close();
+    clickListeners.forEach(listener => listener(notification.conversationId));
+  };
+}
+
+// Browsers ask the user once; the shell doesn't need to
+export function requestNotificationPermission() {
+  if (!window.chatterbox && 'Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission();
+  }
+}
+
+// Calls back with the conversation of a clicked notification. Returns a
+// function that stops listening.
+export function onNotificationClick(callback: (conversationId: string) => void): () => void {
+  if (window.chatterbox) return window.chatterbox.onNotificationClick(callback);
+
+  clickListeners.add(callback);
+  return () => {
+    clickListeners.delete(callback);
+  };
+}
@@ -0,0 +1,25 @@
+import { formatDistanceToNow } from 'date-fns';
+import { UserStatus } from './stores/authStore';
+import { User } from './stores/chatStore';
+
+export const STATUS_LABELS: Record<UserStatus, string> = {
+  online: 'Online',
+  away: 'Away',
+  dnd: 'Do not disturb',
+  invisible: 'Invisible',
+  offline: 'Offline',
+};
+
+// "Last seen 5 minutes ago" for offline users, otherwise their status
+export function describeStatus(user: User): string {
+  if (user.status === 'offline' && user.lastSeenAt) {
+    return `Last seen ${formatDistanceToNow(new Date(user.lastSeenAt), { addSuffix: true })}`;
+  }
+  return STATUS_LABELS[user.status] || 'Offline';
+}
+
+export function formatCustomStatus(user: User): string | null {
+  if (!user.customStatus) return null;
+  const { emoji, text } = user.customStatus;
+  return [emoji, text].filter(Boolean).join(' ') || null;
+}
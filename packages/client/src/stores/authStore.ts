@@ -1,35 +1,63 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { User, UpdateProfileRequest, UpdateStatusRequest, UpdateNotificationsRequest } from '@chatterbox/shared';
+
+export type { User, PresenceSetting, UserStatus, CustomStatus } from '@chatterbox/shared';
 
 const API_URL = 'http://localhost:3001';
 
-export interface User {
+export interface Session {
   id: string;
-  username: string;
-  displayName: string;
-  avatar: string | null;
-  bio: string | null;
-  status: string;
+  device: string | null;
+  ip: string | null;
   createdAt: string;
-}
-
-interface ProfileUpdate {
-  displayName?: string;
-  avatar?: string;
-  bio?: string;
+  lastUsedAt: string;
+  current: boolean;
 }
 
 interface AuthState {
   user: User | null;
+  // Short-lived access token; refreshToken trades for a new one when it expires
   token: string | null;
+  refreshToken: string | null;
   isLoading: boolean;
   error: string | null;
   login: (username: string, password: string) => Promise<boolean>;
   register: (username: string, password: string, displayName: string) => Promise<boolean>;
-  logout: () => void;
+  logout: () => Promise<void>;
   clearError: () => void;
   checkAuth: () => Promise<void>;
-  updateProfile: (updates: ProfileUpdate) => Promise<{ success: boolean; error?: string }>;
+  refreshSession: () => Promise<string | null>;
+  fetchSessions: () => Promise<Session[]>;
+  revokeSession: (sessionId: string) => Promise<boolean>;
+  revokeOtherSessions: () => Promise<boolean>;
+  updateProfile: (updates: UpdateProfileRequest) => Promise<{ success: boolean; error?: string }>;
+  updateStatus: (updates: UpdateStatusRequest) => Promise<{ success: boolean; error?: string }>;
+  // Sets the default for conversations without notifications of their own
+  updateNotifications: (updates: UpdateNotificationsRequest) => Promise<{ success: boolean; error?: string }>;
+  uploadAvatar: (file: File) => Promise<{ success: boolean; error?: string }>;
+  removeAvatar: () => Promise<{ success: boolean; error?: string }>;
+}
+
+// Shared by concurrent callers: a refresh token only works once, so two
+// refreshes racing would sign the user out
+let pendingRefresh: Promise<string | null> | null = null;
+
+// fetch with the access token attached. A 401 means the token expired or the
+// session was revoked; the session is refreshed once and the request retried.
+export async function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = (token: string | null) => fetch(url, {
+    ...init,
+    headers: { ...init.headers, Authorization: `Bearer ${token}` },
+  });
+
+  const response = await send(useAuthStore.getState().token);
+  if (response.status !== 401 || !useAuthStore.getState().refreshToken) {
+    return response;
+  }
+
+  const token = await useAuthStore.getState().refreshSession();
+  return token ? send(token) : response;
 }
 
 export const useAuthStore = create<AuthState>()(
@@ -37,6 +65,7 @@ export const useAuthStore = create<AuthState>()(
     (set, get) => ({
       user: null,
       token: null,
+      refreshToken: null,
       isLoading: false,
       error: null,
 
@@ -56,7 +85,7 @@ export const useAuthStore = create<AuthState>()(
             return false;
           }
 
-          set({ user: data.user, token: data.token, isLoading: false });
+          set({ user: data.user, token: data.token, refreshToken: data.refreshToken, isLoading: false });
           return true;
         } catch (error) {
           set({ isLoading: false, error: 'Connection failed. Is the server running?' });
@@ -80,7 +109,7 @@ export const useAuthStore = create<AuthState>()(
             return false;
           }
 
-          set({ user: data.user, token: data.token, isLoading: false });
+          set({ user: data.user, token: data.token, refreshToken: data.refreshToken, isLoading: false });
           return true;
         } catch (error) {
           set({ isLoading: false, error: 'Connection failed. Is the server running?' });
@@ -88,8 +117,16 @@ export const useAuthStore = create<AuthState>()(
         }
       },
 
-      logout: () => {
-        set({ user: null, token: null });
+      // Ends the session on the server too, so its tokens stop working everywhere
+      logout: async () => {
+        if (get().token) {
+          try {
+            await authFetch(`${API_URL}/api/auth/logout`, { method: 'POST' });
+          } catch {
+            // Signed out locally regardless
+          }
+        }
+        set({ user: null, token: null, refreshToken: null });
       },
 
       clearError: () => {
@@ -101,33 +138,126 @@ export const useAuthStore = create<AuthState>()(
         if (!token) return;
 
         try {
-          const response = await fetch(`${API_URL}/api/auth/me`, {
-            headers: { Authorization: `Bearer ${token}` },
-          });
+          const response = await authFetch(`${API_URL}/api/auth/me`);
 
           if (!response.ok) {
-            set({ user: null, token: null });
+            set({ user: null, token: null, refreshToken: null });
             return;
           }
 
           const data = await response.json();
           set({ user: data.user });
         } catch {
-          set({ user: null, token: null });
+          set({ user: null, token: null, refreshToken: null });
+        }
+      },
+
+      // Returns the new access token, or null if the session couldn't be
+      // refreshed. A rejected refresh token signs the user out.
+      refreshSession: () => {
+        if (pendingRefresh) return pendingRefresh;
+
+        pendingRefresh = (async () => {
+          const { refreshToken } = get();
+          if (!refreshToken) return null;
+
+          try {
+            const response = await fetch(`${API_URL}/api/auth/refresh`, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ refreshToken }),
+            });
+
+            if (!response.ok) {
+              set({ user: null, token: null, refreshToken: null });
+              return null;
+            }
+
+            const data = await response.json();
+            set({ token: data.token, refreshToken: data.refreshToken });
+            return data.token as string;
+          } catch {
+            return null;
+          }
+        })().finally(() => {
+          pendingRefresh = null;
+        });
+
+        return pendingRefresh;
+      },
+
+      fetchSessions: async () => {
+        if (!get().token) return [];
+
+        try {
+          const response = await authFetch(`${API_URL}/api/auth/sessions`);
+          if (response.ok) {
+            const data = await response.json();
+            return data.sessions;
+          }
+        } catch (error) {
+          console.error('Failed to fetch sessions:', error);
+        }
+
+        return [];
+      },
+
+      revokeSession: async (sessionId: string) => {
+        if (!get().token) return false;
+
+        try {
+          const response = await authFetch(`${API_URL}/api/auth/sessions/${sessionId}`, { method: 'DELETE' });
+          return response.ok;
+        } catch (error) {
+          console.error('Failed to revoke session:', error);
+          return false;
+        }
+      },
+
+      revokeOtherSessions: async () => {
+        if (!get().token) return false;
+
+        try {
+          const response = await authFetch(`${API_URL}/api/auth/sessions`, { method: 'DELETE' });
+          return response.ok;
+        } catch (error) {
+          console.error('Failed to revoke sessions:', error);
+          return false;
+        }
+      },
+
+      updateProfile: async (updates: UpdateProfileRequest) => {
+        const { token } = get();
+        if (!token) return { success: false, error: 'Not authenticated' };
+
+        try {
+          const response = await authFetch(`${API_URL}/api/auth/profile`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(updates),
+          });
+
+          const data = await response.json();
+
+          if (!response.ok) {
+            return { success: false, error: data.error || 'Update failed' };
+          }
+
+          set({ user: data.user });
+          return { success: true };
+        } catch (error) {
+          return { success: false, error: 'Connection failed' };
         }
       },
 
-      updateProfile: async (updates: ProfileUpdate) => {
+      updateStatus: async (updates: UpdateStatusRequest) => {
         const { token } = get();
         if (!token) return { success: false, error: 'Not authenticated' };
 
         try {
-          const response = await fetch(`${API_URL}/api/auth/profile`, {
+          const response = await authFetch(`${API_URL}/api/auth/status`, {
             method: 'PUT',
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${token}`,
-            },
+            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(updates),
           });
 
@@ -143,10 +273,80 @@ export const useAuthStore = create<AuthState>()(
           return { success: false, error: 'Connection failed' };
         }
       },
+
+      updateNotifications: async (updates: UpdateNotificationsRequest) => {
+        const { token } = get();
+        if (!token) return { success: false, error: 'Not authenticated' };
+
+        try {
+          const response = await authFetch(`${API_URL}/api/auth/notifications`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(updates),
+          });
+
+          const data = await response.json();
+
+          if (!response.ok) {
+            return { success: false, error: data.error || 'Update failed' };
+          }
+
+          set({ user: data.user });
+          return { success: true };
+        } catch (error) {
+          return { success: false, error: 'Connection failed' };
+        }
+      },
+
+      uploadAvatar: async (file: File) => {
+        const { token } = get();
+        if (!token) return { success: false, error: 'Not authenticated' };
+
+        const formData = new FormData();
+        formData.append('avatar', file);
+
+        try {
+          const response = await authFetch(`${API_URL}/api/auth/avatar`, {
+            method: 'PUT',
+            body: formData,
+          });
+
+          const data = await response.json();
+
+          if (!response.ok) {
+            return { success: false, error: data.error || 'Upload failed' };
+          }
+
+          set({ user: data.user });
+          return { success: true };
+        } catch (error) {
+          return { success: false, error: 'Connection failed' };
+        }
+      },
+
+      removeAvatar: async () => {
+        const { token } = get();
+        if (!token) return { success: false, error: 'Not authenticated' };
+
+        try {
+          const response = await authFetch(`${API_URL}/api/auth/avatar`, { method: 'DELETE' });
+
+          const data = await response.json();
+
+          if (!response.ok) {
+            return { success: false, error: data.error || 'Update failed' };
+          }
+
+          set({ user: data.user });
+          return { success: true };
+        } catch (error) {
+          return { success: false, error: 'Connection failed' };
+        }
+      },
     }),
     {
       name: 'chatterbox-auth',
-      partialize: (state) => ({ token: state.token }),
+      partialize: (state) => ({ token: state.token, refreshToken: state.refreshToken }),
     }
   )
 );
@@ -1,40 +1,127 @@
 import { create } from 'zustand';
-import { useAuthStore } from './authStore';
+import {
+  validate,
+  ServerEvent,
+  ClientFrame,
+  User,
+  Message,
+  Attachment,
+  MessageFormat,
+  ReactionSummary,
+  Member,
+  Conversation,
+  Webhook,
+  UpdateGroupRequest,
+  UpdateNotificationsRequest,
+  effectiveNotificationLevel,
+  mentionsUser,
+  markdownToText,
+} from '@chatterbox/shared';
+import { useAuthStore, authFetch } from './authStore';
+import { useOutboxStore, OutboxMessage } from './outboxStore';
+import { showNotification } from '../notifications';
+
+export type {
+  User, Message, MessageFormat, Attachment, LinkPreview, Mention, MessagePreview, ReactionSummary, Member,
+  Conversation, NotificationLevel, NotificationPreference, Webhook,
+} from '@chatterbox/shared';
 
 const API_URL = 'http://localhost:3001';
 const WS_URL = 'ws://localhost:3001';
+const SESSION_REVOKED_CLOSE_CODE = 4001;
+// How long a sent message waits for the server's ack before it shows as failed
+const ACK_TIMEOUT_MS = 10000;
+// Reconnect delays double per failed attempt up to the max, with jitter so
+// clients dropped together don't all come back at once
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
 
-export interface User {
-  id: string;
-  username: string;
-  displayName: string;
-  avatar: string | null;
-  bio: string | null;
-  status: string;
-  createdAt: string;
+// Attachment URLs come back relative to the server
+export function fileUrl(path: string): string {
+  return `${API_URL}${path}`;
 }
 
-export interface Message {
-  id: string;
-  conversationId: string;
-  senderId: string;
-  senderName: string;
-  senderAvatar: string | null;
-  content: string | null;
-  type: 'text' | 'image' | 'file';
-  fileUrl: string | null;
-  fileName: string | null;
-  createdAt: string;
-}
-
-export interface Conversation {
-  id: string;
-  name: string | null;
-  isGroup: boolean;
-  members: User[];
-  lastMessage: Message | null;
-  createdAt: string;
-  updatedAt: string;
+// A user's, group's or webhook's avatar path at one of the sizes the server renders
+export function avatarUrl(avatar: string, size: 64 | 256): string {
+  return `${API_URL}${avatar}?size=${size}`;
+}
+
+export interface Thread {
+  root: Message;
+  replies: Message[];
+}
+
+export interface SearchHit {
+  message: Message;
+  snippet: string;
+  // [start, end) offsets of matched words within the snippet
+  highlights: [number, number][];
+}
+
+export interface SearchFilters {
+  conversationId?: string;
+  senderId?: string;
+  type?: 'text' | 'image' | 'file';
+  from?: string;
+  to?: string;
+}
+
+export interface SearchPage {
+  results: SearchHit[];
+  nextCursor: string | null;
+}
+
+export interface MentionPage {
+  messages: Message[];
+  nextCursor: string | null;
+}
+
+// Where the loaded slice of a conversation sits in its full history. The
+// cursors come from the server and point at the first and last loaded message.
+export interface MessageHistory {
+  prevCursor: string | null;
+  nextCursor: string | null;
+  hasOlder: boolean;
+  // Set after jumping back in history; live messages aren't appended until
+  // the gap up to them has been loaded
+  hasNewer: boolean;
+  isLoading: boolean;
+}
+
+interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+  prevCursor: string | null;
+  nextCursor: string | null;
+}
+
+export type GroupUpdates = UpdateGroupRequest;
+
+interface GroupResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface WebhookResult {
+  success: boolean;
+  webhook?: Webhook;
+  // Only returned when a hook is created or its token rotated
+  token?: string;
+  error?: string;
+}
+
+interface SendOptions {
+  // Plain unless given
+  format?: MessageFormat;
+  attachment?: Attachment;
+  replyToId?: string;
+  threadRootId?: string;
+}
+
+interface UploadResult {
+  success: boolean;
+  attachment?: Attachment;
+  error?: string;
 }
 
 interface TypingUser {
@@ -47,7 +134,14 @@ interface ChatState {
   conversations: Conversation[];
   currentConversation: Conversation | null;
   messages: Record<string, Message[]>;
+  history: Record<string, MessageHistory>;
   typingUsers: TypingUser[];
+  replyingTo: Message | null;
+  activeThread: Thread | null;
+  // Message to scroll to after jumping from a search result
+  highlightedMessageId: string | null;
+  // Mentions that arrived since the user last looked at their mentions
+  unseenMentions: number;
   ws: WebSocket | null;
   isConnected: boolean;
   
@@ -56,19 +150,366 @@ interface ChatState {
   disconnect: () => void;
   fetchConversations: () => Promise<void>;
   selectConversation: (conversation: Conversation) => Promise<void>;
-  sendMessage: (content: string, type?: 'text' | 'image' | 'file', fileUrl?: string, fileName?: string) => void;
+  loadLatestMessages: (conversationId: string) => Promise<void>;
+  loadOlderMessages: (conversationId: string) => Promise<void>;
+  loadNewerMessages: (conversationId: string) => Promise<void>;
+  sendMessage: (content: string, options?: SendOptions) => void;
+  retryMessage: (clientMessageId: string) => void;
+  discardMessage: (clientMessageId: string) => void;
+  setReplyingTo: (message: Message | null) => void;
+  openThread: (message: Message) => Promise<void>;
+  closeThread: () => void;
   createConversation: (memberIds: string[], name?: string, isGroup?: boolean) => Promise<Conversation | null>;
+  updateGroup: (conversationId: string, updates: GroupUpdates) => Promise<GroupResult>;
+  // null removes the picture
+  setGroupAvatar: (conversationId: string, file: File | null) => Promise<GroupResult>;
+  addGroupMember: (conversationId: string, userId: string) => Promise<GroupResult>;
+  removeGroupMember: (conversationId: string, userId: string) => Promise<GroupResult>;
+  setMemberRole: (conversationId: string, userId: string, role: 'admin' | 'member') => Promise<GroupResult>;
+  leaveConversation: (conversationId: string) => Promise<GroupResult>;
+  // null goes back to the user's default
+  setConversationNotifications: (conversationId: string, preference: UpdateNotificationsRequest | null) => Promise<GroupResult>;
+  fetchWebhooks: (conversationId: string) => Promise<Webhook[]>;
+  createWebhook: (conversationId: string, displayName: string | null) => Promise<WebhookResult>;
+  renameWebhook: (conversationId: string, webhookId: string, displayName: string | null) => Promise<WebhookResult>;
+  rotateWebhookToken: (conversationId: string, webhookId: string) => Promise<WebhookResult>;
+  revokeWebhook: (conversationId: string, webhookId: string) => Promise<WebhookResult>;
+  // null removes the avatar
+  setWebhookAvatar: (conversationId: string, webhookId: string, file: File | null) => Promise<WebhookResult>;
   searchUsers: (query: string) => Promise<User[]>;
-  uploadFile: (file: File) => Promise<{ fileUrl: string; fileName: string; type: 'image' | 'file' } | null>;
+  searchMessages: (query: string, filters?: SearchFilters, cursor?: string) => Promise<SearchPage>;
+  jumpToMessage: (message: Message) => Promise<void>;
+  fetchMentions: (cursor?: string) => Promise<MentionPage>;
+  clearUnseenMentions: () => void;
+  uploadFile: (file: File) => Promise<UploadResult>;
+  refreshAttachment: (message: Message) => Promise<Attachment | null>;
+  removeLinkPreview: (message: Message, previewId: string) => Promise<boolean>;
+  editMessage: (messageId: string, content: string) => void;
+  deleteMessage: (messageId: string) => void;
+  toggleReaction: (message: Message, emoji: string) => void;
+  markRead: (conversationId: string, messageId: string) => void;
   sendTyping: (isTyping: boolean) => void;
-  updateUserStatus: (userId: string, status: string) => void;
+  setIdle: (idle: boolean) => void;
+  updateUserStatus: (user: User) => void;
+}
+
+// Applies `update` to a message wherever it appears: the loaded history, the
+// open thread and the conversation list preview
+function updateMessage(
+  state: ChatState,
+  conversationId: string,
+  messageId: string,
+  update: (message: Message) => Message
+): Partial<ChatState> {
+  const apply = (m: Message) => (m.id === messageId ? update(m) : m);
+  const convMessages = state.messages[conversationId];
+  const thread = state.activeThread;
+  return {
+    activeThread: thread
+      ? { root: apply(thread.root), replies: thread.replies.map(apply) }
+      : null,
+    messages: convMessages
+      ? { ...state.messages, [conversationId]: convMessages.map(apply) }
+      : state.messages,
+    conversations: state.conversations.map(conv =>
+      conv.lastMessage?.id === messageId ? { ...conv, lastMessage: apply(conv.lastMessage) } : conv
+    ),
+  };
+}
+
+// Swaps in an updated copy of a message broadcast by the server. Reactions
+// are kept from the local copy: they are tracked live through reaction
+// events, and broadcasts can't say whether this user reacted.
+function replaceMessage(state: ChatState, message: Message): Partial<ChatState> {
+  return updateMessage(state, message.conversationId, message.id, (existing) => ({
+    ...message,
+    reactions: message.deletedAt ? [] : existing.reactions,
+  }));
+}
+
+function applyReaction(
+  reactions: ReactionSummary[],
+  emoji: string,
+  delta: 1 | -1,
+  isMe: boolean
+): ReactionSummary[] {
+  const existing = reactions.find(r => r.emoji === emoji);
+  if (!existing) {
+    return delta > 0 ? [...reactions, { emoji, count: 1, reacted: isMe }] : reactions;
+  }
+  return reactions
+    .map(r => r.emoji === emoji
+      ? { ...r, count: r.count + delta, reacted: isMe ? delta > 0 : r.reacted }
+      : r)
+    .filter(r => r.count > 0);
+}
+
+// Moves a member's read marker in both the conversation list and the open conversation
+function setMemberRead(state: ChatState, conversationId: string, userId: string, messageId: string): Partial<ChatState> {
+  const updateConversation = (conv: Conversation): Conversation => ({
+    ...conv,
+    members: conv.members.map(m => (m.id === userId ? { ...m, lastReadMessageId: messageId } : m)),
+    unreadCount: userId === useAuthStore.getState().user?.id && conv.lastMessage?.id === messageId
+      ? 0
+      : conv.unreadCount,
+  });
+
+  return {
+    conversations: state.conversations.map(conv =>
+      conv.id === conversationId ? updateConversation(conv) : conv
+    ),
+    currentConversation: state.currentConversation?.id === conversationId
+      ? updateConversation(state.currentConversation)
+      : state.currentConversation,
+  };
+}
+
+// Adds a newly sent message to the open thread, if it's a reply there, or
+// else to the loaded history and the conversation list. The sender gets
+// their message twice, broadcast and acked; the second copy changes nothing.
+function addMessage(state: ChatState, message: Message): Partial<ChatState> {
+  // Thread replies only show up in the thread panel
+  if (message.threadRootId) {
+    const thread = state.activeThread;
+    if (thread?.root.id !== message.threadRootId || thread.replies.some(m => m.id === message.id)) {
+      return state;
+    }
+    return { activeThread: { ...thread, replies: [...thread.replies, message] } };
+  }
+
+  const convMessages = state.messages[message.conversationId] || [];
+  if (convMessages.some(m => m.id === message.id)) {
+    return state;
+  }
+
+  // Update conversations list
+  const isUnread = message.senderId !== useAuthStore.getState().user?.id;
+  const updatedConversations = state.conversations.map(conv => {
+    if (conv.id === message.conversationId) {
+      return {
+        ...conv,
+        lastMessage: message,
+        unreadCount: conv.unreadCount + (isUnread ? 1 : 0),
+      };
+    }
+    return conv;
+  });
+
+  // Sort conversations by last message
+  updatedConversations.sort((a, b) => {
+    const aTime = a.lastMessage?.createdAt || a.updatedAt;
+    const bTime = b.lastMessage?.createdAt || b.updatedAt;
+    return new Date(bTime).getTime() - new Date(aTime).getTime();
+  });
+
+  // Messages past an unloaded gap come in with the next page instead
+  const added: Partial<ChatState> = state.history[message.conversationId]?.hasNewer
+    ? { conversations: updatedConversations }
+    : {
+      messages: { ...state.messages, [message.conversationId]: [...convMessages, message] },
+      conversations: updatedConversations,
+    };
+
+  // The server moves the sender's read marker along with their message
+  return { ...added, ...setMemberRead({ ...state, ...added }, message.conversationId, message.senderId, message.id) };
+}
+
+// Swaps in the server's copy of a conversation, adding it if it's new to this user
+function replaceConversation(state: ChatState, conversation: Conversation): Partial<ChatState> {
+  const exists = state.conversations.some(c => c.id === conversation.id);
+  return {
+    conversations: exists
+      ? state.conversations.map(c => (c.id === conversation.id ? conversation : c))
+      : [conversation, ...state.conversations],
+    currentConversation: state.currentConversation?.id === conversation.id
+      ? conversation
+      : state.currentConversation,
+  };
+}
+
+// Drops a conversation this user is no longer part of
+function removeConversation(state: ChatState, conversationId: string): Partial<ChatState> {
+  const { [conversationId]: _messages, ...messages } = state.messages;
+  const { [conversationId]: _history, ...history } = state.history;
+  const isCurrent = state.currentConversation?.id === conversationId;
+  return {
+    conversations: state.conversations.filter(c => c.id !== conversationId),
+    currentConversation: isCurrent ? null : state.currentConversation,
+    activeThread: state.activeThread?.root.conversationId === conversationId ? null : state.activeThread,
+    replyingTo: isCurrent ? null : state.replyingTo,
+    messages,
+    history,
+  };
+}
+
+// Shows a desktop notification for someone else's message, unless the user
+// is looking at its conversation or has asked not to hear about it
+function notifyMessage(state: ChatState, message: Message) {
+  const user = useAuthStore.getState().user;
+  if (!user || message.senderId === user.id || message.type === 'system') return;
+
+  const conv = state.conversations.find(c => c.id === message.conversationId);
+  if (!conv) return;
+  if (conv.id === state.currentConversation?.id && document.visibilityState === 'visible' && document.hasFocus()) return;
+
+  const level = effectiveNotificationLevel(conv.notifications, user.notifications);
+  if (level === 'muted' || (level === 'mentions' && !mentionsUser(message.mentions, user.id))) return;
+
+  let body = message.content || '';
+  if (message.type === 'image') body = 'Sent an image';
+  else if (message.type === 'file') body = `Sent ${message.content || 'a file'}`;
+  else if (message.format === 'markdown') body = markdownToText(body);
+
+  showNotification({
+    title: conv.isGroup && conv.name ? `${message.senderName} in ${conv.name}` : message.senderName,
+    body,
+    conversationId: conv.id,
+  });
+}
+
+// Sends a conversation settings request; the change itself arrives over the
+// socket as a conversation_updated or conversation_removed event
+// Bodies are JSON, apart from group picture uploads
+async function sendGroupRequest(path: string, method: string, body?: object | FormData): Promise<GroupResult> {
+  const token = useAuthStore.getState().token;
+  if (!token) return { success: false, error: 'Not signed in' };
+
+  const isForm = body instanceof FormData;
+  try {
+    const response = await authFetch(`${API_URL}/api/conversations/${path}`, {
+      method,
+      headers: isForm ? undefined : { 'Content-Type': 'application/json' },
+      body: isForm ? body : body ? JSON.stringify(body) : undefined,
+    });
+
+    if (response.ok) {
+      return { success: true };
+    }
+    const data = await response.json();
+    return { success: false, error: data.error };
+  } catch (error) {
+    console.error('Group request failed:', error);
+    return { success: false, error: 'Network error' };
+  }
+}
+
+// Sends a request to manage one of a group's incoming webhooks. Bodies are
+// JSON, apart from avatar uploads.
+async function sendWebhookRequest(
+  conversationId: string,
+  path: string,
+  method: string,
+  body?: object | FormData
+): Promise<WebhookResult> {
+  const isForm = body instanceof FormData;
+  try {
+    const response = await authFetch(`${API_URL}/api/conversations/${conversationId}/webhooks${path}`, {
+      method,
+      headers: body && !isForm ? { 'Content-Type': 'application/json' } : undefined,
+      body: isForm ? body : body ? JSON.stringify(body) : undefined,
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Request failed' };
+    }
+    return { success: true, webhook: data.webhook, token: data.token };
+  } catch (error) {
+    console.error('Webhook request failed:', error);
+    return { success: false, error: 'Network error' };
+  }
+}
+
+// The server's event stream for this user and the last sequence number
+// handled, sent on reconnect so missed events can be replayed
+let eventStream: { streamId: string; seq: number } | null = null;
+let reconnectAttempts = 0;
+// Whether the user has been inactive long enough to show as away
+let isIdle = false;
+
+function reconnectDelay(attempt: number): number {
+  const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+// Pending ack timeouts by clientMessageId
+const ackTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function clearAckTimer(clientMessageId: string) {
+  clearTimeout(ackTimers.get(clientMessageId));
+  ackTimers.delete(clientMessageId);
+}
+
+function sendFrame(ws: WebSocket, frame: ClientFrame) {
+  ws.send(JSON.stringify(frame));
+}
+
+// Sends an outbox message if connected. Otherwise it stays pending until
+// the socket reconnects and the outbox is flushed.
+function deliver(ws: WebSocket | null, message: OutboxMessage) {
+  if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+  sendFrame(ws, {
+    type: 'message',
+    clientMessageId: message.clientMessageId,
+    conversationId: message.conversationId,
+    content: message.content,
+    format: message.format,
+    attachmentId: message.attachment?.id,
+    replyToId: message.replyToId,
+    threadRootId: message.threadRootId,
+  });
+
+  clearAckTimer(message.clientMessageId);
+  ackTimers.set(message.clientMessageId, setTimeout(() => {
+    ackTimers.delete(message.clientMessageId);
+    useOutboxStore.getState().markFailed(message.clientMessageId, 'No response from server');
+  }, ACK_TIMEOUT_MS));
+}
+
+function settleOutbox(clientMessageId: string) {
+  clearAckTimer(clientMessageId);
+  useOutboxStore.getState().remove(clientMessageId);
+}
+
+async function fetchMessagePage(
+  conversationId: string,
+  params: Record<string, string> = {}
+): Promise<MessagePage | null> {
+  const token = useAuthStore.getState().token;
+  if (!token) return null;
+
+  try {
+    const query = new URLSearchParams(params);
+    const response = await authFetch(`${API_URL}/api/conversations/${conversationId}/messages?${query}`);
+
+    if (response.ok) {
+      return await response.json();
+    }
+  } catch (error) {
+    console.error('Failed to fetch messages:', error);
+  }
+
+  return null;
+}
+
+function setHistoryLoading(state: ChatState, conversationId: string, isLoading: boolean): Partial<ChatState> {
+  const history = state.history[conversationId];
+  return history
+    ? { history: { ...state.history, [conversationId]: { ...history, isLoading } } }
+    : state;
 }
 
 export const useChatStore = create<ChatState>((set, get) => ({
   conversations: [],
   currentConversation: null,
   messages: {},
+  history: {},
   typingUsers: [],
+  replyingTo: null,
+  activeThread: null,
+  highlightedMessageId: null,
+  unseenMentions: 0,
   ws: null,
   isConnected: false,
 
@@ -79,56 +520,147 @@ export const useChatStore = create<ChatState>((set, get) => ({
     const ws = new WebSocket(WS_URL);
 
     ws.onopen = () => {
-      ws.send(JSON.stringify({ type: 'auth', token }));
+      sendFrame(ws, { type: 'auth', token, resume: eventStream });
     };
 
     ws.onmessage = (event) => {
-      const data = JSON.parse(event.data);
+      const parsed = validate(ServerEvent, JSON.parse(event.data));
+      if (!parsed.success) {
+        console.error('Unexpected server event:', parsed.error.error, event.data);
+        return;
+      }
+      const data = parsed.data;
+
+      // Replays can overlap what already arrived; skip anything seen
+      if ('seq' in data && typeof data.seq === 'number' && eventStream) {
+        if (data.seq <= eventStream.seq) return;
+        eventStream.seq = data.seq;
+      }
 
       switch (data.type) {
-        case 'auth_success':
+        case 'auth_success': {
           set({ isConnected: true });
+          reconnectAttempts = 0;
           get().fetchConversations();
+
+          // Missed events are replayed right after this unless the server
+          // asks for a resync, in which case loaded history may be stale
+          if (data.resync) {
+            const { currentConversation, activeThread } = get();
+            set((state) => ({
+              messages: currentConversation && state.messages[currentConversation.id]
+                ? { [currentConversation.id]: state.messages[currentConversation.id] }
+                : {},
+              history: currentConversation && state.history[currentConversation.id]
+                ? { [currentConversation.id]: state.history[currentConversation.id] }
+                : {},
+            }));
+            if (currentConversation) get().loadLatestMessages(currentConversation.id);
+            if (activeThread) get().openThread(activeThread.root);
+          }
+          if (!eventStream || data.resync) {
+            eventStream = { streamId: data.streamId, seq: data.latestSeq };
+          }
+
+          // A new connection counts as active, so only idleness needs repeating
+          if (isIdle) {
+            sendFrame(ws, { type: 'idle', idle: true });
+          }
+
+          // Resend whatever was written while offline. Failed messages wait for a manual retry.
+          const userId = useAuthStore.getState().user?.id;
+          for (const pending of useOutboxStore.getState().messages) {
+            if (pending.userId === userId && pending.status === 'pending') {
+              deliver(ws, pending);
+            }
+          }
           break;
+        }
 
         case 'auth_error':
+          // Usually an expired access token; reconnect with a fresh one, or
+          // sign out if the session is gone
           console.error('WebSocket auth error:', data.error);
-          ws.close();
+          useAuthStore.getState().refreshSession().finally(() => ws.close());
           break;
 
         case 'new_message': {
           const message: Message = data.message;
-          set((state) => {
-            const convMessages = state.messages[message.conversationId] || [];
-            
-            // Avoid duplicates
-            if (convMessages.some(m => m.id === message.id)) {
-              return state;
+          notifyMessage(get(), message);
+
+          const isMine = message.senderId === useAuthStore.getState().user?.id;
+          if (isMine && !message.threadRootId) {
+            if (message.clientMessageId) {
+              // Sent from this device, maybe before a reload dropped the ack
+              settleOutbox(message.clientMessageId);
+            }
+            if (get().history[message.conversationId]?.hasNewer) {
+              // Sending from further back in history jumps to the present
+              get().loadLatestMessages(message.conversationId);
             }
+          }
 
-            // Update conversations list
-            const updatedConversations = state.conversations.map(conv => {
-              if (conv.id === message.conversationId) {
-                return { ...conv, lastMessage: message };
-              }
-              return conv;
-            });
-
-            // Sort conversations by last message
-            updatedConversations.sort((a, b) => {
-              const aTime = a.lastMessage?.createdAt || a.updatedAt;
-              const bTime = b.lastMessage?.createdAt || b.updatedAt;
-              return new Date(bTime).getTime() - new Date(aTime).getTime();
-            });
-
-            return {
-              messages: {
-                ...state.messages,
-                [message.conversationId]: [...convMessages, message],
-              },
-              conversations: updatedConversations,
-            };
-          });
+          set((state) => addMessage(state, message));
+          break;
+        }
+
+        case 'message_ack':
+          // With more than one server process the ack can arrive before the
+          // broadcast, so it brings the message too; the pending copy only
+          // goes once the message shows
+          set((state) => addMessage(state, data.message));
+          settleOutbox(data.clientMessageId);
+          break;
+
+        case 'error':
+          if (data.clientMessageId && data.retryAfter) {
+            // Rate limited: still pending, and sent again once allowed. The
+            // retry shares the ack timer slot so a reconnect cancels it.
+            const { clientMessageId } = data;
+            clearAckTimer(clientMessageId);
+            ackTimers.set(clientMessageId, setTimeout(() => {
+              ackTimers.delete(clientMessageId);
+              const message = useOutboxStore.getState().messages.find(m => m.clientMessageId === clientMessageId);
+              if (message) deliver(get().ws, message);
+            }, data.retryAfter * 1000));
+          } else if (data.clientMessageId) {
+            clearAckTimer(data.clientMessageId);
+            useOutboxStore.getState().markFailed(data.clientMessageId, data.error || 'Failed to send');
+          }
+          break;
+
+        case 'mention':
+          set((state) => ({ unseenMentions: state.unseenMentions + 1 }));
+          break;
+
+        case 'message_updated':
+        case 'message_deleted': {
+          const message: Message = data.message;
+          set((state) => replaceMessage(state, message));
+          break;
+        }
+
+        case 'reaction_added':
+        case 'reaction_removed': {
+          const { conversationId, messageId, emoji, userId } = data;
+          const isMe = userId === useAuthStore.getState().user?.id;
+          const delta = data.type === 'reaction_added' ? 1 : -1;
+          set((state) => updateMessage(state, conversationId, messageId, (m) => ({
+            ...m,
+            reactions: applyReaction(m.reactions, emoji, delta, isMe),
+          })));
+          break;
+        }
+
+        case 'read_receipt': {
+          const { conversationId, userId, messageId } = data;
+          set((state) => setMemberRead(state, conversationId, userId, messageId));
+          break;
+        }
+
+        case 'thread_updated': {
+          const root: Message = data.root;
+          set((state) => replaceMessage(state, root));
           break;
         }
 
@@ -165,9 +697,25 @@ export const useChatStore = create<ChatState>((set, get) => ({
           break;
         }
 
+        case 'conversation_updated': {
+          const conversation: Conversation = data.conversation;
+          set((state) => replaceConversation(state, conversation));
+          break;
+        }
+
+        case 'conversation_removed': {
+          const { conversationId } = data;
+          set((state) => removeConversation(state, conversationId));
+          break;
+        }
+
         case 'user_status': {
-          const { userId, status } = data;
-          get().updateUserStatus(userId, status);
+          const user: User = data.user;
+          get().updateUserStatus(user);
+          // Our own status changed, maybe from another device
+          if (user.id === useAuthStore.getState().user?.id) {
+            useAuthStore.setState({ user: { ...useAuthStore.getState().user, ...user } });
+          }
           break;
         }
 
@@ -177,14 +725,21 @@ export const useChatStore = create<ChatState>((set, get) => ({
       }
     };
 
-    ws.onclose = () => {
+    ws.onclose = (event) => {
       set({ isConnected: false, ws: null });
-      // Reconnect after 3 seconds
+      // Unacked messages go out again after reconnecting rather than timing out
+      for (const clientMessageId of ackTimers.keys()) {
+        clearAckTimer(clientMessageId);
+      }
+      // The server closes a revoked session's sockets; refreshing confirms it and signs out
+      if (event.code === SESSION_REVOKED_CLOSE_CODE) {
+        useAuthStore.getState().refreshSession();
+      }
       setTimeout(() => {
         if (useAuthStore.getState().token) {
           get().connect();
         }
-      }, 3000);
+      }, reconnectDelay(reconnectAttempts++));
     };
 
     ws.onerror = (error) => {
@@ -196,7 +751,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
     // Heartbeat
     const heartbeat = setInterval(() => {
       if (ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({ type: 'ping' }));
+        sendFrame(ws, { type: 'ping' });
       } else {
         clearInterval(heartbeat);
       }
@@ -204,6 +759,9 @@ export const useChatStore = create<ChatState>((set, get) => ({
   },
 
   disconnect: () => {
+    // The next connection may be a different user; start a fresh stream
+    eventStream = null;
+    reconnectAttempts = 0;
     const { ws } = get();
     if (ws) {
       ws.close();
@@ -216,9 +774,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
     if (!token) return;
 
     try {
-      const response = await fetch(`${API_URL}/api/conversations`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      const response = await authFetch(`${API_URL}/api/conversations`);
 
       if (response.ok) {
         const data = await response.json();
@@ -233,42 +789,165 @@ export const useChatStore = create<ChatState>((set, get) => ({
     const token = useAuthStore.getState().token;
     if (!token) return;
 
-    set({ currentConversation: conversation });
+    set({ currentConversation: conversation, replyingTo: null, activeThread: null, highlightedMessageId: null });
 
     // Load messages if not already loaded
     if (!get().messages[conversation.id]) {
-      try {
-        const response = await fetch(`${API_URL}/api/conversations/${conversation.id}/messages`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
+      await get().loadLatestMessages(conversation.id);
+    }
+  },
 
-        if (response.ok) {
-          const data = await response.json();
-          set((state) => ({
-            messages: {
-              ...state.messages,
-              [conversation.id]: data.messages,
-            },
-          }));
-        }
-      } catch (error) {
-        console.error('Failed to fetch messages:', error);
-      }
+  loadLatestMessages: async (conversationId: string) => {
+    const page = await fetchMessagePage(conversationId);
+    if (!page) return;
+
+    set((state) => ({
+      messages: {
+        ...state.messages,
+        [conversationId]: page.messages,
+      },
+      history: {
+        ...state.history,
+        [conversationId]: {
+          prevCursor: page.prevCursor,
+          nextCursor: page.nextCursor,
+          hasOlder: page.hasMore,
+          hasNewer: false,
+          isLoading: false,
+        },
+      },
+    }));
+  },
+
+  loadOlderMessages: async (conversationId: string) => {
+    const history = get().history[conversationId];
+    if (!history?.hasOlder || !history.prevCursor || history.isLoading) return;
+
+    set((state) => setHistoryLoading(state, conversationId, true));
+    const page = await fetchMessagePage(conversationId, { before: history.prevCursor });
+    if (!page) {
+      set((state) => setHistoryLoading(state, conversationId, false));
+      return;
     }
+
+    set((state) => {
+      const convMessages = state.messages[conversationId] || [];
+      const current = state.history[conversationId];
+      return {
+        messages: {
+          ...state.messages,
+          [conversationId]: [...page.messages.filter(m => !convMessages.some(c => c.id === m.id)), ...convMessages],
+        },
+        history: {
+          ...state.history,
+          [conversationId]: {
+            ...current,
+            prevCursor: page.prevCursor ?? current.prevCursor,
+            hasOlder: page.hasMore,
+            isLoading: false,
+          },
+        },
+      };
+    });
   },
 
-  sendMessage: (content: string, type: 'text' | 'image' | 'file' = 'text', fileUrl?: string, fileName?: string) => {
+  loadNewerMessages: async (conversationId: string) => {
+    const history = get().history[conversationId];
+    if (!history?.hasNewer || !history.nextCursor || history.isLoading) return;
+
+    set((state) => setHistoryLoading(state, conversationId, true));
+    const page = await fetchMessagePage(conversationId, { after: history.nextCursor });
+    if (!page) {
+      set((state) => setHistoryLoading(state, conversationId, false));
+      return;
+    }
+
+    set((state) => {
+      const convMessages = state.messages[conversationId] || [];
+      const current = state.history[conversationId];
+      return {
+        messages: {
+          ...state.messages,
+          [conversationId]: [...convMessages, ...page.messages.filter(m => !convMessages.some(c => c.id === m.id))],
+        },
+        history: {
+          ...state.history,
+          [conversationId]: {
+            ...current,
+            nextCursor: page.nextCursor ?? current.nextCursor,
+            hasNewer: page.hasMore,
+            isLoading: false,
+          },
+        },
+      };
+    });
+  },
+
+  sendMessage: (content: string, options: SendOptions = {}) => {
     const { ws, currentConversation } = get();
-    if (!ws || !currentConversation || ws.readyState !== WebSocket.OPEN) return;
+    const userId = useAuthStore.getState().user?.id;
+    if (!currentConversation || !userId) return;
 
-    ws.send(JSON.stringify({
-      type: 'message',
+    // Everything goes through the outbox, so a message sent while offline
+    // shows as pending and goes out on reconnect
+    const message: OutboxMessage = {
+      clientMessageId: crypto.randomUUID(),
+      userId,
       conversationId: currentConversation.id,
       content,
-      messageType: type,
-      fileUrl,
-      fileName,
-    }));
+      format: options.format || 'plain',
+      attachment: options.attachment || null,
+      replyToId: options.replyToId || null,
+      threadRootId: options.threadRootId || null,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      error: null,
+    };
+    useOutboxStore.getState().add(message);
+    deliver(ws, message);
+    set({ highlightedMessageId: null });
+  },
+
+  retryMessage: (clientMessageId: string) => {
+    const outbox = useOutboxStore.getState();
+    const message = outbox.messages.find(m => m.clientMessageId === clientMessageId);
+    if (!message) return;
+
+    outbox.markPending(clientMessageId);
+    deliver(get().ws, message);
+  },
+
+  discardMessage: (clientMessageId: string) => {
+    settleOutbox(clientMessageId);
+  },
+
+  setReplyingTo: (message: Message | null) => {
+    set({ replyingTo: message });
+  },
+
+  openThread: async (message: Message) => {
+    const token = useAuthStore.getState().token;
+    if (!token) return;
+
+    const rootId = message.threadRootId || message.id;
+    set({ activeThread: { root: message, replies: [] } });
+
+    try {
+      const response = await authFetch(
+        `${API_URL}/api/conversations/${message.conversationId}/threads/${rootId}`
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        set((state) => (state.activeThread?.root.id === message.id ? { activeThread: data } : state));
+      }
+    } catch (error) {
+      console.error('Failed to fetch thread:', error);
+    }
+  },
+
+  closeThread: () => {
+    set({ activeThread: null });
   },
 
   createConversation: async (memberIds: string[], name?: string, isGroup: boolean = false) => {
@@ -276,12 +955,9 @@ export const useChatStore = create<ChatState>((set, get) => ({
     if (!token) return null;
 
     try {
-      const response = await fetch(`${API_URL}/api/conversations`, {
+      const response = await authFetch(`${API_URL}/api/conversations`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ memberIds, name, isGroup }),
       });
 
@@ -306,14 +982,78 @@ export const useChatStore = create<ChatState>((set, get) => ({
     return null;
   },
 
+  updateGroup: (conversationId: string, updates: GroupUpdates) =>
+    sendGroupRequest(conversationId, 'PATCH', updates),
+
+  setGroupAvatar: (conversationId: string, file: File | null) => {
+    if (!file) return sendGroupRequest(`${conversationId}/avatar`, 'DELETE');
+
+    const formData = new FormData();
+    formData.append('avatar', file);
+    return sendGroupRequest(`${conversationId}/avatar`, 'PUT', formData);
+  },
+
+  addGroupMember: (conversationId: string, userId: string) =>
+    sendGroupRequest(`${conversationId}/members`, 'POST', { userId }),
+
+  removeGroupMember: (conversationId: string, userId: string) =>
+    sendGroupRequest(`${conversationId}/members/${userId}`, 'DELETE'),
+
+  setMemberRole: (conversationId: string, userId: string, role: 'admin' | 'member') =>
+    sendGroupRequest(`${conversationId}/members/${userId}/role`, 'PUT', { role }),
+
+  leaveConversation: async (conversationId: string) => {
+    const result = await sendGroupRequest(`${conversationId}/leave`, 'POST');
+    if (result.success) {
+      set((state) => removeConversation(state, conversationId));
+    }
+    return result;
+  },
+
+  setConversationNotifications: (conversationId: string, preference: UpdateNotificationsRequest | null) =>
+    preference
+      ? sendGroupRequest(`${conversationId}/notifications`, 'PUT', preference)
+      : sendGroupRequest(`${conversationId}/notifications`, 'DELETE'),
+
+  fetchWebhooks: async (conversationId: string) => {
+    try {
+      const response = await authFetch(`${API_URL}/api/conversations/${conversationId}/webhooks`);
+      if (response.ok) {
+        const data = await response.json();
+        return data.webhooks;
+      }
+    } catch (error) {
+      console.error('Failed to fetch webhooks:', error);
+    }
+    return [];
+  },
+
+  createWebhook: (conversationId: string, displayName: string | null) =>
+    sendWebhookRequest(conversationId, '', 'POST', { displayName }),
+
+  renameWebhook: (conversationId: string, webhookId: string, displayName: string | null) =>
+    sendWebhookRequest(conversationId, `/${webhookId}`, 'PATCH', { displayName }),
+
+  rotateWebhookToken: (conversationId: string, webhookId: string) =>
+    sendWebhookRequest(conversationId, `/${webhookId}/token`, 'POST'),
+
+  revokeWebhook: (conversationId: string, webhookId: string) =>
+    sendWebhookRequest(conversationId, `/${webhookId}`, 'DELETE'),
+
+  setWebhookAvatar: (conversationId: string, webhookId: string, file: File | null) => {
+    if (!file) return sendWebhookRequest(conversationId, `/${webhookId}/avatar`, 'DELETE');
+
+    const formData = new FormData();
+    formData.append('avatar', file);
+    return sendWebhookRequest(conversationId, `/${webhookId}/avatar`, 'PUT', formData);
+  },
+
   searchUsers: async (query: string) => {
     const token = useAuthStore.getState().token;
     if (!token || !query.trim()) return [];
 
     try {
-      const response = await fetch(`${API_URL}/api/users/search?q=${encodeURIComponent(query)}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      const response = await authFetch(`${API_URL}/api/users/search?q=${encodeURIComponent(query)}`);
 
       if (response.ok) {
         const data = await response.json();
@@ -326,60 +1066,223 @@ export const useChatStore = create<ChatState>((set, get) => ({
     return [];
   },
 
+  searchMessages: async (query: string, filters: SearchFilters = {}, cursor?: string) => {
+    const token = useAuthStore.getState().token;
+    if (!token || !query.trim()) return { results: [], nextCursor: null };
+
+    const params = new URLSearchParams({ q: query });
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value);
+    }
+    if (cursor) params.set('cursor', cursor);
+
+    try {
+      const response = await authFetch(`${API_URL}/api/search/messages?${params}`);
+
+      if (response.ok) {
+        return await response.json();
+      }
+    } catch (error) {
+      console.error('Failed to search messages:', error);
+    }
+
+    return { results: [], nextCursor: null };
+  },
+
+  fetchMentions: async (cursor?: string) => {
+    const params = new URLSearchParams();
+    if (cursor) params.set('cursor', cursor);
+
+    try {
+      const response = await authFetch(`${API_URL}/api/mentions?${params}`);
+      if (response.ok) {
+        return await response.json();
+      }
+    } catch (error) {
+      console.error('Failed to fetch mentions:', error);
+    }
+
+    return { messages: [], nextCursor: null };
+  },
+
+  clearUnseenMentions: () => set({ unseenMentions: 0 }),
+
+  // Opens the message's conversation with the history around it loaded
+  jumpToMessage: async (message: Message) => {
+    const token = useAuthStore.getState().token;
+    const conversation = get().conversations.find(c => c.id === message.conversationId);
+    if (!token || !conversation) return;
+
+    try {
+      const response = await authFetch(
+        `${API_URL}/api/conversations/${conversation.id}/messages/${message.id}/context`
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        set((state) => ({
+          currentConversation: conversation,
+          replyingTo: null,
+          activeThread: null,
+          highlightedMessageId: data.targetId,
+          messages: {
+            ...state.messages,
+            [conversation.id]: data.messages,
+          },
+          history: {
+            ...state.history,
+            [conversation.id]: {
+              prevCursor: data.prevCursor,
+              nextCursor: data.nextCursor,
+              hasOlder: data.hasOlder,
+              hasNewer: data.hasNewer,
+              isLoading: false,
+            },
+          },
+        }));
+
+        if (message.threadRootId) {
+          get().openThread(message);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load message context:', error);
+    }
+  },
+
   uploadFile: async (file: File) => {
     const token = useAuthStore.getState().token;
-    if (!token) return null;
+    if (!token) return { success: false, error: 'Not authenticated' };
 
     const formData = new FormData();
     formData.append('file', file);
 
     try {
-      const response = await fetch(`${API_URL}/api/upload`, {
+      const response = await authFetch(`${API_URL}/api/upload`, {
         method: 'POST',
-        headers: { Authorization: `Bearer ${token}` },
         body: formData,
       });
 
-      if (response.ok) {
-        const data = await response.json();
-        return {
-          fileUrl: `${API_URL}${data.fileUrl}`,
-          fileName: data.fileName,
-          type: data.type as 'image' | 'file',
-        };
+      const data = await response.json();
+      if (!response.ok) {
+        return { success: false, error: data.error || 'Upload failed' };
       }
+      return { success: true, attachment: data.attachment };
     } catch (error) {
       console.error('Failed to upload file:', error);
+      return { success: false, error: 'Network error' };
     }
+  },
 
-    return null;
+  // Gets newly signed URLs for a message's attachment and updates the message
+  refreshAttachment: async (message: Message) => {
+    if (!message.attachment) return null;
+
+    try {
+      const response = await authFetch(`${API_URL}/api/attachments/${message.attachment.id}`);
+      if (!response.ok) return null;
+
+      const { attachment } = await response.json();
+      set((state) => updateMessage(state, message.conversationId, message.id, (m) => ({ ...m, attachment })));
+      return attachment as Attachment;
+    } catch (error) {
+      console.error('Failed to refresh attachment:', error);
+      return null;
+    }
+  },
+
+  // Takes a preview off one of the user's own messages, for everyone
+  removeLinkPreview: async (message: Message, previewId: string) => {
+    try {
+      const response = await authFetch(
+        `${API_URL}/api/conversations/${message.conversationId}/messages/${message.id}/link-previews/${previewId}`,
+        { method: 'DELETE' }
+      );
+      if (!response.ok) return false;
+
+      const data = await response.json();
+      set((state) => replaceMessage(state, data.message));
+      return true;
+    } catch (error) {
+      console.error('Failed to remove link preview:', error);
+      return false;
+    }
+  },
+
+  editMessage: (messageId: string, content: string) => {
+    const { ws } = get();
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+    sendFrame(ws, { type: 'edit_message', messageId, content });
+  },
+
+  deleteMessage: (messageId: string) => {
+    const { ws } = get();
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+    sendFrame(ws, { type: 'delete_message', messageId });
+  },
+
+  toggleReaction: (message: Message, emoji: string) => {
+    const { ws } = get();
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+    const reacted = message.reactions.some(r => r.emoji === emoji && r.reacted);
+    sendFrame(ws, {
+      type: reacted ? 'remove_reaction' : 'add_reaction',
+      messageId: message.id,
+      emoji,
+    });
+  },
+
+  markRead: (conversationId: string, messageId: string) => {
+    const { ws, conversations } = get();
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+    const userId = useAuthStore.getState().user?.id;
+    const conversation = conversations.find(c => c.id === conversationId);
+    const me = conversation?.members.find(m => m.id === userId);
+    if (!userId || me?.lastReadMessageId === messageId) return;
+
+    sendFrame(ws, { type: 'mark_read', conversationId, messageId });
+    set((state) => setMemberRead(state, conversationId, userId, messageId));
   },
 
   sendTyping: (isTyping: boolean) => {
     const { ws, currentConversation } = get();
     if (!ws || !currentConversation || ws.readyState !== WebSocket.OPEN) return;
 
-    ws.send(JSON.stringify({
+    sendFrame(ws, {
       type: 'typing',
       conversationId: currentConversation.id,
       isTyping,
-    }));
+    });
   },
 
-  updateUserStatus: (userId: string, status: string) => {
+  setIdle: (idle: boolean) => {
+    if (idle === isIdle) return;
+    isIdle = idle;
+
+    const { ws } = get();
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      sendFrame(ws, { type: 'idle', idle });
+    }
+  },
+
+  updateUserStatus: (user: User) => {
+    const { status, customStatus, lastSeenAt } = user;
+    const apply = (member: Member) =>
+      member.id === user.id ? { ...member, status, customStatus, lastSeenAt } : member;
+
     set((state) => ({
       conversations: state.conversations.map(conv => ({
         ...conv,
-        members: conv.members.map(member =>
-          member.id === userId ? { ...member, status } : member
-        ),
+        members: conv.members.map(apply),
       })),
       currentConversation: state.currentConversation
         ? {
             ...state.currentConversation,
-            members: state.currentConversation.members.map(member =>
-              member.id === userId ? { ...member, status } : member
-            ),
+            members: state.currentConversation.members.map(apply),
           }
         : null,
     }));
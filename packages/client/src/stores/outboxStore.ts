@@ -0,0 +1,66 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Attachment, MessageFormat } from './chatStore';
+
+// A sent message the server hasn't acknowledged yet. Kept across reloads so
+// nothing typed while offline is lost; chatStore resends it on reconnect.
+export interface OutboxMessage {
+  clientMessageId: string;
+  // Only the account that wrote a message ever sends it
+  userId: string;
+  conversationId: string;
+  content: string;
+  format: MessageFormat;
+  attachment: Attachment | null;
+  replyToId: string | null;
+  threadRootId: string | null;
+  createdAt: string;
+  status: 'pending' | 'failed';
+  error: string | null;
+}
+
+interface OutboxState {
+  messages: OutboxMessage[];
+  add: (message: OutboxMessage) => void;
+  markPending: (clientMessageId: string) => void;
+  markFailed: (clientMessageId: string, error: string) => void;
+  remove: (clientMessageId: string) => void;
+}
+
+export const useOutboxStore = create<OutboxState>()(
+  persist(
+    (set) => ({
+      messages: [],
+
+      add: (message: OutboxMessage) => {
+        set((state) => ({ messages: [...state.messages, message] }));
+      },
+
+      markPending: (clientMessageId: string) => {
+        set((state) => ({
+          messages: state.messages.map((m) =>
+            m.clientMessageId === clientMessageId ? { ...m, status: 'pending', error: null } : m
+          ),
+        }));
+      },
+
+      markFailed: (clientMessageId: string, error: string) => {
+        set((state) => ({
+          messages: state.messages.map((m) =>
+            m.clientMessageId === clientMessageId ? { ...m, status: 'failed', error } : m
+          ),
+        }));
+      },
+
+      remove: (clientMessageId: string) => {
+        set((state) => ({
+          messages: state.messages.filter((m) => m.clientMessageId !== clientMessageId),
+        }));
+      },
+    }),
+    {
+      name: 'chatterbox-outbox',
+      partialize: (state) => ({ messages: state.messages }),
+    }
+  )
+);
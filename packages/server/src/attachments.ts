@@ -0,0 +1,299 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import type { Attachment } from '@chatterbox/shared';
+import database, { Attachment as StoredAttachment } from './database';
+import { signValue } from './auth';
+import { storageConfig } from './storage/config';
+import { sniffFile, FileType } from './fileTypes';
+
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+// Per user, across everything they've uploaded. UPLOAD_QUOTA_MB overrides it.
+const USER_STORAGE_QUOTA_BYTES = Number(process.env.UPLOAD_QUOTA_MB || 500) * 1024 * 1024;
+// How long a signed file URL works; members fetch fresh ones as they expire
+const FILE_URL_TTL_MS = 15 * 60 * 1000;
+// Uploads that are never sent are deleted after this long
+const UNSENT_ATTACHMENT_TTL_MS = 24 * 60 * 60 * 1000;
+// Longest side of the resized variants
+const PREVIEW_SIZE = 1280;
+const THUMBNAIL_SIZE = 320;
+
+const { uploadsDir } = storageConfig;
+// Where multer writes uploads before they're checked
+export const uploadTempDir = path.join(uploadsDir, 'tmp');
+
+for (const dir of [uploadsDir, uploadTempDir]) {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+export type FileVariant = 'original' | 'preview' | 'thumbnail';
+
+export const FILE_VARIANTS: FileVariant[] = ['original', 'preview', 'thumbnail'];
+
+export interface UploadResult {
+  success: boolean;
+  attachment?: Attachment;
+  status?: 400 | 413 | 500;
+  error?: string;
+}
+
+// A stored file, ready to send
+export interface ResolvedFile {
+  path: string;
+  mimeType: string;
+  fileName: string;
+  inline: boolean;
+}
+
+function isImage(attachment: StoredAttachment): boolean {
+  return attachment.mimeType.startsWith('image/');
+}
+
+function signature(id: string, variant: FileVariant, expires: number): string {
+  return signValue(`file:${id}:${variant}:${expires}`);
+}
+
+function signFileUrl(id: string, variant: FileVariant, expires: number): string {
+  return `/api/files/${id}/${variant}?expires=${expires}&sig=${signature(id, variant, expires)}`;
+}
+
+export function verifyFileUrl(id: string, variant: FileVariant, expires: unknown, sig: unknown): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt < Date.now() || typeof sig !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(signature(id, variant, expiresAt));
+  const actual = Buffer.from(sig);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export function formatAttachment(attachment: StoredAttachment): Attachment {
+  const expires = Date.now() + FILE_URL_TTL_MS;
+  const image = isImage(attachment);
+  return {
+    id: attachment.id,
+    fileName: attachment.fileName,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    isImage: image,
+    width: attachment.width,
+    height: attachment.height,
+    url: signFileUrl(attachment.id, 'original', expires),
+    previewUrl: image ? signFileUrl(attachment.id, 'preview', expires) : null,
+    thumbnailUrl: image ? signFileUrl(attachment.id, 'thumbnail', expires) : null,
+    urlsExpireAt: new Date(expires).toISOString(),
+  };
+}
+
+export function resolveFile(attachmentId: string, variant: FileVariant): ResolvedFile | null {
+  const attachment = database.findAttachmentById(attachmentId);
+  if (!attachment) return null;
+
+  const variantKey = variant === 'preview'
+    ? attachment.previewKey
+    : variant === 'thumbnail' ? attachment.thumbnailKey : null;
+
+  return {
+    path: path.join(uploadsDir, variantKey || attachment.storageKey),
+    // Variants are always WebP
+    mimeType: variantKey ? 'image/webp' : attachment.mimeType,
+    fileName: attachment.fileName,
+    // Everything else downloads, so an uploaded page can't run on our origin
+    inline: isImage(attachment),
+  };
+}
+
+async function removeFiles(keys: (string | null)[]): Promise<void> {
+  await Promise.all(keys.map(key => key && fs.promises.rm(path.join(uploadsDir, key), { force: true })));
+}
+
+// Bytes held for each user's uploads that are still being processed, so
+// uploads running side by side can't each take the space that's left
+const reservedBytes = new Map<string, number>();
+
+function exceedsQuota(uploaderId: string, bytes: number): boolean {
+  const used = database.getUserStorageUsage(uploaderId) + (reservedBytes.get(uploaderId) ?? 0);
+  return used + bytes > USER_STORAGE_QUOTA_BYTES;
+}
+
+// Holds `bytes` of the user's quota for an upload, or returns null if they
+// don't fit. The returned function gives them back; calling it again does
+// nothing.
+function reserveQuota(uploaderId: string, bytes: number): (() => void) | null {
+  if (exceedsQuota(uploaderId, bytes)) return null;
+  reservedBytes.set(uploaderId, (reservedBytes.get(uploaderId) ?? 0) + bytes);
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const remaining = reservedBytes.get(uploaderId)! - bytes;
+    if (remaining > 0) {
+      reservedBytes.set(uploaderId, remaining);
+    } else {
+      reservedBytes.delete(uploaderId);
+    }
+  };
+}
+
+interface StoredFiles {
+  storageKey: string;
+  thumbnailKey: string | null;
+  previewKey: string | null;
+  width: number | null;
+  height: number | null;
+  size: number;
+}
+
+const OUTPUT_FORMATS: Record<string, keyof sharp.FormatEnum> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+function writeVariant(source: string, size: number, key: string): Promise<sharp.OutputInfo> {
+  return sharp(source)
+    .rotate()
+    .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toFile(path.join(uploadsDir, key));
+}
+
+// Re-encodes an image without its metadata (EXIF location and the like),
+// turned upright first since the orientation tag goes too, and writes the
+// resized variants. GIFs are kept as they are so animations survive; they
+// carry no EXIF.
+async function storeImage(tempPath: string, id: string, type: FileType): Promise<StoredFiles> {
+  const storageKey = `${id}${type.extension}`;
+  const previewKey = `${id}-preview.webp`;
+  const thumbnailKey = `${id}-thumbnail.webp`;
+  const originalPath = path.join(uploadsDir, storageKey);
+
+  try {
+    let original: { width: number; height: number; size: number };
+    if (type.mimeType === 'image/gif') {
+      const metadata = await sharp(tempPath).metadata();
+      await fs.promises.rename(tempPath, originalPath);
+      const { size } = await fs.promises.stat(originalPath);
+      original = { width: metadata.width || 0, height: metadata.pageHeight || metadata.height || 0, size };
+    } else {
+      original = await sharp(tempPath)
+        .rotate()
+        .toFormat(OUTPUT_FORMATS[type.mimeType], { quality: 90 })
+        .toFile(originalPath);
+    }
+
+    const [preview, thumbnail] = await Promise.all([
+      writeVariant(originalPath, PREVIEW_SIZE, previewKey),
+      writeVariant(originalPath, THUMBNAIL_SIZE, thumbnailKey),
+    ]);
+
+    return {
+      storageKey,
+      previewKey,
+      thumbnailKey,
+      width: original.width,
+      height: original.height,
+      size: original.size + preview.size + thumbnail.size,
+    };
+  } catch (error) {
+    await removeFiles([storageKey, previewKey, thumbnailKey]);
+    throw error;
+  }
+}
+
+// Checks a file multer saved to `tempPath` and stores it as an unsent
+// attachment of the uploader's. The temp file is always consumed.
+export async function storeUpload(
+  uploaderId: string,
+  tempPath: string,
+  fileName: string,
+  size: number
+): Promise<UploadResult> {
+  let release: (() => void) | null = null;
+  try {
+    const type = await sniffFile(tempPath);
+    if (!type) {
+      return { success: false, status: 400, error: 'This type of file is not allowed' };
+    }
+    release = reserveQuota(uploaderId, size);
+    if (!release) {
+      return { success: false, status: 413, error: 'You have used all of your file storage' };
+    }
+
+    const id = uuidv4();
+    let files: StoredFiles;
+    if (type.isImage) {
+      try {
+        files = await storeImage(tempPath, id, type);
+      } catch {
+        return { success: false, status: 400, error: 'The image could not be read' };
+      }
+    } else {
+      const storageKey = `${id}${type.extension}`;
+      await fs.promises.rename(tempPath, path.join(uploadsDir, storageKey));
+      files = { storageKey, thumbnailKey: null, previewKey: null, width: null, height: null, size };
+    }
+
+    // Variants add to the size, so check again now it's known. From here to
+    // the insert nothing awaits, so no other upload can get in between.
+    release();
+    if (exceedsQuota(uploaderId, files.size)) {
+      await removeFiles([files.storageKey, files.previewKey, files.thumbnailKey]);
+      return { success: false, status: 413, error: 'You have used all of your file storage' };
+    }
+
+    const attachment: StoredAttachment = {
+      id,
+      uploaderId,
+      messageId: null,
+      conversationId: null,
+      fileName: fileName.slice(0, 255),
+      mimeType: type.mimeType,
+      ...files,
+      createdAt: new Date().toISOString(),
+    };
+    database.createAttachment(attachment);
+
+    return { success: true, attachment: formatAttachment(attachment) };
+  } catch (error) {
+    console.error('Upload error:', error);
+    return { success: false, status: 500, error: 'Failed to store file' };
+  } finally {
+    release?.();
+    await fs.promises.rm(tempPath, { force: true });
+  }
+}
+
+// Why the user can't send this attachment, or null if they can: it has to
+// be their own upload and not already sent
+export function checkAttachmentUse(attachmentId: string, userId: string): string | null {
+  const attachment = database.findAttachmentById(attachmentId);
+  if (!attachment || attachment.uploaderId !== userId) {
+    return 'Attachment not found';
+  }
+  if (attachment.messageId) {
+    return 'Attachment has already been sent';
+  }
+  return null;
+}
+
+async function removeAttachment(attachment: StoredAttachment): Promise<void> {
+  database.deleteAttachment(attachment.id);
+  await removeFiles([attachment.storageKey, attachment.previewKey, attachment.thumbnailKey]);
+}
+
+// Deletes a message's attachments and their files, freeing the uploader's quota
+export async function deleteMessageAttachments(messageId: string): Promise<void> {
+  await Promise.all(database.getMessageAttachments([messageId]).map(removeAttachment));
+}
+
+export async function sweepUnsentAttachments(): Promise<void> {
+  const cutoff = new Date(Date.now() - UNSENT_ATTACHMENT_TTL_MS).toISOString();
+  await Promise.all(database.getUnsentAttachments(cutoff).map(removeAttachment));
+}
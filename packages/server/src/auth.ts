@@ -1,28 +1,127 @@
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
-import database from './database';
+import type { NotificationPreference, User } from '@chatterbox/shared';
+import database, { Session, User as StoredUser } from './database';
+import { avatarPath } from './avatars';
+import { checkLoginLock, recordLoginFailure, clearLoginFailures } from './rateLimit';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'chatterbox-secret-key-change-in-production';
+const DEV_JWT_SECRET = 'chatterbox-secret-key-change-in-production';
+const ACCESS_TOKEN_TTL = '15m';
+// Sessions expire after this long without a refresh
+const SESSION_IDLE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 
-export interface User {
-  id: string;
-  username: string;
-  displayName: string;
-  avatar: string | null;
-  bio: string | null;
-  status: string;
-  createdAt: string;
+// Anyone who knows the secret can mint tokens, so production refuses to run
+// with the one checked into the source
+function loadJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (process.env.NODE_ENV === 'production' && (!secret || secret === DEV_JWT_SECRET || secret.length < 32)) {
+    throw new Error('JWT_SECRET must be set to a random string of at least 32 characters in production');
+  }
+  return secret || DEV_JWT_SECRET;
+}
+
+const JWT_SECRET = loadJwtSecret();
+
+// An HMAC of `value`, for things other than tokens that must not be forged
+// (signed file URLs). Callers include their purpose in `value`.
+export function signValue(value: string): string {
+  return crypto.createHmac('sha256', JWT_SECRET).update(value).digest('base64url');
 }
 
 export interface AuthResult {
   success: boolean;
   user?: User;
+  // Short-lived access token, sent as the Bearer token
   token?: string;
+  // Exchanged at /api/auth/refresh for a new pair; each one works once
+  refreshToken?: string;
   error?: string;
+  // Set when the account is locked after too many failed logins: seconds
+  // until it can be tried again
+  retryAfter?: number;
+}
+
+// Where a sign-in or refresh came from, recorded on the session
+export interface ClientInfo {
+  device: string | null;
+  ip: string | null;
+}
+
+// A session as shown to its user; `current` marks the one making the request
+export interface SessionInfo {
+  id: string;
+  device: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
 }
 
-export function register(username: string, password: string, displayName: string): AuthResult {
+// Formats a stored user for the API as `viewerId` sees them
+function toPublicUser(dbUser: StoredUser, viewerId?: string): User {
+  const isSelf = dbUser.id === viewerId;
+  const statusExpired = !!dbUser.statusExpiresAt && new Date(dbUser.statusExpiresAt).getTime() <= Date.now();
+  const hasCustomStatus = (dbUser.statusText || dbUser.statusEmoji) && !statusExpired;
+
+  return {
+    id: dbUser.id,
+    username: dbUser.username,
+    displayName: dbUser.displayName,
+    avatar: dbUser.avatarId ? avatarPath(dbUser.avatarId) : null,
+    bio: dbUser.bio || null,
+    status: dbUser.status === 'invisible' && !isSelf ? 'offline' : dbUser.status,
+    customStatus: hasCustomStatus
+      ? { text: dbUser.statusText, emoji: dbUser.statusEmoji, expiresAt: dbUser.statusExpiresAt }
+      : null,
+    lastSeenAt: dbUser.lastSeenAt,
+    ...(isSelf && {
+      presence: dbUser.presence,
+      notifications: { level: dbUser.notifications, mutedUntil: dbUser.mutedUntil },
+    }),
+    createdAt: dbUser.createdAt,
+  };
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function signAccessToken(userId: string, sessionId: string): string {
+  return jwt.sign({ userId, sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+}
+
+// Refresh tokens name their session so a stale one can be traced back to it
+function newRefreshToken(sessionId: string): string {
+  return `${sessionId}.${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+function isLive(session: Session | undefined): session is Session {
+  return !!session && !session.revokedAt && new Date(session.expiresAt).getTime() > Date.now();
+}
+
+function startSession(userId: string, client: ClientInfo): { token: string; refreshToken: string } {
+  const id = uuidv4();
+  const refreshToken = newRefreshToken(id);
+  const now = new Date();
+
+  database.createSession({
+    id,
+    userId,
+    refreshTokenHash: hashToken(refreshToken),
+    device: client.device,
+    ip: client.ip,
+    createdAt: now.toISOString(),
+    lastUsedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + SESSION_IDLE_TTL_MS).toISOString(),
+    revokedAt: null,
+  });
+
+  return { token: signAccessToken(userId, id), refreshToken };
+}
+
+export function register(username: string, password: string, displayName: string, client: ClientInfo): AuthResult {
   try {
     const existing = database.findUserByUsername(username);
     if (existing) {
@@ -33,112 +132,166 @@ export function register(username: string, password: string, displayName: string
     const id = uuidv4();
     const now = new Date().toISOString();
 
-    database.createUser({
+    // Offline until the client's socket connects
+    const dbUser: StoredUser = {
       id,
       username,
       password: hashedPassword,
       displayName,
-      avatar: null,
-      bio: null,
-      status: 'online',
-      createdAt: now,
-    });
-
-    const user: User = {
-      id,
-      username,
-      displayName,
-      avatar: null,
+      avatarId: null,
       bio: null,
-      status: 'online',
+      status: 'offline',
+      presence: 'online',
+      statusText: null,
+      statusEmoji: null,
+      statusExpiresAt: null,
+      lastSeenAt: null,
+      notifications: 'all',
+      mutedUntil: null,
       createdAt: now,
     };
+    database.createUser(dbUser);
 
-    const token = jwt.sign({ userId: id }, JWT_SECRET, { expiresIn: '7d' });
-
-    return { success: true, user, token };
+    return { success: true, user: toPublicUser(dbUser, id), ...startSession(id, client) };
   } catch (error) {
     console.error('Registration error:', error);
     return { success: false, error: 'Registration failed' };
   }
 }
 
-export function login(username: string, password: string): AuthResult {
+export function login(username: string, password: string, client: ClientInfo): AuthResult {
   try {
+    const lock = checkLoginLock(username);
+    if (!lock.allowed) {
+      const minutes = Math.ceil(lock.retryAfter! / 60);
+      return {
+        success: false,
+        error: `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+        retryAfter: lock.retryAfter,
+      };
+    }
+
     const dbUser = database.findUserByUsername(username);
 
     if (!dbUser) {
+      recordLoginFailure(username);
       return { success: false, error: 'User not found' };
     }
 
     if (!bcrypt.compareSync(password, dbUser.password)) {
+      recordLoginFailure(username);
       return { success: false, error: 'Invalid password' };
     }
 
-    // Update status to online
-    database.updateUser(dbUser.id, { status: 'online' });
-
-    const user: User = {
-      id: dbUser.id,
-      username: dbUser.username,
-      displayName: dbUser.displayName,
-      avatar: dbUser.avatar,
-      bio: dbUser.bio || null,
-      status: 'online',
-      createdAt: dbUser.createdAt,
-    };
-
-    const token = jwt.sign({ userId: dbUser.id }, JWT_SECRET, { expiresIn: '7d' });
-
-    return { success: true, user, token };
+    clearLoginFailures(username);
+    return { success: true, user: toPublicUser(dbUser, dbUser.id), ...startSession(dbUser.id, client) };
   } catch (error) {
     console.error('Login error:', error);
     return { success: false, error: 'Login failed' };
   }
 }
 
-export function verifyToken(token: string): { valid: boolean; userId?: string } {
+// Trades a refresh token for a new access token and refresh token. Reusing
+// an already rotated refresh token means it was copied, so the whole session
+// is revoked.
+export function refreshSession(refreshToken: string, client: ClientInfo): AuthResult {
+  try {
+    const sessionId = refreshToken.split('.')[0];
+    const session = database.findSessionById(sessionId);
+    if (!isLive(session)) {
+      return { success: false, error: 'Session expired' };
+    }
+
+    if (hashToken(refreshToken) !== session.refreshTokenHash) {
+      database.updateSession(session.id, { revokedAt: new Date().toISOString() });
+      return { success: false, error: 'Session expired' };
+    }
+
+    const nextRefreshToken = newRefreshToken(session.id);
+    const now = new Date();
+    database.updateSession(session.id, {
+      refreshTokenHash: hashToken(nextRefreshToken),
+      device: client.device,
+      ip: client.ip,
+      lastUsedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + SESSION_IDLE_TTL_MS).toISOString(),
+    });
+
+    return {
+      success: true,
+      token: signAccessToken(session.userId, session.id),
+      refreshToken: nextRefreshToken,
+    };
+  } catch (error) {
+    console.error('Refresh error:', error);
+    return { success: false, error: 'Refresh failed' };
+  }
+}
+
+// Access tokens are only good while their session is, so revoking a session
+// locks it out at once rather than when the token expires
+export function verifyToken(token: string): { valid: boolean; userId?: string; sessionId?: string } {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-    return { valid: true, userId: decoded.userId };
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string; sessionId: string };
+    const session = database.findSessionById(decoded.sessionId);
+    if (!isLive(session) || session.userId !== decoded.userId) {
+      return { valid: false };
+    }
+    return { valid: true, userId: decoded.userId, sessionId: decoded.sessionId };
   } catch {
     return { valid: false };
   }
 }
 
-export function getUserById(id: string): User | null {
-  const dbUser = database.findUserById(id);
-  if (!dbUser) return null;
+export function listSessions(userId: string, currentSessionId: string): SessionInfo[] {
+  return database.getUserSessions(userId).filter(isLive).map(session => ({
+    id: session.id,
+    device: session.device,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    current: session.id === currentSessionId,
+  }));
+}
 
-  return {
-    id: dbUser.id,
-    username: dbUser.username,
-    displayName: dbUser.displayName,
-    avatar: dbUser.avatar,
-    bio: dbUser.bio || null,
-    status: dbUser.status,
-    createdAt: dbUser.createdAt,
-  };
+// Returns false if the session isn't one of the user's live sessions
+export function revokeSession(userId: string, sessionId: string): boolean {
+  const session = database.findSessionById(sessionId);
+  if (!isLive(session) || session.userId !== userId) return false;
+
+  database.updateSession(session.id, { revokedAt: new Date().toISOString() });
+  return true;
 }
 
-export function updateUserStatus(userId: string, status: string): void {
-  database.updateUser(userId, { status });
+// Signs out everywhere but `keepSessionId`. Returns the revoked session ids.
+export function revokeOtherSessions(userId: string, keepSessionId: string): string[] {
+  const revokedAt = new Date().toISOString();
+  const revoked = database.getUserSessions(userId).filter(s => s.id !== keepSessionId);
+  for (const session of revoked) {
+    database.updateSession(session.id, { revokedAt });
+  }
+  return revoked.map(s => s.id);
 }
 
-export function updateUserProfile(userId: string, updates: { displayName?: string; avatar?: string; bio?: string }): User | null {
+// Pass viewerId when showing a user to someone; without it, the user is
+// formatted as anyone else would see them
+export function getUserById(id: string, viewerId?: string): User | null {
+  const dbUser = database.findUserById(id);
+  return dbUser ? toPublicUser(dbUser, viewerId) : null;
+}
+
+export function updateUserProfile(userId: string, updates: { displayName?: string; bio?: string | null }): User | null {
   database.updateUser(userId, updates);
-  return getUserById(userId);
+  return getUserById(userId, userId);
+}
+
+// Sets the user's default notifications, for conversations without their own
+export function updateNotificationDefault(userId: string, preference: NotificationPreference): User | null {
+  database.updateUser(userId, { notifications: preference.level, mutedUntil: preference.mutedUntil });
+  return getUserById(userId, userId);
 }
 
 export function searchUsers(query: string, excludeUserId: string): User[] {
   const users = database.searchUsers(query, excludeUserId);
-  return users.map(u => ({
-    id: u.id,
-    username: u.username,
-    displayName: u.displayName,
-    avatar: u.avatar,
-    bio: u.bio || null,
-    status: u.status,
-    createdAt: u.createdAt,
-  }));
+  return users.map(u => toPublicUser(u, excludeUserId));
 }
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import database from './database';
+import { storageConfig } from './storage/config';
+import { sniffFile } from './fileTypes';
+
+export const MAX_AVATAR_BYTES = 5 * 1024 * 1024;
+// The sizes avatars are served at: 64 for lists and headers, 256 for profiles
+export const AVATAR_SIZES = [64, 256];
+// Uploads are cropped square to this size and kept to render the others from
+const SOURCE_SIZE = 512;
+
+const { avatarsDir } = storageConfig;
+
+if (!fs.existsSync(avatarsDir)) {
+  fs.mkdirSync(avatarsDir, { recursive: true });
+}
+
+export interface AvatarResult {
+  success: boolean;
+  status?: 400 | 500;
+  error?: string;
+}
+
+// An avatar's source is `<id>.source`, which the avatar-files migration
+// writes too; each size is rendered from it the first time it's asked for
+function sourceFile(avatarId: string): string {
+  return path.join(avatarsDir, `${avatarId}.source`);
+}
+
+function sizeFile(avatarId: string, size: number): string {
+  return path.join(avatarsDir, `${avatarId}-${size}.webp`);
+}
+
+// Where the API serves an avatar; add ?size= to pick one of AVATAR_SIZES
+export function avatarPath(avatarId: string): string {
+  return `/api/avatars/${avatarId}`;
+}
+
+export function isAvatarId(value: string): boolean {
+  return /^[0-9a-f-]{36}$/.test(value);
+}
+
+// The file for an avatar at `size`, rendering it if this is the first time.
+// Null if there's no such avatar.
+export async function renderAvatar(avatarId: string, size: number): Promise<string | null> {
+  const file = sizeFile(avatarId, size);
+  if (fs.existsSync(file)) return file;
+  if (!fs.existsSync(sourceFile(avatarId))) return null;
+
+  // Written aside and renamed, so a concurrent request never reads half a file
+  const partial = `${file}.${uuidv4()}.tmp`;
+  await sharp(sourceFile(avatarId))
+    .rotate()
+    .resize(size, size, { fit: 'cover' })
+    .webp({ quality: 85 })
+    .toFile(partial);
+  await fs.promises.rename(partial, file);
+  return file;
+}
+
+// Deletes an avatar's files, once nothing uses it
+export async function deleteAvatar(avatarId: string): Promise<void> {
+  const files = [sourceFile(avatarId), ...AVATAR_SIZES.map(size => sizeFile(avatarId, size))];
+  await Promise.all(files.map(file => fs.promises.rm(file, { force: true })));
+}
+
+// Crops the image multer saved to `tempPath` into a new avatar and
+// resolves to its id. The temp file is always consumed.
+export async function createAvatar(tempPath: string): Promise<AvatarResult & { avatarId?: string }> {
+  try {
+    const type = await sniffFile(tempPath);
+    if (!type?.isImage) {
+      return { success: false, status: 400, error: 'Avatars must be PNG, JPEG, GIF or WebP images' };
+    }
+
+    const avatarId = uuidv4();
+    try {
+      await sharp(tempPath)
+        .rotate()
+        .resize(SOURCE_SIZE, SOURCE_SIZE, { fit: 'cover' })
+        .webp({ quality: 90 })
+        .toFile(sourceFile(avatarId));
+      await Promise.all(AVATAR_SIZES.map(size => renderAvatar(avatarId, size)));
+    } catch {
+      await deleteAvatar(avatarId);
+      return { success: false, status: 400, error: 'The image could not be read' };
+    }
+
+    return { success: true, avatarId };
+  } catch (error) {
+    console.error('Avatar upload error:', error);
+    return { success: false, status: 500, error: 'Failed to store avatar' };
+  } finally {
+    await fs.promises.rm(tempPath, { force: true });
+  }
+}
+
+// Makes the image multer saved to `tempPath` the user's avatar, replacing
+// any previous one. The temp file is always consumed.
+export async function storeAvatar(userId: string, tempPath: string): Promise<AvatarResult> {
+  const result = await createAvatar(tempPath);
+  if (!result.avatarId) return result;
+
+  const previous = database.findUserById(userId)?.avatarId;
+  database.updateUser(userId, { avatarId: result.avatarId });
+  if (previous) await deleteAvatar(previous);
+
+  return { success: true };
+}
+
+export async function removeAvatar(userId: string): Promise<void> {
+  const avatarId = database.findUserById(userId)?.avatarId;
+  if (!avatarId) return;
+
+  database.updateUser(userId, { avatarId: null });
+  await deleteAvatar(avatarId);
+}
@@ -1,30 +1,165 @@
 import { v4 as uuidv4 } from 'uuid';
-import database from './database';
-import { User, getUserById } from './auth';
-
-export interface Message {
-  id: string;
-  conversationId: string;
-  senderId: string;
-  senderName: string;
-  senderAvatar: string | null;
-  content: string | null;
-  type: 'text' | 'image' | 'file';
-  fileUrl: string | null;
-  fileName: string | null;
-  createdAt: string;
-}
-
-export interface Conversation {
-  id: string;
-  name: string | null;
-  isGroup: boolean;
-  members: User[];
-  lastMessage: Message | null;
-  createdAt: string;
-  updatedAt: string;
+import { mentionNames } from '@chatterbox/shared';
+import type {
+  Conversation, Member, Mention, Message, MessagePreview, NotificationPreference, ReactionSummary, ReadReceipt,
+} from '@chatterbox/shared';
+import database, {
+  Message as StoredMessage, MessageEdit, Reaction, Mention as StoredMention,
+} from './database';
+import { getUserById } from './auth';
+import { encodeCursor, decodeCursor } from './cursor';
+import { formatAttachment, deleteMessageAttachments } from './attachments';
+import { formatLinkPreview, deleteMessageLinkPreviews } from './linkPreviews';
+import { avatarPath } from './avatars';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_MENTIONS_PAGE_SIZE = 20;
+
+export interface SendMessageOptions {
+  // An unsent upload of the sender's; makes this an image or file message
+  attachmentId?: string | null;
+  replyToId?: string | null;
+  threadRootId?: string | null;
+  clientMessageId?: string | null;
+  format?: StoredMessage['format'];
+  // Posts as this incoming webhook, whose id is then the senderId
+  webhookId?: string | null;
+}
+
+// A page of a conversation's main timeline, oldest first. `prevCursor` and
+// `nextCursor` point at the first and last message, for paging backward with
+// `before` and forward with `after`; `hasMore` is whether there is more
+// history in the direction that was paged.
+export interface MessagePage {
+  success: boolean;
+  messages?: Message[];
+  hasMore?: boolean;
+  prevCursor?: string | null;
+  nextCursor?: string | null;
+  status?: 400 | 500;
+  error?: string;
+}
+
+// A page of a user's mentions inbox, newest first
+export interface MentionPage {
+  success: boolean;
+  messages?: Message[];
+  nextCursor?: string | null;
+  status?: 400 | 500;
+  error?: string;
+}
+
+// An edited message and who its edit mentions that it didn't before
+export interface EditedMessage {
+  message: Message;
+  newMentionIds: string[];
+}
+
+export interface MessageContext {
+  messages: Message[];
+  targetId: string;
+  hasOlder: boolean;
+  hasNewer: boolean;
+  prevCursor: string;
+  nextCursor: string;
+}
+
+// Who a message shows as from: the webhook that posted it, under its
+// display name, or the user who sent it
+function senderOf(msg: StoredMessage): { name: string; avatar: string | null } {
+  if (msg.webhookId) {
+    const webhook = database.findWebhookById(msg.webhookId);
+    return {
+      name: webhook?.displayName || 'Webhook',
+      avatar: webhook?.avatarId ? avatarPath(webhook.avatarId) : null,
+    };
+  }
+  const sender = getUserById(msg.senderId);
+  return { name: sender?.displayName || 'Unknown', avatar: sender?.avatar || null };
+}
+
+function formatPreview(msg: StoredMessage): MessagePreview {
+  return {
+    id: msg.id,
+    senderId: msg.senderId,
+    senderName: senderOf(msg).name,
+    content: msg.content,
+    type: msg.type,
+    format: msg.format,
+    deletedAt: msg.deletedAt,
+  };
 }
 
+function summarizeReactions(reactions: Reaction[], viewerId?: string): ReactionSummary[] {
+  const byEmoji = new Map<string, ReactionSummary>();
+  for (const reaction of reactions) {
+    const summary = byEmoji.get(reaction.emoji) || { emoji: reaction.emoji, count: 0, reacted: false };
+    summary.count++;
+    summary.reacted ||= reaction.userId === viewerId;
+    byEmoji.set(reaction.emoji, summary);
+  }
+  return Array.from(byEmoji.values());
+}
+
+// One entry per user mentioned by name, then @here and @all if used
+function summarizeMentions(mentions: StoredMention[]): Mention[] {
+  const summary: Mention[] = [];
+  for (const mention of mentions) {
+    const user = mention.type === 'user' && getUserById(mention.userId);
+    if (user) summary.push({ type: 'user', userId: user.id, username: user.username });
+  }
+  for (const type of ['here', 'all'] as const) {
+    if (mentions.some(m => m.type === type)) summary.push({ type });
+  }
+  return summary;
+}
+
+// Formats messages for the API. Reactions, attachments, link previews and
+// mentions are loaded in one batch; pass viewerId so each summary can say whether that user reacted.
+export function formatMessages(msgs: StoredMessage[], viewerId?: string): Message[] {
+  const messageIds = msgs.map(m => m.id);
+  const reactions = database.getReactions(messageIds);
+  const attachments = database.getMessageAttachments(messageIds);
+  const linkPreviews = database.getLinkPreviews(messageIds);
+  const mentions = database.getMentions(messageIds);
+
+  return msgs.map(msg => {
+    const sender = senderOf(msg);
+    const replyTo = msg.replyToId ? database.findMessageById(msg.replyToId) : undefined;
+    const attachment = attachments.find(a => a.messageId === msg.id);
+    return {
+      id: msg.id,
+      conversationId: msg.conversationId,
+      senderId: msg.senderId,
+      senderName: sender.name,
+      senderAvatar: sender.avatar,
+      content: msg.content,
+      type: msg.type,
+      format: msg.format,
+      fileName: msg.fileName,
+      attachment: attachment ? formatAttachment(attachment) : null,
+      linkPreviews: linkPreviews.filter(p => p.messageId === msg.id).map(formatLinkPreview),
+      mentions: summarizeMentions(mentions.filter(m => m.messageId === msg.id)),
+      createdAt: msg.createdAt,
+      editedAt: msg.editedAt,
+      deletedAt: msg.deletedAt,
+      replyToId: msg.replyToId,
+      threadRootId: msg.threadRootId,
+      replyCount: msg.replyCount,
+      replyTo: replyTo ? formatPreview(replyTo) : null,
+      reactions: summarizeReactions(reactions.filter(r => r.messageId === msg.id), viewerId),
+      clientMessageId: msg.clientMessageId,
+      webhookId: msg.webhookId,
+    };
+  });
+}
+
+function formatMessage(msg: StoredMessage, viewerId?: string): Message {
+  return formatMessages([msg], viewerId)[0];
+}
+
+// The first member is the creator and becomes the owner of a group
 export function createConversation(
   memberIds: string[],
   name: string | null = null,
@@ -45,18 +180,24 @@ export function createConversation(
     database.createConversation({
       id,
       name,
+      avatarId: null,
       isGroup,
       createdAt: now,
       updatedAt: now,
     });
 
-    for (const userId of memberIds) {
+    memberIds.forEach((userId, index) => {
       database.addConversationMember({
         conversationId: id,
         userId,
+        role: isGroup && index === 0 ? 'owner' : 'member',
         joinedAt: now,
+        lastReadMessageId: null,
+        lastReadMessageAt: null,
+        notifications: null,
+        mutedUntil: null,
       });
-    }
+    });
 
     return getConversation(id);
   } catch (error) {
@@ -65,43 +206,39 @@ export function createConversation(
   }
 }
 
-export function getConversation(id: string): Conversation | null {
+export function getConversation(id: string, viewerId?: string): Conversation | null {
   try {
     const conv = database.findConversationById(id);
     if (!conv) return null;
 
-    const memberIds = database.getConversationMembers(id);
-    const members: User[] = [];
-    for (const memberId of memberIds) {
-      const user = getUserById(memberId);
-      if (user) members.push(user);
+    const members: Member[] = [];
+    let unreadCount = 0;
+    let notifications: NotificationPreference | null = null;
+    for (const membership of database.listConversationMembers(id)) {
+      const user = getUserById(membership.userId, viewerId);
+      if (user) {
+        members.push({ ...user, role: membership.role, lastReadMessageId: membership.lastReadMessageId });
+      }
+      if (membership.userId === viewerId) {
+        unreadCount = database.countUnreadMessages(id, viewerId, membership.lastReadMessageAt);
+        if (membership.notifications) {
+          notifications = { level: membership.notifications, mutedUntil: membership.mutedUntil };
+        }
+      }
     }
 
     const lastMsg = database.getLastMessage(id);
-    let lastMessage: Message | null = null;
-    
-    if (lastMsg) {
-      const sender = getUserById(lastMsg.senderId);
-      lastMessage = {
-        id: lastMsg.id,
-        conversationId: lastMsg.conversationId,
-        senderId: lastMsg.senderId,
-        senderName: sender?.displayName || 'Unknown',
-        senderAvatar: sender?.avatar || null,
-        content: lastMsg.content,
-        type: lastMsg.type,
-        fileUrl: lastMsg.fileUrl,
-        fileName: lastMsg.fileName,
-        createdAt: lastMsg.createdAt,
-      };
-    }
+    const lastMessage = lastMsg ? formatMessage(lastMsg) : null;
 
     return {
       id: conv.id,
       name: conv.name,
+      avatar: conv.avatarId ? avatarPath(conv.avatarId) : null,
       isGroup: conv.isGroup,
       members,
       lastMessage,
+      unreadCount,
+      notifications,
       createdAt: conv.createdAt,
       updatedAt: conv.updatedAt,
     };
@@ -117,7 +254,7 @@ export function getUserConversations(userId: string): Conversation[] {
     const conversations: Conversation[] = [];
     
     for (const convId of convIds) {
-      const conv = getConversation(convId);
+      const conv = getConversation(convId, userId);
       if (conv) conversations.push(conv);
     }
 
@@ -135,73 +272,299 @@ export function getUserConversations(userId: string): Conversation[] {
   }
 }
 
+// Records who a message mentions. Names that aren't members of the
+// conversation stay plain text; @here picks out the members connected now,
+// away and do-not-disturb included, but not those who are invisible.
+function recordMentions(message: StoredMessage): void {
+  const names = message.content ? mentionNames(message.content, message.format) : [];
+  if (names.length === 0) return;
+
+  const members = database.getConversationMembers(message.conversationId)
+    .map(id => database.findUserById(id))
+    .filter((user): user is NonNullable<typeof user> => !!user);
+  const mentions: StoredMention[] = [];
+  const add = (userId: string, type: StoredMention['type']) => mentions.push({
+    messageId: message.id,
+    conversationId: message.conversationId,
+    userId,
+    type,
+    createdAt: message.createdAt,
+  });
+
+  for (const name of names) {
+    if (name === 'all') {
+      members.forEach(user => add(user.id, 'all'));
+    } else if (name === 'here') {
+      members
+        .filter(user => (user.status !== 'offline' && user.status !== 'invisible') || user.id === message.senderId)
+        .forEach(user => add(user.id, 'here'));
+    } else {
+      const user = members.find(u => u.username.toLowerCase() === name);
+      if (user) add(user.id, 'user');
+    }
+  }
+
+  if (mentions.length > 0) database.addMentions(mentions);
+}
+
+// Everyone a message mentions apart from its sender, who are sent a
+// mention event for it
+export function getMentionedUserIds(message: Message): string[] {
+  const userIds = database.getMentions([message.id]).map(m => m.userId);
+  return Array.from(new Set(userIds)).filter(id => id !== message.senderId);
+}
+
+// The attachment, if any, must already have passed checkAttachmentUse
 export function sendMessage(
   conversationId: string,
   senderId: string,
   content: string,
-  type: 'text' | 'image' | 'file' = 'text',
-  fileUrl: string | null = null,
-  fileName: string | null = null
+  options: SendMessageOptions = {}
 ): Message | null {
   try {
-    const id = uuidv4();
     const now = new Date().toISOString();
-
-    database.createMessage({
-      id,
+    const threadRoot = options.threadRootId ? resolveThreadRoot(options.threadRootId) : undefined;
+    const attachment = options.attachmentId ? database.findAttachmentById(options.attachmentId) : undefined;
+    const message: StoredMessage = {
+      id: uuidv4(),
       conversationId,
       senderId,
       content,
-      type,
-      fileUrl,
-      fileName,
+      type: attachment ? (attachment.mimeType.startsWith('image/') ? 'image' : 'file') : 'text',
+      format: options.format || 'plain',
+      fileName: attachment?.fileName || null,
       createdAt: now,
-    });
+      editedAt: null,
+      deletedAt: null,
+      replyToId: options.replyToId || null,
+      threadRootId: threadRoot?.id || null,
+      replyCount: 0,
+      clientMessageId: options.clientMessageId || null,
+      webhookId: options.webhookId || null,
+    };
 
+    database.createMessage(message);
+    recordMentions(message);
+    if (attachment) {
+      database.updateAttachment(attachment.id, { messageId: message.id, conversationId });
+    }
+    if (threadRoot) {
+      database.updateMessage(threadRoot.id, { replyCount: threadRoot.replyCount + 1 });
+    } else if (!message.webhookId) {
+      // Senders have obviously read up to their own message
+      database.updateConversationMember(conversationId, senderId, {
+        lastReadMessageId: message.id,
+        lastReadMessageAt: message.createdAt,
+      });
+    }
     database.updateConversation(conversationId, { updatedAt: now });
 
-    const sender = getUserById(senderId);
+    return formatMessage(message);
+  } catch (error) {
+    console.error('Send message error:', error);
+    return null;
+  }
+}
+
+export function getMessages(
+  conversationId: string,
+  cursors: { before?: string; after?: string } = {},
+  limit: number = DEFAULT_PAGE_SIZE,
+  viewerId?: string
+): MessagePage {
+  if (cursors.before && cursors.after) {
+    return { success: false, status: 400, error: 'Use either before or after, not both' };
+  }
+  const before = cursors.before ? decodeCursor(cursors.before) : undefined;
+  const after = cursors.after ? decodeCursor(cursors.after) : undefined;
+  if (before === null || after === null) {
+    return { success: false, status: 400, error: 'Invalid cursor' };
+  }
+
+  try {
+    const pageSize = Math.min(Math.max(1, limit), MAX_PAGE_SIZE);
+    // Fetch one extra to know whether there is another page
+    const msgs = database.getMessages(conversationId, { before, after, limit: pageSize + 1 });
+    const hasMore = msgs.length > pageSize;
+    // The extra message is on the far side of the paging direction
+    const page = hasMore ? (after ? msgs.slice(0, pageSize) : msgs.slice(1)) : msgs;
 
     return {
-      id,
+      success: true,
+      messages: formatMessages(page, viewerId),
+      hasMore,
+      prevCursor: page.length > 0 ? encodeCursor(page[0]) : null,
+      nextCursor: page.length > 0 ? encodeCursor(page[page.length - 1]) : null,
+    };
+  } catch (error) {
+    console.error('Get messages error:', error);
+    return { success: false, status: 500, error: 'Failed to load messages' };
+  }
+}
+
+// Messages in the user's conversations that mention them, newest first.
+// Page back with the returned nextCursor.
+export function getMentions(
+  userId: string,
+  cursor?: string,
+  limit: number = DEFAULT_MENTIONS_PAGE_SIZE
+): MentionPage {
+  const before = cursor ? decodeCursor(cursor) : undefined;
+  if (before === null) {
+    return { success: false, status: 400, error: 'Invalid cursor' };
+  }
+
+  try {
+    const pageSize = Math.min(Math.max(1, limit), MAX_PAGE_SIZE);
+    // Fetch one extra to know whether there is another page
+    const msgs = database.getMentionedMessages({
+      userId,
+      conversationIds: database.getUserConversationIds(userId),
+      before,
+      limit: pageSize + 1,
+    });
+    const page = msgs.slice(0, pageSize);
+
+    return {
+      success: true,
+      messages: formatMessages(page, userId),
+      nextCursor: msgs.length > pageSize ? encodeCursor(page[page.length - 1]) : null,
+    };
+  } catch (error) {
+    console.error('Get mentions error:', error);
+    return { success: false, status: 500, error: 'Failed to load mentions' };
+  }
+}
+
+// A message this sender already sent under `clientMessageId`, if any. Clients
+// resend after reconnecting, so a send may arrive more than once.
+export function findSentMessage(senderId: string, clientMessageId: string): Message | null {
+  const msg = database.findMessageByClientId(senderId, clientMessageId);
+  return msg ? formatMessage(msg) : null;
+}
+
+// Posts a notice about a group change to the timeline. It is attributed to
+// the member who made the change, so it counts as read for them.
+export function postSystemMessage(conversationId: string, actorId: string, content: string): Message | null {
+  try {
+    const now = new Date().toISOString();
+    const message: StoredMessage = {
+      id: uuidv4(),
       conversationId,
-      senderId,
-      senderName: sender?.displayName || 'Unknown',
-      senderAvatar: sender?.avatar || null,
+      senderId: actorId,
       content,
-      type,
-      fileUrl,
-      fileName,
+      type: 'system',
+      format: 'plain',
+      fileName: null,
       createdAt: now,
+      editedAt: null,
+      deletedAt: null,
+      replyToId: null,
+      threadRootId: null,
+      replyCount: 0,
+      clientMessageId: null,
+      webhookId: null,
     };
+
+    database.createMessage(message);
+    if (database.findConversationMember(conversationId, actorId)) {
+      database.updateConversationMember(conversationId, actorId, {
+        lastReadMessageId: message.id,
+        lastReadMessageAt: message.createdAt,
+      });
+    }
+    database.updateConversation(conversationId, { updatedAt: now });
+
+    return formatMessage(message);
   } catch (error) {
-    console.error('Send message error:', error);
+    console.error('Post system message error:', error);
     return null;
   }
 }
 
-export function getMessages(conversationId: string, limit: number = 50, before?: string): Message[] {
+// Replying inside a thread always attaches to the thread's root message
+function resolveThreadRoot(messageId: string): StoredMessage | undefined {
+  const msg = database.findMessageById(messageId);
+  if (msg?.threadRootId) {
+    return database.findMessageById(msg.threadRootId);
+  }
+  return msg;
+}
+
+// Returns an error if a reply or thread target isn't a live message in the
+// conversation, or null if the targets are fine
+export function checkReplyTargets(
+  conversationId: string,
+  replyToId?: string | null,
+  threadRootId?: string | null
+): string | null {
+  for (const targetId of [replyToId, threadRootId]) {
+    if (!targetId) continue;
+    const target = database.findMessageById(targetId);
+    if (!target || target.conversationId !== conversationId) {
+      return 'Replied-to message not found';
+    }
+    if (target.deletedAt) {
+      return 'Cannot reply to a deleted message';
+    }
+  }
+  return null;
+}
+
+export function getMessage(messageId: string): Message | null {
+  const msg = database.findMessageById(messageId);
+  return msg ? formatMessage(msg) : null;
+}
+
+export function getThread(
+  conversationId: string,
+  messageId: string,
+  viewerId?: string
+): { root: Message; replies: Message[] } | null {
   try {
-    const msgs = database.getMessages(conversationId, limit, before);
-    
-    return msgs.map(msg => {
-      const sender = getUserById(msg.senderId);
-      return {
-        id: msg.id,
-        conversationId: msg.conversationId,
-        senderId: msg.senderId,
-        senderName: sender?.displayName || 'Unknown',
-        senderAvatar: sender?.avatar || null,
-        content: msg.content,
-        type: msg.type,
-        fileUrl: msg.fileUrl,
-        fileName: msg.fileName,
-        createdAt: msg.createdAt,
-      };
-    });
+    const root = resolveThreadRoot(messageId);
+    if (!root || root.conversationId !== conversationId) return null;
+
+    return {
+      root: formatMessage(root, viewerId),
+      replies: formatMessages(database.getThreadReplies(root.id), viewerId),
+    };
   } catch (error) {
-    console.error('Get messages error:', error);
-    return [];
+    console.error('Get thread error:', error);
+    return null;
+  }
+}
+
+// The main-timeline messages around `messageId`, used to jump to a search
+// result. Thread replies are shown around their root.
+export function getMessageContext(
+  conversationId: string,
+  messageId: string,
+  limit: number = 25,
+  viewerId?: string
+): MessageContext | null {
+  try {
+    const target = resolveThreadRoot(messageId);
+    if (!target || target.conversationId !== conversationId) return null;
+
+    const older = database.getMessages(conversationId, { before: target, limit: limit + 1 });
+    const newer = database.getMessages(conversationId, { after: target, limit: limit + 1 });
+    const msgs = [
+      ...older.slice(-limit),
+      target,
+      ...newer.slice(0, limit),
+    ];
+    return {
+      messages: formatMessages(msgs, viewerId),
+      targetId: target.id,
+      hasOlder: older.length > limit,
+      hasNewer: newer.length > limit,
+      prevCursor: encodeCursor(msgs[0]),
+      nextCursor: encodeCursor(msgs[msgs.length - 1]),
+    };
+  } catch (error) {
+    console.error('Get message context error:', error);
+    return null;
   }
 }
 
@@ -209,15 +572,128 @@ export function getConversationMembers(conversationId: string): string[] {
   return database.getConversationMembers(conversationId);
 }
 
-export function addMemberToConversation(conversationId: string, userId: string): boolean {
+// Moves a member's read marker forward to `messageId`. Returns null if the
+// message isn't in the conversation or is older than what was already read.
+export function markConversationRead(
+  conversationId: string,
+  userId: string,
+  messageId: string
+): ReadReceipt | null {
   try {
-    database.addConversationMember({
-      conversationId,
-      userId,
-      joinedAt: new Date().toISOString(),
+    const member = database.findConversationMember(conversationId, userId);
+    const msg = database.findMessageById(messageId);
+    if (!member || !msg || msg.conversationId !== conversationId) return null;
+    if (member.lastReadMessageAt && msg.createdAt <= member.lastReadMessageAt) return null;
+
+    database.updateConversationMember(conversationId, userId, {
+      lastReadMessageId: msg.id,
+      lastReadMessageAt: msg.createdAt,
     });
+
+    return { conversationId, userId, messageId: msg.id, readAt: new Date().toISOString() };
+  } catch (error) {
+    console.error('Mark read error:', error);
+    return null;
+  }
+}
+
+// Sets a member's notifications for the conversation; null goes back to
+// their default. Returns the conversation as they see it.
+export function setConversationNotifications(
+  conversationId: string,
+  userId: string,
+  preference: NotificationPreference | null
+): Conversation | null {
+  try {
+    if (!database.findConversationMember(conversationId, userId)) return null;
+
+    database.updateConversationMember(conversationId, userId, {
+      notifications: preference?.level ?? null,
+      mutedUntil: preference?.mutedUntil ?? null,
+    });
+    return getConversation(conversationId, userId);
+  } catch (error) {
+    console.error('Set notifications error:', error);
+    return null;
+  }
+}
+
+// Replaces a message's content, keeping the previous content in its edit history
+export function editMessage(messageId: string, content: string): EditedMessage | null {
+  try {
+    const msg = database.findMessageById(messageId);
+    if (!msg || msg.deletedAt) return null;
+
+    const now = new Date().toISOString();
+    const edited = { ...msg, content, editedAt: now };
+    database.addMessageEdit({ messageId, content: msg.content, editedAt: now });
+    database.updateMessage(messageId, { content, editedAt: now });
+
+    const mentionedBefore = new Set(database.getMentions([messageId]).map(m => m.userId));
+    database.deleteMentions(messageId);
+    recordMentions(edited);
+
+    const message = formatMessage(edited);
+    return { message, newMentionIds: getMentionedUserIds(message).filter(id => !mentionedBefore.has(id)) };
+  } catch (error) {
+    console.error('Edit message error:', error);
+    return null;
+  }
+}
+
+// Deletes a message's content, history, attachments and link previews, leaving a tombstone in its place
+export function deleteMessage(messageId: string): Message | null {
+  try {
+    const msg = database.findMessageById(messageId);
+    if (!msg || msg.deletedAt) return null;
+
+    const tombstone: Partial<StoredMessage> = {
+      content: null,
+      fileName: null,
+      deletedAt: new Date().toISOString(),
+    };
+    database.updateMessage(messageId, tombstone);
+    // The reply stays in the thread as a tombstone but no longer counts
+    const threadRoot = msg.threadRootId ? database.findMessageById(msg.threadRootId) : undefined;
+    if (threadRoot) {
+      database.updateMessage(threadRoot.id, { replyCount: Math.max(threadRoot.replyCount - 1, 0) });
+    }
+    database.deleteMessageEdits(messageId);
+    database.deleteReactions(messageId);
+    database.deleteMentions(messageId);
+    deleteMessageAttachments(messageId).catch(error => console.error('Attachment cleanup error:', error));
+    deleteMessageLinkPreviews(messageId).catch(error => console.error('Link preview cleanup error:', error));
+
+    return formatMessage({ ...msg, ...tombstone });
+  } catch (error) {
+    console.error('Delete message error:', error);
+    return null;
+  }
+}
+
+// Returns null if the message isn't part of the conversation
+export function getMessageEdits(conversationId: string, messageId: string): MessageEdit[] | null {
+  const msg = database.findMessageById(messageId);
+  if (!msg || msg.conversationId !== conversationId) return null;
+  return database.getMessageEdits(messageId);
+}
+
+// Adds or removes one user's emoji reaction on a message. Returns false if
+// nothing changed.
+export function setReaction(messageId: string, userId: string, emoji: string, reacted: boolean): boolean {
+  try {
+    const existing = database.getReactions([messageId])
+      .some(r => r.userId === userId && r.emoji === emoji);
+    if (existing === reacted) return false;
+
+    if (reacted) {
+      database.addReaction({ messageId, userId, emoji, createdAt: new Date().toISOString() });
+    } else {
+      database.removeReaction(messageId, userId, emoji);
+    }
     return true;
-  } catch {
+  } catch (error) {
+    console.error('Set reaction error:', error);
     return false;
   }
 }
@@ -0,0 +1,25 @@
+import { MessagePosition } from './database';
+
+// Cursors are opaque to clients: a base64url-encoded (createdAt, id) pair
+
+export function encodeCursor(position: MessagePosition): string {
+  return Buffer.from(JSON.stringify([position.createdAt, position.id])).toString('base64url');
+}
+
+// Returns null for anything that isn't a cursor this server produced
+export function decodeCursor(cursor: string): MessagePosition | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (
+      Array.isArray(value) &&
+      value.length === 2 &&
+      typeof value[0] === 'string' &&
+      typeof value[1] === 'string'
+    ) {
+      return { createdAt: value[0], id: value[1] };
+    }
+  } catch {
+    // Fall through to the invalid cursor result
+  }
+  return null;
+}
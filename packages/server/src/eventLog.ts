@@ -0,0 +1,65 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// Recent broadcast events per user, so a client that reconnects can be sent
+// what it missed. Sequence numbers count up per user within a stream; the
+// log lives in memory, so a restart starts a new stream and clients resync.
+// Each server process keeps its own stream, so reconnecting to a different
+// process resyncs too.
+const MAX_EVENTS_PER_USER = 500;
+
+export const streamId = uuidv4();
+
+export interface SequencedEvent {
+  seq: number;
+  [key: string]: unknown;
+}
+
+interface UserLog {
+  seq: number;
+  events: SequencedEvent[];
+}
+
+// Where a client got up to before it disconnected
+export interface ResumePoint {
+  streamId: string;
+  seq: number;
+}
+
+const logs = new Map<string, UserLog>();
+
+function getLog(userId: string): UserLog {
+  let log = logs.get(userId);
+  if (!log) {
+    log = { seq: 0, events: [] };
+    logs.set(userId, log);
+  }
+  return log;
+}
+
+// Stamps `event` with the user's next sequence number and keeps it for replay
+export function recordEvent(userId: string, event: object): SequencedEvent {
+  const log = getLog(userId);
+  const sequenced = { ...event, seq: ++log.seq };
+  log.events.push(sequenced);
+  if (log.events.length > MAX_EVENTS_PER_USER) {
+    log.events.shift();
+  }
+  return sequenced;
+}
+
+export function currentSeq(userId: string): number {
+  return getLog(userId).seq;
+}
+
+// The events after `resume`, or null if they can't all be replayed: the
+// client is from another stream, or older events have already been dropped
+export function eventsSince(userId: string, resume: ResumePoint): SequencedEvent[] | null {
+  const log = getLog(userId);
+  if (resume.streamId !== streamId || resume.seq > log.seq) {
+    return null;
+  }
+
+  const missed = log.events.filter(e => e.seq > resume.seq);
+  const expected = log.seq - resume.seq;
+  return missed.length === expected ? missed : null;
+}
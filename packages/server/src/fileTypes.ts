@@ -0,0 +1,107 @@
+import fs from 'fs';
+
+// The kinds of file that can be uploaded, recognised by their leading bytes.
+// The name and Content-Type a client sends are never trusted.
+export interface FileType {
+  mimeType: string;
+  // Used for the stored file's name
+  extension: string;
+  // Images get resized variants and are shown inline
+  isImage: boolean;
+}
+
+// Enough of the file to recognise any of the types below
+const SNIFF_BYTES = 512;
+
+interface Signature {
+  type: FileType;
+  matches(head: Buffer): boolean;
+}
+
+function startsWith(head: Buffer, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, i) => head[offset + i] === byte);
+}
+
+function ascii(head: Buffer, text: string, offset = 0): boolean {
+  return head.toString('latin1', offset, offset + text.length) === text;
+}
+
+const signatures: Signature[] = [
+  {
+    type: { mimeType: 'image/png', extension: '.png', isImage: true },
+    matches: (head) => startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  {
+    type: { mimeType: 'image/jpeg', extension: '.jpg', isImage: true },
+    matches: (head) => startsWith(head, [0xff, 0xd8, 0xff]),
+  },
+  {
+    type: { mimeType: 'image/gif', extension: '.gif', isImage: true },
+    matches: (head) => ascii(head, 'GIF87a') || ascii(head, 'GIF89a'),
+  },
+  {
+    type: { mimeType: 'image/webp', extension: '.webp', isImage: true },
+    matches: (head) => ascii(head, 'RIFF') && ascii(head, 'WEBP', 8),
+  },
+  {
+    type: { mimeType: 'application/pdf', extension: '.pdf', isImage: false },
+    matches: (head) => ascii(head, '%PDF-'),
+  },
+  {
+    // Also covers Office documents, which are zip archives
+    type: { mimeType: 'application/zip', extension: '.zip', isImage: false },
+    matches: (head) => startsWith(head, [0x50, 0x4b, 0x03, 0x04]),
+  },
+  {
+    type: { mimeType: 'audio/mpeg', extension: '.mp3', isImage: false },
+    matches: (head) => ascii(head, 'ID3') || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0),
+  },
+  {
+    type: { mimeType: 'audio/ogg', extension: '.ogg', isImage: false },
+    matches: (head) => ascii(head, 'OggS'),
+  },
+  {
+    type: { mimeType: 'audio/wav', extension: '.wav', isImage: false },
+    matches: (head) => ascii(head, 'RIFF') && ascii(head, 'WAVE', 8),
+  },
+  {
+    type: { mimeType: 'video/mp4', extension: '.mp4', isImage: false },
+    matches: (head) => ascii(head, 'ftyp', 4),
+  },
+  {
+    type: { mimeType: 'video/webm', extension: '.webm', isImage: false },
+    matches: (head) => startsWith(head, [0x1a, 0x45, 0xdf, 0xa3]),
+  },
+];
+
+const PLAIN_TEXT: FileType = { mimeType: 'text/plain', extension: '.txt', isImage: false };
+
+// Anything without a known signature is accepted only if it reads as UTF-8 text
+function isText(head: Buffer): boolean {
+  if (head.length === 0 || head.includes(0)) return false;
+  try {
+    // Streaming, so a character cut off at the end of `head` isn't an error
+    new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The allowed type `head` (the start of a file) is, or null if it isn't one
+export function sniffFileType(head: Buffer): FileType | null {
+  const signature = signatures.find(s => s.matches(head));
+  if (signature) return signature.type;
+  return isText(head) ? PLAIN_TEXT : null;
+}
+
+export async function sniffFile(filePath: string): Promise<FileType | null> {
+  const file = await fs.promises.open(filePath, 'r');
+  try {
+    const head = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await file.read(head, 0, SNIFF_BYTES, 0);
+    return sniffFileType(head.subarray(0, bytesRead));
+  } finally {
+    await file.close();
+  }
+}
@@ -0,0 +1,176 @@
+import type { Conversation, Message } from '@chatterbox/shared';
+import database, { MemberRole } from './database';
+import { getUserById } from './auth';
+import { AvatarResult, createAvatar, deleteAvatar } from './avatars';
+import { getConversation, postSystemMessage } from './conversations';
+
+// A group change: the conversation as it is afterwards and the notices it
+// posted to the timeline. Callers check permissions first.
+export interface GroupChange {
+  conversation: Conversation;
+  notices: Message[];
+}
+
+export interface GroupUpdates {
+  name?: string;
+}
+
+function displayName(userId: string): string {
+  return getUserById(userId)?.displayName || 'Someone';
+}
+
+function finish(conversationId: string, notices: (Message | null)[]): GroupChange | null {
+  const conversation = getConversation(conversationId);
+  if (!conversation) return null;
+  return { conversation, notices: notices.filter((n): n is Message => n !== null) };
+}
+
+export function addGroupMember(conversationId: string, actorId: string, userId: string): GroupChange | null {
+  try {
+    database.addConversationMember({
+      conversationId,
+      userId,
+      role: 'member',
+      joinedAt: new Date().toISOString(),
+      lastReadMessageId: null,
+      lastReadMessageAt: null,
+      notifications: null,
+      mutedUntil: null,
+    });
+
+    return finish(conversationId, [
+      postSystemMessage(conversationId, actorId, `${displayName(actorId)} added ${displayName(userId)}`),
+    ]);
+  } catch (error) {
+    console.error('Add group member error:', error);
+    return null;
+  }
+}
+
+export function removeGroupMember(conversationId: string, actorId: string, userId: string): GroupChange | null {
+  try {
+    database.removeConversationMember(conversationId, userId);
+
+    return finish(conversationId, [
+      postSystemMessage(conversationId, actorId, `${displayName(actorId)} removed ${displayName(userId)}`),
+    ]);
+  } catch (error) {
+    console.error('Remove group member error:', error);
+    return null;
+  }
+}
+
+// When the owner leaves, ownership passes to the longest-standing admin, or
+// failing that the longest-standing member
+export function leaveGroup(conversationId: string, userId: string): GroupChange | null {
+  try {
+    const leaving = database.findConversationMember(conversationId, userId);
+    database.removeConversationMember(conversationId, userId);
+
+    const notices = [postSystemMessage(conversationId, userId, `${displayName(userId)} left the group`)];
+
+    if (leaving?.role === 'owner') {
+      const remaining = database.listConversationMembers(conversationId);
+      const heir = remaining.find(m => m.role === 'admin') || remaining[0];
+      if (heir) {
+        database.updateConversationMember(conversationId, heir.userId, { role: 'owner' });
+        notices.push(postSystemMessage(conversationId, userId, `${displayName(heir.userId)} is now the group owner`));
+      }
+    }
+
+    return finish(conversationId, notices);
+  } catch (error) {
+    console.error('Leave group error:', error);
+    return null;
+  }
+}
+
+export function updateGroup(conversationId: string, actorId: string, updates: GroupUpdates): GroupChange | null {
+  try {
+    const conv = database.findConversationById(conversationId);
+    if (!conv) return null;
+
+    const actor = displayName(actorId);
+    const notices: (Message | null)[] = [];
+
+    if (updates.name !== undefined && updates.name !== conv.name) {
+      database.updateConversation(conversationId, { name: updates.name });
+      notices.push(postSystemMessage(conversationId, actorId, `${actor} renamed the group to "${updates.name}"`));
+    }
+
+    return finish(conversationId, notices);
+  } catch (error) {
+    console.error('Update group error:', error);
+    return null;
+  }
+}
+
+// Makes the image multer saved to `tempPath` the group's picture, replacing
+// any previous one. The temp file is always consumed.
+export async function storeGroupAvatar(
+  conversationId: string,
+  actorId: string,
+  tempPath: string
+): Promise<AvatarResult & { change?: GroupChange }> {
+  const result = await createAvatar(tempPath);
+  if (!result.avatarId) return result;
+
+  try {
+    const previous = database.findConversationById(conversationId)?.avatarId;
+    database.updateConversation(conversationId, { avatarId: result.avatarId });
+    if (previous) await deleteAvatar(previous);
+
+    const change = finish(conversationId, [
+      postSystemMessage(conversationId, actorId, `${displayName(actorId)} changed the group picture`),
+    ]);
+    if (change) return { success: true, change };
+  } catch (error) {
+    console.error('Store group avatar error:', error);
+  }
+  return { success: false, status: 500, error: 'Failed to update group' };
+}
+
+export async function removeGroupAvatar(conversationId: string, actorId: string): Promise<GroupChange | null> {
+  try {
+    const previous = database.findConversationById(conversationId)?.avatarId;
+    if (!previous) return finish(conversationId, []);
+
+    database.updateConversation(conversationId, { avatarId: null });
+    await deleteAvatar(previous);
+
+    return finish(conversationId, [
+      postSystemMessage(conversationId, actorId, `${displayName(actorId)} removed the group picture`),
+    ]);
+  } catch (error) {
+    console.error('Remove group avatar error:', error);
+    return null;
+  }
+}
+
+export function setMemberRole(
+  conversationId: string,
+  actorId: string,
+  userId: string,
+  role: Exclude<MemberRole, 'owner'>
+): GroupChange | null {
+  try {
+    const member = database.findConversationMember(conversationId, userId);
+    if (!member) return null;
+    if (member.role === role) return finish(conversationId, []);
+
+    database.updateConversationMember(conversationId, userId, { role });
+
+    const actor = displayName(actorId);
+    const target = displayName(userId);
+    return finish(conversationId, [
+      postSystemMessage(
+        conversationId,
+        actorId,
+        role === 'admin' ? `${actor} made ${target} an admin` : `${actor} removed ${target} as an admin`
+      ),
+    ]);
+  } catch (error) {
+    console.error('Set member role error:', error);
+    return null;
+  }
+}
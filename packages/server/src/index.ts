@@ -3,53 +3,179 @@ import cors from 'cors';
 import http from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
 import multer from 'multer';
-import path from 'path';
-import fs from 'fs';
-import { v4 as uuidv4 } from 'uuid';
+import type { ZodType } from 'zod';
+import {
+  validate,
+  RegisterRequest,
+  LoginRequest,
+  RefreshRequest,
+  UpdateProfileRequest,
+  UpdateStatusRequest,
+  UpdateNotificationsRequest,
+  CreateConversationRequest,
+  UpdateGroupRequest,
+  MarkReadRequest,
+  EditMessageRequest,
+  AddReactionRequest,
+  AddMemberRequest,
+  SetMemberRoleRequest,
+  WebhookSettingsRequest,
+  WebhookMessageRequest,
+  ClientFrame,
+  ServerEvent,
+  User,
+  Message,
+} from '@chatterbox/shared';
 
-import { register, login, verifyToken, getUserById, updateUserStatus, updateUserProfile, searchUsers, User } from './auth';
+import database from './database';
+import {
+  register,
+  login,
+  refreshSession,
+  verifyToken,
+  listSessions,
+  revokeSession,
+  revokeOtherSessions,
+  getUserById,
+  updateUserProfile,
+  updateNotificationDefault,
+  searchUsers,
+  ClientInfo
+} from './auth';
 import {
   createConversation,
   getUserConversations,
   getConversation,
   sendMessage,
+  getMentions,
+  getMentionedUserIds,
   getMessages,
   getConversationMembers,
-  addMemberToConversation,
-  Message
+  editMessage,
+  deleteMessage,
+  getMessageEdits,
+  getMessage,
+  getThread,
+  getMessageContext,
+  checkReplyTargets,
+  findSentMessage,
+  setReaction,
+  markConversationRead,
+  setConversationNotifications,
+  EditedMessage
 } from './conversations';
+import {
+  checkConversationAccess,
+  checkMessageAccess,
+  checkMemberAccess,
+  checkAttachmentAccess,
+  ConversationAction,
+  MessageAction,
+  MemberAction
+} from './permissions';
+import { streamId, recordEvent, currentSeq, eventsSince } from './eventLog';
+import pubsub from './pubsub';
+import { addGroupMember, removeGroupMember, leaveGroup, updateGroup, storeGroupAvatar, removeGroupAvatar, setMemberRole, GroupChange, GroupUpdates } from './groups';
+import { searchMessages } from './search';
+import {
+  uploadTempDir,
+  MAX_UPLOAD_BYTES,
+  FILE_VARIANTS,
+  FileVariant,
+  storeUpload,
+  checkAttachmentUse,
+  formatAttachment,
+  verifyFileUrl,
+  resolveFile,
+  sweepUnsentAttachments,
+} from './attachments';
+import { markConnected, markIdle, markDisconnected, updatePresence } from './presence';
+import { MAX_AVATAR_BYTES, AVATAR_SIZES, isAvatarId, renderAvatar, storeAvatar, removeAvatar } from './avatars';
+import { unfurlMessageLinks, removeLinkPreview, isLinkPreviewId, linkPreviewImageFile } from './linkPreviews';
+import {
+  listWebhooks,
+  createWebhook,
+  renameWebhook,
+  rotateWebhookToken,
+  revokeWebhook,
+  storeWebhookAvatar,
+  removeWebhookAvatar,
+  verifyWebhookToken,
+  postWebhookMessage,
+  WebhookResult
+} from './webhooks';
+import { RateLimitName, takeToken, createViolationCounter } from './rateLimit';
 
 const app = express();
 const server = http.createServer(app);
-const wss = new WebSocketServer({ server });
+// Frames are small JSON; without a cap ws would buffer up to 100MB of one
+const wss = new WebSocketServer({ server, maxPayload: 1024 * 1024 });
+
+// Behind a reverse proxy, set TRUST_PROXY (a hop count or the proxy's
+// addresses) so req.ip, which rate limits key on, is the client's address
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
 
 // Middleware
 app.use(cors());
 app.use(express.json({ limit: '10mb' }));
 
-// File uploads
-const uploadsDir = path.join(__dirname, '..', 'uploads');
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir, { recursive: true });
-}
-
-const storage = multer.diskStorage({
-  destination: uploadsDir,
-  filename: (req, file, cb) => {
-    const ext = path.extname(file.originalname);
-    cb(null, `${uuidv4()}${ext}`);
-  }
+// File uploads land in a temp directory until storeUpload has checked them.
+// Stored files are only served through signed URLs, below.
+const upload = multer({
+  dest: uploadTempDir,
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
 });
-
-const upload = multer({ 
-  storage,
-  limits: { fileSize: 50 * 1024 * 1024 } // 50MB limit
+const avatarUpload = multer({
+  dest: uploadTempDir,
+  limits: { fileSize: MAX_AVATAR_BYTES, files: 1 },
 });
 
-app.use('/uploads', express.static(uploadsDir));
+// Runs a multer uploader for a single file in `field`, answering the request
+// itself if the upload is missing or rejected
+function receiveFile(
+  uploader: multer.Multer,
+  field: string,
+  maxBytes: number,
+  req: express.Request,
+  res: express.Response
+): Promise<Express.Multer.File | null> {
+  return new Promise((resolve) => {
+    uploader.single(field)(req, res, (error: unknown) => {
+      if (error) {
+        const tooLarge = error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE';
+        res.status(tooLarge ? 413 : 400).json({
+          error: tooLarge ? `Files can be at most ${maxBytes / 1024 / 1024}MB` : 'Invalid upload',
+        });
+        return resolve(null);
+      }
+      if (!req.file) {
+        res.status(400).json({ error: 'No file uploaded' });
+        return resolve(null);
+      }
+      resolve(req.file);
+    });
+  });
+}
+
+setInterval(() => {
+  sweepUnsentAttachments().catch((error) => console.error('Attachment sweep error:', error));
+}, 60 * 60 * 1000).unref();
 
-// Connected clients map: userId -> WebSocket[]
+// Sockets connected to this process: userId -> WebSocket[]. Other
+// processes' sockets are reached through pub/sub.
 const clients = new Map<string, WebSocket[]>();
+// The session each authenticated socket signed in with
+const socketSessions = new WeakMap<WebSocket, string>();
+
+function clientInfo(req: express.Request): ClientInfo {
+  return {
+    device: req.headers['user-agent'] || null,
+    ip: req.ip || null,
+  };
+}
 
 // Auth middleware for HTTP
 function authMiddleware(req: express.Request, res: express.Response, next: express.NextFunction) {
@@ -59,49 +185,153 @@ function authMiddleware(req: express.Request, res: express.Response, next: expre
   }
 
   const token = authHeader.substring(7);
-  const { valid, userId } = verifyToken(token);
+  const { valid, userId, sessionId } = verifyToken(token);
   
   if (!valid || !userId) {
     return res.status(401).json({ error: 'Invalid token' });
   }
 
   (req as any).userId = userId;
+  (req as any).sessionId = sessionId;
   next();
 }
 
+function tooManyRequests(res: express.Response, retryAfter: number, error = 'Too many requests, slow down') {
+  res.set('Retry-After', String(retryAfter)).status(429).json({ code: 'rate_limited', error, retryAfter });
+}
+
+// Rate limit middleware: spends a token from the `name` bucket of the
+// signed-in user, or of the caller's IP on routes without authMiddleware
+function rateLimit(name: RateLimitName) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const userId = (req as any).userId;
+    const limit = takeToken(name, userId ? `user:${userId}` : `ip:${req.ip}`);
+    if (!limit.allowed) {
+      return tooManyRequests(res, limit.retryAfter!);
+    }
+    next();
+  };
+}
+
+// Body validation middleware: rejects a body that doesn't match `schema`,
+// and otherwise replaces it with the parsed value (trimmed, unknown keys dropped)
+function validateBody(schema: ZodType) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const result = validate(schema, req.body);
+    if (!result.success) {
+      return res.status(400).json(result.error);
+    }
+    req.body = result.data;
+    next();
+  };
+}
+
+// Conversation access middleware: requires the caller to be allowed to
+// perform `action` on the conversation in req.params.id
+function requireConversationAccess(action: ConversationAction) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const access = checkConversationAccess(req.params.id, (req as any).userId, action);
+    if (!access.allowed) {
+      return res.status(access.status!).json({ error: access.error });
+    }
+    next();
+  };
+}
+
+// Message access middleware: requires the caller to be allowed to perform
+// `action` on req.params.messageId within conversation req.params.id
+function requireMessageAccess(action: MessageAction) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const access = checkMessageAccess(req.params.messageId, (req as any).userId, action, req.params.id);
+    if (!access.allowed) {
+      return res.status(access.status!).json({ error: access.error });
+    }
+    next();
+  };
+}
+
+// Member access middleware: requires the caller to be allowed to perform
+// `action` on member req.params.userId of group req.params.id
+function requireMemberAccess(action: MemberAction) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const access = checkMemberAccess(req.params.id, (req as any).userId, req.params.userId, action);
+    if (!access.allowed) {
+      return res.status(access.status!).json({ error: access.error });
+    }
+    next();
+  };
+}
+
 // HTTP Routes
-app.post('/api/auth/register', (req, res) => {
-  const { username, password, displayName } = req.body;
-  
-  if (!username || !password || !displayName) {
-    return res.status(400).json({ error: 'Missing required fields' });
-  }
+app.post('/api/auth/register', rateLimit('register'), validateBody(RegisterRequest), (req, res) => {
+  const { username, password, displayName }: RegisterRequest = req.body;
 
-  const result = register(username, password, displayName);
+  const result = register(username, password, displayName, clientInfo(req));
   if (result.success) {
-    res.json({ user: result.user, token: result.token });
+    res.json({ user: result.user, token: result.token, refreshToken: result.refreshToken });
   } else {
     res.status(400).json({ error: result.error });
   }
 });
 
-app.post('/api/auth/login', (req, res) => {
-  const { username, password } = req.body;
-  
-  if (!username || !password) {
-    return res.status(400).json({ error: 'Missing required fields' });
-  }
+app.post('/api/auth/login', rateLimit('login'), validateBody(LoginRequest), (req, res) => {
+  const { username, password }: LoginRequest = req.body;
 
-  const result = login(username, password);
+  const result = login(username, password, clientInfo(req));
   if (result.success) {
-    res.json({ user: result.user, token: result.token });
+    res.json({ user: result.user, token: result.token, refreshToken: result.refreshToken });
+  } else if (result.retryAfter) {
+    tooManyRequests(res, result.retryAfter, result.error);
   } else {
     res.status(400).json({ error: result.error });
   }
 });
 
+app.post('/api/auth/refresh', rateLimit('refresh'), validateBody(RefreshRequest), (req, res) => {
+  const { refreshToken }: RefreshRequest = req.body;
+
+  const result = refreshSession(refreshToken, clientInfo(req));
+  if (result.success) {
+    res.json({ token: result.token, refreshToken: result.refreshToken });
+  } else {
+    res.status(401).json({ error: result.error });
+  }
+});
+
+app.post('/api/auth/logout', authMiddleware, (req, res) => {
+  const userId = (req as any).userId;
+  const sessionId = (req as any).sessionId;
+  revokeSession(userId, sessionId);
+  closeSessionSockets(userId, [sessionId]);
+  res.json({ success: true });
+});
+
+app.get('/api/auth/sessions', authMiddleware, (req, res) => {
+  const sessions = listSessions((req as any).userId, (req as any).sessionId);
+  res.json({ sessions });
+});
+
+// Signs out every other device
+app.delete('/api/auth/sessions', authMiddleware, (req, res) => {
+  const userId = (req as any).userId;
+  const revoked = revokeOtherSessions(userId, (req as any).sessionId);
+  closeSessionSockets(userId, revoked);
+  res.json({ success: true });
+});
+
+app.delete('/api/auth/sessions/:sessionId', authMiddleware, (req, res) => {
+  const userId = (req as any).userId;
+  if (!revokeSession(userId, req.params.sessionId)) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+
+  closeSessionSockets(userId, [req.params.sessionId]);
+  res.json({ success: true });
+});
+
 app.get('/api/auth/me', authMiddleware, (req, res) => {
-  const user = getUserById((req as any).userId);
+  const userId = (req as any).userId;
+  const user = getUserById(userId, userId);
   if (user) {
     res.json({ user });
   } else {
@@ -109,15 +339,11 @@ app.get('/api/auth/me', authMiddleware, (req, res) => {
   }
 });
 
-app.put('/api/auth/profile', authMiddleware, (req, res) => {
-  const { displayName, avatar, bio } = req.body;
+app.put('/api/auth/profile', authMiddleware, validateBody(UpdateProfileRequest), (req, res) => {
+  const { displayName, bio }: UpdateProfileRequest = req.body;
   const userId = (req as any).userId;
 
-  if (!displayName) {
-    return res.status(400).json({ error: 'Display name is required' });
-  }
-
-  const user = updateUserProfile(userId, { displayName, avatar, bio });
+  const user = updateUserProfile(userId, { displayName, bio });
   if (user) {
     res.json({ user });
   } else {
@@ -125,7 +351,41 @@ app.put('/api/auth/profile', authMiddleware, (req, res) => {
   }
 });
 
-app.get('/api/users/search', authMiddleware, (req, res) => {
+// Sets the user's presence and/or custom status; customStatus: null clears it
+app.put('/api/auth/status', authMiddleware, validateBody(UpdateStatusRequest), (req, res) => {
+  const { presence, customStatus }: UpdateStatusRequest = req.body;
+  const userId = (req as any).userId;
+
+  updatePresence(userId, {
+    presence,
+    customStatus: customStatus && {
+      text: customStatus.text || null,
+      emoji: customStatus.emoji || null,
+      expiresAt: customStatus.expiresAt ? new Date(customStatus.expiresAt).toISOString() : null,
+    },
+  });
+  broadcastUserStatus(userId);
+  res.json({ user: getUserById(userId, userId) });
+});
+
+// Sets the user's default notifications. Their other clients get the change
+// through user_status.
+app.put('/api/auth/notifications', authMiddleware, validateBody(UpdateNotificationsRequest), (req, res) => {
+  const { level, mutedUntil }: UpdateNotificationsRequest = req.body;
+  const userId = (req as any).userId;
+
+  const user = updateNotificationDefault(userId, {
+    level,
+    mutedUntil: mutedUntil ? new Date(mutedUntil).toISOString() : null,
+  });
+  if (!user) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+  broadcastUserStatus(userId);
+  res.json({ user });
+});
+
+app.get('/api/users/search', authMiddleware, rateLimit('search'), (req, res) => {
   const query = req.query.q as string;
   if (!query) {
     return res.json({ users: [] });
@@ -135,18 +395,54 @@ app.get('/api/users/search', authMiddleware, (req, res) => {
   res.json({ users });
 });
 
+app.get('/api/search/messages', authMiddleware, rateLimit('search'), (req, res) => {
+  const userId = (req as any).userId;
+  const param = (name: string) => (typeof req.query[name] === 'string' ? req.query[name] as string : undefined);
+
+  const conversationId = param('conversationId');
+  if (conversationId) {
+    const access = checkConversationAccess(conversationId, userId, 'read');
+    if (!access.allowed) {
+      return res.status(access.status!).json({ error: access.error });
+    }
+  }
+
+  const result = searchMessages(
+    userId,
+    param('q') ?? '',
+    { conversationId, senderId: param('senderId'), type: param('type'), from: param('from'), to: param('to') },
+    param('cursor'),
+    parseInt(param('limit') ?? '') || undefined
+  );
+  if (result.success) {
+    res.json({ results: result.results, nextCursor: result.nextCursor });
+  } else {
+    res.status(result.status!).json({ error: result.error });
+  }
+});
+
+// The user's mentions inbox: messages that mention them by name or through
+// @here or @all, newest first
+app.get('/api/mentions', authMiddleware, rateLimit('mentions'), (req, res) => {
+  const cursor = typeof req.query.cursor === 'string' ? req.query.cursor : undefined;
+  const limit = typeof req.query.limit === 'string' ? parseInt(req.query.limit) || undefined : undefined;
+
+  const result = getMentions((req as any).userId, cursor, limit);
+  if (result.success) {
+    res.json({ messages: result.messages, nextCursor: result.nextCursor });
+  } else {
+    res.status(result.status!).json({ error: result.error });
+  }
+});
+
 app.get('/api/conversations', authMiddleware, (req, res) => {
   const conversations = getUserConversations((req as any).userId);
   res.json({ conversations });
 });
 
-app.post('/api/conversations', authMiddleware, (req, res) => {
-  const { memberIds, name, isGroup } = req.body;
+app.post('/api/conversations', authMiddleware, rateLimit('create_conversation'), validateBody(CreateConversationRequest), (req, res) => {
+  const { memberIds, name, isGroup }: CreateConversationRequest = req.body;
   const userId = (req as any).userId;
-  
-  if (!memberIds || !Array.isArray(memberIds)) {
-    return res.status(400).json({ error: 'memberIds required' });
-  }
 
   // Ensure current user is included
   const allMembers = [...new Set([userId, ...memberIds])];
@@ -159,8 +455,8 @@ app.post('/api/conversations', authMiddleware, (req, res) => {
   }
 });
 
-app.get('/api/conversations/:id', authMiddleware, (req, res) => {
-  const conversation = getConversation(req.params.id);
+app.get('/api/conversations/:id', authMiddleware, requireConversationAccess('read'), (req, res) => {
+  const conversation = getConversation(req.params.id, (req as any).userId);
   if (conversation) {
     res.json({ conversation });
   } else {
@@ -168,44 +464,435 @@ app.get('/api/conversations/:id', authMiddleware, (req, res) => {
   }
 });
 
-app.get('/api/conversations/:id/messages', authMiddleware, (req, res) => {
-  const limit = parseInt(req.query.limit as string) || 50;
-  const before = req.query.before as string;
-  
-  const messages = getMessages(req.params.id, limit, before);
-  res.json({ messages });
+app.patch('/api/conversations/:id', authMiddleware, requireConversationAccess('update'), validateBody(UpdateGroupRequest), (req, res) => {
+  const updates: GroupUpdates = req.body as UpdateGroupRequest;
+
+  const change = updateGroup(req.params.id, (req as any).userId, updates);
+  if (change) {
+    broadcastGroupChange(change);
+    res.json({ conversation: change.conversation });
+  } else {
+    res.status(500).json({ error: 'Failed to update group' });
+  }
+});
+
+// Replaces the group picture with the uploaded image, cropped square
+app.put('/api/conversations/:id/avatar', authMiddleware, requireConversationAccess('update'), rateLimit('avatar'), async (req, res) => {
+  const file = await receiveFile(avatarUpload, 'avatar', MAX_AVATAR_BYTES, req, res);
+  if (!file) return;
+
+  const result = await storeGroupAvatar(req.params.id, (req as any).userId, file.path);
+  if (result.change) {
+    broadcastGroupChange(result.change);
+    res.json({ conversation: result.change.conversation });
+  } else {
+    res.status(result.status!).json({ error: result.error });
+  }
 });
 
-app.post('/api/conversations/:id/members', authMiddleware, (req, res) => {
-  const { userId } = req.body;
-  if (!userId) {
-    return res.status(400).json({ error: 'userId required' });
+app.delete('/api/conversations/:id/avatar', authMiddleware, requireConversationAccess('update'), async (req, res) => {
+  const change = await removeGroupAvatar(req.params.id, (req as any).userId);
+  if (change) {
+    broadcastGroupChange(change);
+    res.json({ conversation: change.conversation });
+  } else {
+    res.status(500).json({ error: 'Failed to update group' });
   }
-  
-  const success = addMemberToConversation(req.params.id, userId);
-  if (success) {
-    const conversation = getConversation(req.params.id);
+});
+
+app.post('/api/conversations/:id/leave', authMiddleware, requireConversationAccess('leave'), (req, res) => {
+  const userId = (req as any).userId;
+  const change = leaveGroup(req.params.id, userId);
+  if (change) {
+    broadcastGroupChange(change, [userId]);
+    res.json({ success: true });
+  } else {
+    res.status(500).json({ error: 'Failed to leave group' });
+  }
+});
+
+app.get('/api/conversations/:id/messages', authMiddleware, requireConversationAccess('read'), (req, res) => {
+  const param = (name: string) => (typeof req.query[name] === 'string' ? req.query[name] as string : undefined);
+
+  const result = getMessages(
+    req.params.id,
+    { before: param('before'), after: param('after') },
+    parseInt(param('limit') ?? '') || undefined,
+    (req as any).userId
+  );
+  if (result.success) {
+    res.json({
+      messages: result.messages,
+      hasMore: result.hasMore,
+      prevCursor: result.prevCursor,
+      nextCursor: result.nextCursor,
+    });
+  } else {
+    res.status(result.status!).json({ error: result.error });
+  }
+});
+
+app.get('/api/conversations/:id/threads/:messageId', authMiddleware, requireConversationAccess('read'), (req, res) => {
+  const thread = getThread(req.params.id, req.params.messageId, (req as any).userId);
+  if (thread) {
+    res.json(thread);
+  } else {
+    res.status(404).json({ error: 'Message not found' });
+  }
+});
+
+app.get('/api/conversations/:id/messages/:messageId/context', authMiddleware, requireConversationAccess('read'), (req, res) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 25, 100);
+
+  const context = getMessageContext(req.params.id, req.params.messageId, limit, (req as any).userId);
+  if (context) {
+    res.json(context);
+  } else {
+    res.status(404).json({ error: 'Message not found' });
+  }
+});
+
+app.post('/api/conversations/:id/read', authMiddleware, rateLimit('mark_read'), requireConversationAccess('read'), validateBody(MarkReadRequest), (req, res) => {
+  const { messageId }: MarkReadRequest = req.body;
+  if (getMessage(messageId)?.conversationId !== req.params.id) {
+    return res.status(404).json({ error: 'Message not found' });
+  }
+
+  handleMarkRead(req.params.id, (req as any).userId, messageId);
+  res.json({ success: true });
+});
+
+// Per-conversation notifications only concern the user setting them, so
+// only their own clients hear about the change
+app.put('/api/conversations/:id/notifications', authMiddleware, requireConversationAccess('read'), validateBody(UpdateNotificationsRequest), (req, res) => {
+  const { level, mutedUntil }: UpdateNotificationsRequest = req.body;
+  const userId = (req as any).userId;
+
+  const conversation = setConversationNotifications(req.params.id, userId, {
+    level,
+    mutedUntil: mutedUntil ? new Date(mutedUntil).toISOString() : null,
+  });
+  if (conversation) {
+    broadcast([userId], { type: 'conversation_updated', conversation });
     res.json({ conversation });
   } else {
-    res.status(500).json({ error: 'Failed to add member' });
+    res.status(500).json({ error: 'Failed to update notifications' });
   }
 });
 
-app.post('/api/upload', authMiddleware, upload.single('file'), (req, res) => {
-  if (!req.file) {
-    return res.status(400).json({ error: 'No file uploaded' });
+// Goes back to following the user's default
+app.delete('/api/conversations/:id/notifications', authMiddleware, requireConversationAccess('read'), (req, res) => {
+  const userId = (req as any).userId;
+
+  const conversation = setConversationNotifications(req.params.id, userId, null);
+  if (conversation) {
+    broadcast([userId], { type: 'conversation_updated', conversation });
+    res.json({ conversation });
+  } else {
+    res.status(500).json({ error: 'Failed to update notifications' });
   }
+});
 
-  const fileUrl = `/uploads/${req.file.filename}`;
-  const isImage = req.file.mimetype.startsWith('image/');
+app.put('/api/conversations/:id/messages/:messageId', authMiddleware, rateLimit('edit_message'), requireMessageAccess('edit'), validateBody(EditMessageRequest), (req, res) => {
+  const { content }: EditMessageRequest = req.body;
+
+  const edit = editMessage(req.params.messageId, content);
+  if (edit) {
+    broadcastMessageEdited(edit);
+    res.json({ message: edit.message });
+  } else {
+    res.status(500).json({ error: 'Failed to edit message' });
+  }
+});
+
+app.delete('/api/conversations/:id/messages/:messageId', authMiddleware, rateLimit('delete_message'), requireMessageAccess('delete'), (req, res) => {
+  const message = deleteMessage(req.params.messageId);
+  if (message) {
+    broadcastMessageDeleted(message);
+    res.json({ message });
+  } else {
+    res.status(500).json({ error: 'Failed to delete message' });
+  }
+});
+
+// Only the sender can take a preview off their message; anyone else can
+// just hide it on their own screen
+app.delete('/api/conversations/:id/messages/:messageId/link-previews/:previewId', authMiddleware, requireMessageAccess('edit'), async (req, res) => {
+  if (!await removeLinkPreview(req.params.messageId, req.params.previewId)) {
+    return res.status(404).json({ error: 'Link preview not found' });
+  }
+
+  const message = getMessage(req.params.messageId)!;
+  broadcast(getConversationMembers(message.conversationId), { type: 'message_updated', message });
+  res.json({ message });
+});
+
+app.get('/api/conversations/:id/messages/:messageId/edits', authMiddleware, requireConversationAccess('read'), (req, res) => {
+  const edits = getMessageEdits(req.params.id, req.params.messageId);
+  if (edits) {
+    res.json({ edits });
+  } else {
+    res.status(404).json({ error: 'Message not found' });
+  }
+});
+
+app.post('/api/conversations/:id/messages/:messageId/reactions', authMiddleware, rateLimit('reaction'), requireMessageAccess('react'), validateBody(AddReactionRequest), (req, res) => {
+  const { emoji }: AddReactionRequest = req.body;
+
+  handleReaction(req.params.id, req.params.messageId, (req as any).userId, emoji, true);
+  res.json({ success: true });
+});
+
+app.delete('/api/conversations/:id/messages/:messageId/reactions/:emoji', authMiddleware, rateLimit('reaction'), requireMessageAccess('react'), (req, res) => {
+  handleReaction(req.params.id, req.params.messageId, (req as any).userId, req.params.emoji, false);
+  res.json({ success: true });
+});
+
+app.post('/api/conversations/:id/members', authMiddleware, requireConversationAccess('add_member'), validateBody(AddMemberRequest), (req, res) => {
+  const { userId }: AddMemberRequest = req.body;
+
+  if (!getUserById(userId)) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+  if (getConversationMembers(req.params.id).includes(userId)) {
+    return res.status(400).json({ error: 'User is already a member' });
+  }
   
-  res.json({
-    fileUrl,
-    fileName: req.file.originalname,
-    type: isImage ? 'image' : 'file'
+  const change = addGroupMember(req.params.id, (req as any).userId, userId);
+  if (change) {
+    broadcastGroupChange(change);
+    res.json({ conversation: change.conversation });
+  } else {
+    res.status(500).json({ error: 'Failed to add member' });
+  }
+});
+
+app.delete('/api/conversations/:id/members/:userId', authMiddleware, requireMemberAccess('remove'), (req, res) => {
+  const change = removeGroupMember(req.params.id, (req as any).userId, req.params.userId);
+  if (change) {
+    broadcastGroupChange(change, [req.params.userId]);
+    res.json({ conversation: change.conversation });
+  } else {
+    res.status(500).json({ error: 'Failed to remove member' });
+  }
+});
+
+app.put('/api/conversations/:id/members/:userId/role', authMiddleware, requireMemberAccess('change_role'), validateBody(SetMemberRoleRequest), (req, res) => {
+  const { role }: SetMemberRoleRequest = req.body;
+
+  const change = setMemberRole(req.params.id, (req as any).userId, req.params.userId, role);
+  if (change) {
+    broadcastGroupChange(change);
+    res.json({ conversation: change.conversation });
+  } else {
+    res.status(500).json({ error: 'Failed to change role' });
+  }
+});
+
+// Incoming webhooks, managed by the group's owner and admins
+function sendWebhookResult(res: express.Response, result: WebhookResult) {
+  if (result.success) {
+    res.json({ webhook: result.webhook, ...(result.token && { token: result.token }) });
+  } else {
+    res.status(result.status!).json({ error: result.error });
+  }
+}
+
+app.get('/api/conversations/:id/webhooks', authMiddleware, requireConversationAccess('manage_webhooks'), (req, res) => {
+  res.json({ webhooks: listWebhooks(req.params.id) });
+});
+
+// Responds with the hook and its token, which isn't shown again
+app.post('/api/conversations/:id/webhooks', authMiddleware, requireConversationAccess('manage_webhooks'), validateBody(WebhookSettingsRequest), (req, res) => {
+  const { displayName }: WebhookSettingsRequest = req.body;
+  sendWebhookResult(res, createWebhook(req.params.id, (req as any).userId, displayName || null));
+});
+
+app.patch('/api/conversations/:id/webhooks/:webhookId', authMiddleware, requireConversationAccess('manage_webhooks'), validateBody(WebhookSettingsRequest), (req, res) => {
+  const { displayName }: WebhookSettingsRequest = req.body;
+  sendWebhookResult(res, renameWebhook(req.params.id, req.params.webhookId, displayName || null));
+});
+
+// Issues a new token; the old one stops working
+app.post('/api/conversations/:id/webhooks/:webhookId/token', authMiddleware, requireConversationAccess('manage_webhooks'), (req, res) => {
+  sendWebhookResult(res, rotateWebhookToken(req.params.id, req.params.webhookId));
+});
+
+app.delete('/api/conversations/:id/webhooks/:webhookId', authMiddleware, requireConversationAccess('manage_webhooks'), (req, res) => {
+  const result = revokeWebhook(req.params.id, req.params.webhookId);
+  if (result.success) {
+    res.json({ success: true });
+  } else {
+    res.status(result.status!).json({ error: result.error });
+  }
+});
+
+app.put('/api/conversations/:id/webhooks/:webhookId/avatar', authMiddleware, requireConversationAccess('manage_webhooks'), rateLimit('avatar'), async (req, res) => {
+  const file = await receiveFile(avatarUpload, 'avatar', MAX_AVATAR_BYTES, req, res);
+  if (!file) return;
+
+  sendWebhookResult(res, await storeWebhookAvatar(req.params.id, req.params.webhookId, file.path));
+});
+
+app.delete('/api/conversations/:id/webhooks/:webhookId/avatar', authMiddleware, requireConversationAccess('manage_webhooks'), async (req, res) => {
+  sendWebhookResult(res, await removeWebhookAvatar(req.params.id, req.params.webhookId));
+});
+
+// Where external systems post. The token goes in an Authorization: Bearer
+// header, or in ?token= for tools that can only be given a URL.
+app.post('/hooks/:id', (req, res) => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.startsWith('Bearer ')
+    ? authHeader.substring(7)
+    : typeof req.query.token === 'string' ? req.query.token : '';
+
+  const webhook = verifyWebhookToken(req.params.id, token);
+  if (!webhook) {
+    return res.status(401).json({ error: 'Invalid webhook or token' });
+  }
+
+  // Spent before the body is checked, so malformed posts count too
+  const limit = takeToken('webhook', `hook:${webhook.id}`);
+  if (!limit.allowed) {
+    return tooManyRequests(res, limit.retryAfter!);
+  }
+
+  const body = validate(WebhookMessageRequest, req.body);
+  if (!body.success) {
+    return res.status(400).json(body.error);
+  }
+
+  const message = postWebhookMessage(webhook, body.data.content, body.data.format);
+  if (message) {
+    broadcastNewMessage(message);
+    res.json({ message });
+  } else {
+    res.status(500).json({ error: 'Failed to post message' });
+  }
+});
+
+// Stores an upload as an unsent attachment; send it by passing its id with a message
+app.post('/api/upload', authMiddleware, rateLimit('upload'), async (req, res) => {
+  const file = await receiveFile(upload, 'file', MAX_UPLOAD_BYTES, req, res);
+  if (!file) return;
+
+  const result = await storeUpload((req as any).userId, file.path, file.originalname, file.size);
+  if (result.success) {
+    res.json({ attachment: result.attachment });
+  } else {
+    res.status(result.status!).json({ error: result.error });
+  }
+});
+
+// Replaces the user's avatar with the uploaded image, cropped square
+app.put('/api/auth/avatar', authMiddleware, rateLimit('avatar'), async (req, res) => {
+  const userId = (req as any).userId;
+  const file = await receiveFile(avatarUpload, 'avatar', MAX_AVATAR_BYTES, req, res);
+  if (!file) return;
+
+  const result = await storeAvatar(userId, file.path);
+  if (result.success) {
+    res.json({ user: getUserById(userId, userId) });
+  } else {
+    res.status(result.status!).json({ error: result.error });
+  }
+});
+
+app.delete('/api/auth/avatar', authMiddleware, async (req, res) => {
+  const userId = (req as any).userId;
+  await removeAvatar(userId);
+  res.json({ user: getUserById(userId, userId) });
+});
+
+// Avatars are public, like usernames. A new avatar gets a new id, so each
+// URL's image never changes and can be cached for good.
+app.get('/api/avatars/:id', async (req, res) => {
+  const size = req.query.size === undefined ? 256 : Number(req.query.size);
+  if (!isAvatarId(req.params.id) || !AVATAR_SIZES.includes(size)) {
+    return res.status(404).json({ error: 'Avatar not found' });
+  }
+
+  try {
+    const file = await renderAvatar(req.params.id, size);
+    if (!file) {
+      return res.status(404).json({ error: 'Avatar not found' });
+    }
+    res.sendFile(file, {
+      headers: {
+        'Content-Type': 'image/webp',
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Avatar render error:', error);
+    res.status(500).json({ error: 'Failed to load avatar' });
+  }
+});
+
+// Thumbnails are fetched from public pages and each preview has its own, so
+// like avatars they're served without auth and cached for good
+app.get('/api/link-previews/:id/image', (req, res) => {
+  const file = isLinkPreviewId(req.params.id) && linkPreviewImageFile(req.params.id);
+  if (!file) {
+    return res.status(404).json({ error: 'Image not found' });
+  }
+  res.sendFile(file, {
+    headers: {
+      'Content-Type': 'image/webp',
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
   });
 });
 
+// Freshly signed URLs for an attachment, once the old ones have expired
+app.get('/api/attachments/:id', authMiddleware, (req, res) => {
+  const access = checkAttachmentAccess(req.params.id, (req as any).userId);
+  if (!access.allowed) {
+    return res.status(access.status!).json({ error: access.error });
+  }
+
+  const attachment = database.findAttachmentById(req.params.id);
+  res.json({ attachment: attachment && formatAttachment(attachment) });
+});
+
+// Serves stored files. There's no auth header on an <img> request, so the
+// signed URL is the credential; only members are ever handed one.
+app.get('/api/files/:id/:variant', (req, res) => {
+  const variant = req.params.variant as FileVariant;
+  if (!FILE_VARIANTS.includes(variant) || !verifyFileUrl(req.params.id, variant, req.query.expires, req.query.sig)) {
+    return res.status(403).json({ error: 'This link has expired or is invalid' });
+  }
+
+  const file = resolveFile(req.params.id, variant);
+  if (!file) {
+    return res.status(404).json({ error: 'File not found' });
+  }
+
+  const encodedName = encodeURIComponent(file.fileName);
+  res.sendFile(file.path, {
+    headers: {
+      'Content-Type': file.mimeType,
+      'Content-Disposition': `${file.inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodedName}`,
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, max-age=900',
+    },
+  }, (error) => {
+    if (error && !res.headersSent) {
+      res.status(404).json({ error: 'File not found' });
+    }
+  });
+});
+
+// express.json fails bodies that aren't JSON before any route sees them
+app.use((error: unknown, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (error instanceof SyntaxError && 'body' in error) {
+    return res.status(400).json({ code: 'invalid_json', error: 'Request body is not valid JSON', issues: [] });
+  }
+  next(error);
+});
+
 // WebSocket handling
 interface WSClient {
   ws: WebSocket;
@@ -213,113 +900,478 @@ interface WSClient {
   user: User;
 }
 
-function broadcast(userIds: string[], message: object) {
-  const payload = JSON.stringify(message);
-  for (const userId of userIds) {
-    const userClients = clients.get(userId);
-    if (userClients) {
-      for (const ws of userClients) {
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(payload);
-        }
+// Everything sent to users goes through pub/sub, and every server process
+// (this one included) delivers it to the sockets connected to it
+const EVENTS_CHANNEL = 'events';
+
+type ClusterEvent =
+  | { kind: 'event'; userIds: string[]; event: ServerEvent; live: boolean }
+  | { kind: 'close_sessions'; userId: string; sessionIds: string[] };
+
+function publish(clusterEvent: ClusterEvent) {
+  pubsub.publish(EVENTS_CHANNEL, JSON.stringify(clusterEvent));
+}
+
+// Sends an event to each user's sockets, stamped with that user's next
+// sequence number so a socket that misses it can have it replayed
+function broadcast(userIds: string[], message: ServerEvent) {
+  publish({ kind: 'event', userIds, event: message, live: false });
+}
+
+// For events that only mean something live, like typing indicators. They
+// aren't sequenced or replayed.
+function broadcastLive(userIds: string[], message: ServerEvent) {
+  publish({ kind: 'event', userIds, event: message, live: true });
+}
+
+// Sends an event to one socket only, unsequenced
+function sendEvent(ws: WebSocket, event: ServerEvent) {
+  ws.send(JSON.stringify(event));
+}
+
+// Disconnects the user's sockets that signed in with one of `sessionIds`
+function closeSessionSockets(userId: string, sessionIds: string[]) {
+  publish({ kind: 'close_sessions', userId, sessionIds });
+}
+
+pubsub.subscribe(EVENTS_CHANNEL, (raw) => {
+  const clusterEvent: ClusterEvent = JSON.parse(raw);
+
+  if (clusterEvent.kind === 'close_sessions') {
+    for (const ws of clients.get(clusterEvent.userId) || []) {
+      const sessionId = socketSessions.get(ws);
+      if (sessionId && clusterEvent.sessionIds.includes(sessionId)) {
+        ws.close(4001, 'Session revoked');
+      }
+    }
+    return;
+  }
+
+  for (const userId of clusterEvent.userIds) {
+    // Logged even with no socket here, in case the user reconnects to this process
+    const event = clusterEvent.live ? clusterEvent.event : recordEvent(userId, clusterEvent.event);
+    const payload = JSON.stringify(event);
+    for (const ws of clients.get(userId) || []) {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(payload);
       }
     }
   }
+});
+
+// Tells everyone the user shares a conversation with about a change to their
+// status, and the user's other devices about their own view of it
+function broadcastUserStatus(userId: string) {
+  const contactIds = new Set<string>();
+  for (const conv of getUserConversations(userId)) {
+    for (const member of conv.members) {
+      if (member.id !== userId) {
+        contactIds.add(member.id);
+      }
+    }
+  }
+  const user = getUserById(userId);
+  if (!user) return;
+
+  broadcast(Array.from(contactIds), { type: 'user_status', user });
+  broadcast([userId], { type: 'user_status', user: getUserById(userId, userId)! });
+}
+
+// Sends a group change's notices and each member's view of the updated
+// conversation, and tells users who are no longer members to drop it
+function broadcastGroupChange(change: GroupChange, removedUserIds: string[] = []) {
+  const conversationId = change.conversation.id;
+  const memberIds = getConversationMembers(conversationId);
+
+  for (const notice of change.notices) {
+    broadcast(memberIds, { type: 'new_message', message: notice });
+  }
+  for (const memberId of memberIds) {
+    const conversation = getConversation(conversationId, memberId);
+    if (conversation) {
+      broadcast([memberId], { type: 'conversation_updated', conversation });
+    }
+  }
+  broadcast(removedUserIds, { type: 'conversation_removed', conversationId });
+}
+
+// Sends a newly sent message to the conversation's members, with mention
+// events for whoever it mentions and an update to its thread root if it's a
+// reply. Link previews follow in a message_updated once fetched.
+function broadcastNewMessage(msg: Message) {
+  const memberIds = getConversationMembers(msg.conversationId);
+  broadcast(memberIds, { type: 'new_message', message: msg });
+
+  const mentionedIds = getMentionedUserIds(msg);
+  if (mentionedIds.length > 0) {
+    broadcast(mentionedIds, { type: 'mention', message: msg });
+  }
+
+  const root = msg.threadRootId && getMessage(msg.threadRootId);
+  if (root) {
+    broadcast(memberIds, { type: 'thread_updated', conversationId: msg.conversationId, root });
+  }
+
+  unfurlMessageLinks(msg.id)
+    .then((added) => {
+      const updated = added && getMessage(msg.id);
+      if (updated) broadcast(memberIds, { type: 'message_updated', message: updated });
+    })
+    .catch(error => console.error('Link unfurl error:', error));
+}
+
+// Sends an edit to the conversation's members, and a mention to anyone it
+// newly mentions
+function broadcastMessageEdited({ message, newMentionIds }: EditedMessage) {
+  broadcast(getConversationMembers(message.conversationId), { type: 'message_updated', message });
+  if (newMentionIds.length > 0) {
+    broadcast(newMentionIds, { type: 'mention', message });
+  }
+}
+
+// Sends a deletion to the conversation's members, with an update to its
+// thread root if it was a reply
+function broadcastMessageDeleted(message: Message) {
+  const memberIds = getConversationMembers(message.conversationId);
+  broadcast(memberIds, {
+    type: 'message_deleted',
+    conversationId: message.conversationId,
+    messageId: message.id,
+    message,
+  });
+
+  const root = message.threadRootId && getMessage(message.threadRootId);
+  if (root) {
+    broadcast(memberIds, { type: 'thread_updated', conversationId: message.conversationId, root });
+  }
+}
+
+function handleReaction(conversationId: string, messageId: string, userId: string, emoji: string, reacted: boolean) {
+  if (setReaction(messageId, userId, emoji, reacted)) {
+    broadcast(getConversationMembers(conversationId), {
+      type: reacted ? 'reaction_added' : 'reaction_removed',
+      conversationId,
+      messageId,
+      emoji,
+      userId,
+    });
+  }
+}
+
+function handleMarkRead(conversationId: string, userId: string, messageId: string) {
+  const receipt = markConversationRead(conversationId, userId, messageId);
+  if (receipt) {
+    broadcast(getConversationMembers(conversationId), { type: 'read_receipt', ...receipt });
+  }
+}
+
+// The rate limit each frame type counts against. Frames not listed here
+// aren't limited.
+const FRAME_RATE_LIMITS = new Map<string, RateLimitName>([
+  ['auth', 'auth'],
+  ['message', 'message'],
+  ['edit_message', 'edit_message'],
+  ['delete_message', 'delete_message'],
+  ['add_reaction', 'reaction'],
+  ['remove_reaction', 'reaction'],
+  ['mark_read', 'mark_read'],
+  ['typing', 'typing'],
+  ['idle', 'idle'],
+]);
+// Closing a socket that keeps exceeding its limits
+const POLICY_VIOLATION_CLOSE_CODE = 1008;
+
+let nextSocketNumber = 0;
+
+// A field of a frame that may not have validated, if it's a string
+function frameString(frame: unknown, key: string): string | undefined {
+  if (typeof frame !== 'object' || frame === null) return undefined;
+  const value = (frame as Record<string, unknown>)[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+// The ids a frame carried, echoed in errors so the client can tell which of
+// its messages failed
+function frameIds(frame: unknown): { conversationId?: string; messageId?: string; clientMessageId?: string } {
+  const ids: { conversationId?: string; messageId?: string; clientMessageId?: string } = {};
+  for (const key of ['conversationId', 'messageId', 'clientMessageId'] as const) {
+    const value = frameString(frame, key);
+    if (value !== undefined) {
+      ids[key] = value;
+    }
+  }
+  return ids;
 }
 
 wss.on('connection', (ws, req) => {
   let authenticated = false;
   let currentUserId: string | null = null;
+  // Limits key on the user once signed in, and on this socket before that
+  const socketKey = `socket:${nextSocketNumber++}`;
+  const countViolation = createViolationCounter();
 
   ws.on('message', (data) => {
+    let frame: unknown;
     try {
-      const message = JSON.parse(data.toString());
+      frame = JSON.parse(data.toString());
+    } catch {
+      sendEvent(ws, { type: 'error', code: 'invalid_json', error: 'Frames must be JSON' });
+      return;
+    }
+
+    try {
+      const limitName = FRAME_RATE_LIMITS.get(frameString(frame, 'type') ?? '');
+      const limit = limitName && takeToken(limitName, currentUserId ? `user:${currentUserId}` : socketKey);
+      if (limit && !limit.allowed) {
+        sendEvent(ws, {
+          type: 'error',
+          code: 'rate_limited',
+          error: 'Too many requests, slow down',
+          retryAfter: limit.retryAfter,
+          ...frameIds(frame),
+        });
+        if (countViolation()) {
+          ws.close(POLICY_VIOLATION_CLOSE_CODE, 'Rate limit exceeded');
+        }
+        return;
+      }
+
+      const parsed = validate(ClientFrame, frame, 'invalid_frame');
+      if (!parsed.success) {
+        sendEvent(ws, { type: 'error', ...parsed.error, ...frameIds(frame) });
+        return;
+      }
+      const message = parsed.data;
 
       switch (message.type) {
         case 'auth': {
-          const { valid, userId } = verifyToken(message.token);
-          if (valid && userId) {
+          // A socket signs in once; doing it again would register it twice
+          // and count it twice toward the user's presence
+          if (authenticated) {
+            sendEvent(ws, { type: 'error', error: 'Already authenticated' });
+            return;
+          }
+
+          const { valid, userId, sessionId } = verifyToken(message.token);
+          if (valid && userId && sessionId) {
             authenticated = true;
             currentUserId = userId;
+            socketSessions.set(ws, sessionId);
             
             // Add to clients map
             const userClients = clients.get(userId) || [];
             userClients.push(ws);
             clients.set(userId, userClients);
 
-            // Update user status
-            updateUserStatus(userId, 'online');
-
-            const user = getUserById(userId);
-            ws.send(JSON.stringify({ type: 'auth_success', user }));
-
-            // Notify friends about online status
-            const conversations = getUserConversations(userId);
-            const friendIds = new Set<string>();
-            for (const conv of conversations) {
-              for (const member of conv.members) {
-                if (member.id !== userId) {
-                  friendIds.add(member.id);
-                }
-              }
-            }
-            broadcast(Array.from(friendIds), {
-              type: 'user_status',
-              userId,
-              status: 'online'
+            const statusChanged = markConnected(userId);
+            pubsub.addConnection(userId).catch((error) => console.error('Presence error:', error));
+
+            // A reconnecting client says where it got up to; replay what it
+            // missed, or have it refetch everything if that's no longer possible
+            const { resume } = message;
+            const missed = resume ? eventsSince(userId, resume) : null;
+
+            sendEvent(ws, {
+              type: 'auth_success',
+              user: getUserById(userId, userId)!,
+              streamId,
+              latestSeq: currentSeq(userId),
+              resync: !!resume && !missed,
             });
+            for (const event of missed || []) {
+              ws.send(JSON.stringify(event));
+            }
+
+            if (statusChanged) {
+              broadcastUserStatus(userId);
+            }
           } else {
-            ws.send(JSON.stringify({ type: 'auth_error', error: 'Invalid token' }));
+            sendEvent(ws, { type: 'auth_error', error: 'Invalid token' });
           }
           break;
         }
 
         case 'message': {
           if (!authenticated || !currentUserId) {
-            ws.send(JSON.stringify({ type: 'error', error: 'Not authenticated' }));
+            sendEvent(ws, { type: 'error', error: 'Not authenticated' });
+            return;
+          }
+
+          const {
+            conversationId, content, format, attachmentId, replyToId, threadRootId, clientMessageId
+          } = message;
+          // Errors carry the clientMessageId so the sender can mark that message failed
+          const sendError = (error: string) =>
+            sendEvent(ws, { type: 'error', error, conversationId, clientMessageId: clientMessageId ?? undefined });
+
+          const access = checkConversationAccess(conversationId, currentUserId, 'post');
+          if (!access.allowed) {
+            sendError(access.error!);
+            return;
+          }
+
+          // A resend of something already stored is acknowledged again, not
+          // stored twice; the sender may have missed the original broadcast.
+          // It's checked like any post first, so a member who has since been
+          // removed gets an error rather than the message as it is now.
+          const existing = clientMessageId ? findSentMessage(currentUserId, clientMessageId) : null;
+          if (existing) {
+            sendEvent(ws, { type: 'new_message', message: existing });
+            sendEvent(ws, { type: 'message_ack', clientMessageId: clientMessageId!, message: existing });
+            return;
+          }
+
+          // The type follows from the attachment, so clients can't post system notices
+          if (attachmentId) {
+            const attachmentError = checkAttachmentUse(attachmentId, currentUserId);
+            if (attachmentError) {
+              sendError(attachmentError);
+              return;
+            }
+          }
+
+          const replyError = checkReplyTargets(conversationId, replyToId, threadRootId);
+          if (replyError) {
+            sendError(replyError);
             return;
           }
 
-          const { conversationId, content, messageType, fileUrl, fileName } = message;
           const msg = sendMessage(
             conversationId,
             currentUserId,
             content,
-            messageType || 'text',
-            fileUrl,
-            fileName
+            { format, attachmentId, replyToId, threadRootId, clientMessageId }
           );
 
           if (msg) {
-            // Broadcast to all conversation members
-            const memberIds = getConversationMembers(conversationId);
-            broadcast(memberIds, { type: 'new_message', message: msg });
+            broadcastNewMessage(msg);
+
+            // The ack carries the message: through a pub/sub adapter the
+            // broadcast can reach the sender after it
+            if (clientMessageId) {
+              sendEvent(ws, { type: 'message_ack', clientMessageId, message: msg });
+            }
+          } else {
+            sendError('Failed to send message');
           }
           break;
         }
 
+        case 'edit_message': {
+          if (!authenticated || !currentUserId) {
+            sendEvent(ws, { type: 'error', error: 'Not authenticated' });
+            return;
+          }
+
+          const { messageId, content } = message;
+          const access = checkMessageAccess(messageId, currentUserId, 'edit');
+          if (!access.allowed) {
+            sendEvent(ws, { type: 'error', error: access.error!, messageId });
+            return;
+          }
+
+          const edit = editMessage(messageId, content);
+          if (edit) {
+            broadcastMessageEdited(edit);
+          }
+          break;
+        }
+
+        case 'delete_message': {
+          if (!authenticated || !currentUserId) {
+            sendEvent(ws, { type: 'error', error: 'Not authenticated' });
+            return;
+          }
+
+          const { messageId } = message;
+          const access = checkMessageAccess(messageId, currentUserId, 'delete');
+          if (!access.allowed) {
+            sendEvent(ws, { type: 'error', error: access.error!, messageId });
+            return;
+          }
+
+          const msg = deleteMessage(messageId);
+          if (msg) {
+            broadcastMessageDeleted(msg);
+          }
+          break;
+        }
+
+        case 'add_reaction':
+        case 'remove_reaction': {
+          if (!authenticated || !currentUserId) {
+            sendEvent(ws, { type: 'error', error: 'Not authenticated' });
+            return;
+          }
+
+          const { messageId, emoji } = message;
+          const access = checkMessageAccess(messageId, currentUserId, 'react');
+          if (!access.allowed) {
+            sendEvent(ws, { type: 'error', error: access.error!, messageId });
+            return;
+          }
+
+          const msg = getMessage(messageId)!;
+          handleReaction(msg.conversationId, messageId, currentUserId, emoji, message.type === 'add_reaction');
+          break;
+        }
+
+        case 'mark_read': {
+          if (!authenticated || !currentUserId) {
+            sendEvent(ws, { type: 'error', error: 'Not authenticated' });
+            return;
+          }
+
+          const { conversationId, messageId } = message;
+          const access = checkConversationAccess(conversationId, currentUserId, 'read');
+          if (!access.allowed) {
+            sendEvent(ws, { type: 'error', error: access.error!, conversationId });
+            return;
+          }
+
+          handleMarkRead(conversationId, currentUserId, messageId);
+          break;
+        }
+
         case 'typing': {
           if (!authenticated || !currentUserId) return;
 
           const { conversationId, isTyping } = message;
+          const access = checkConversationAccess(conversationId, currentUserId, 'post');
+          if (!access.allowed) {
+            sendEvent(ws, { type: 'error', error: access.error!, conversationId });
+            return;
+          }
+
           const user = getUserById(currentUserId);
           const memberIds = getConversationMembers(conversationId);
           
-          broadcast(
+          broadcastLive(
             memberIds.filter(id => id !== currentUserId),
             {
               type: 'typing',
               conversationId,
               userId: currentUserId,
-              userName: user?.displayName,
+              userName: user?.displayName || 'Unknown',
               isTyping
             }
           );
           break;
         }
 
+        // The client reports when its user goes idle or comes back, so
+        // automatic 'online' can show as 'away' in between
+        case 'idle': {
+          if (!authenticated || !currentUserId) return;
+
+          if (markIdle(currentUserId, message.idle)) {
+            broadcastUserStatus(currentUserId);
+          }
+          break;
+        }
+
         case 'ping': {
-          ws.send(JSON.stringify({ type: 'pong' }));
+          sendEvent(ws, { type: 'pong' });
           break;
         }
       }
@@ -339,27 +1391,20 @@ wss.on('connection', (ws, req) => {
         }
         if (userClients.length === 0) {
           clients.delete(currentUserId);
-          updateUserStatus(currentUserId, 'offline');
-
-          // Notify friends about offline status
-          const conversations = getUserConversations(currentUserId);
-          const friendIds = new Set<string>();
-          for (const conv of conversations) {
-            for (const member of conv.members) {
-              if (member.id !== currentUserId) {
-                friendIds.add(member.id);
-              }
-            }
-          }
-          broadcast(Array.from(friendIds), {
-            type: 'user_status',
-            userId: currentUserId,
-            status: 'offline'
-          });
         } else {
           clients.set(currentUserId, userClients);
         }
       }
+
+      // Only offline once the user's last connection on any process is gone
+      const userId = currentUserId;
+      pubsub.removeConnection(userId)
+        .then((remaining) => {
+          if (remaining === 0 && markDisconnected(userId)) {
+            broadcastUserStatus(userId);
+          }
+        })
+        .catch((error) => console.error('Presence error:', error));
     }
   });
 
@@ -368,8 +1413,33 @@ wss.on('connection', (ws, req) => {
   });
 });
 
+// A process that stops without closing its sockets leaves their users'
+// statuses saved as connected. Before accepting connections, anyone not
+// connected to another process is marked offline as if they'd left.
+async function resetStaleStatuses() {
+  for (const user of database.getUsersNotOffline()) {
+    if ((await pubsub.countConnections(user.id)) === 0 && markDisconnected(user.id)) {
+      broadcastUserStatus(user.id);
+    }
+  }
+}
+
 const PORT = process.env.PORT || 3001;
-server.listen(PORT, () => {
-  console.log(`🚀 ChatterBox server running on http://localhost:${PORT}`);
-  console.log(`📡 WebSocket server ready`);
-});
+resetStaleStatuses()
+  .catch((error) => console.error('Presence error:', error))
+  .then(() => {
+    server.listen(PORT, () => {
+      console.log(`🚀 ChatterBox server running on http://localhost:${PORT}`);
+      console.log(`📡 WebSocket server ready`);
+    });
+  });
+
+function shutdown() {
+  server.close();
+  pubsub.close();
+  database.close();
+  process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
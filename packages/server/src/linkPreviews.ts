@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { markdownLinks, LinkPreview } from '@chatterbox/shared';
+import database, { LinkPreview as StoredLinkPreview, Message as StoredMessage } from './database';
+import { storageConfig } from './storage/config';
+import { createUnfurler } from './unfurl';
+
+// Only the first few links in a message get a card
+export const MAX_PREVIEWS_PER_MESSAGE = 3;
+
+const { linkPreviewsDir } = storageConfig;
+
+if (!fs.existsSync(linkPreviewsDir)) {
+  fs.mkdirSync(linkPreviewsDir, { recursive: true });
+}
+
+const unfurler = createUnfurler({
+  allowPrivateNetworks: process.env.UNFURL_ALLOW_PRIVATE_NETWORKS === 'true',
+});
+
+// Plain messages have no link syntax, so bare URLs are picked out of the text
+const BARE_URL = /\bhttps?:\/\/[^\s<>"']+[^\s<>"'.,;:!?)\]]/g;
+
+function messageLinks(content: string, format: StoredMessage['format']): string[] {
+  const links = format === 'markdown' ? markdownLinks(content) : Array.from(content.matchAll(BARE_URL), m => m[0]);
+  // mailto links have nothing to unfurl
+  return Array.from(new Set(links.filter(link => /^https?:/i.test(link)))).slice(0, MAX_PREVIEWS_PER_MESSAGE);
+}
+
+// Where the API serves a preview's thumbnail
+export function linkPreviewImagePath(previewId: string): string {
+  return `/api/link-previews/${previewId}/image`;
+}
+
+export function isLinkPreviewId(value: string): boolean {
+  return /^[0-9a-f-]{36}$/.test(value);
+}
+
+// A preview's thumbnail is `<id>.webp`; null if it has none
+export function linkPreviewImageFile(previewId: string): string | null {
+  const file = path.join(linkPreviewsDir, `${previewId}.webp`);
+  return fs.existsSync(file) ? file : null;
+}
+
+export function formatLinkPreview(preview: StoredLinkPreview): LinkPreview {
+  return {
+    id: preview.id,
+    url: preview.url,
+    title: preview.title,
+    description: preview.description,
+    siteName: preview.siteName,
+    imageUrl: preview.imageKey ? linkPreviewImagePath(preview.id) : null,
+  };
+}
+
+// Unfurls the links in a message's content and attaches what was found.
+// Resolves to whether any previews were added, so the caller knows to
+// broadcast the updated message.
+export async function unfurlMessageLinks(messageId: string): Promise<boolean> {
+  const msg = database.findMessageById(messageId);
+  if (!msg?.content || msg.deletedAt) return false;
+
+  const links = messageLinks(msg.content, msg.format);
+  if (links.length === 0) return false;
+
+  const results = await Promise.all(links.map(link => unfurler.unfurl(link)));
+
+  // The message may have been deleted while the links were being fetched
+  const current = database.findMessageById(messageId);
+  if (!current || current.deletedAt) return false;
+
+  let added = 0;
+  for (const [position, result] of results.entries()) {
+    if (!result) continue;
+
+    const id = uuidv4();
+    let imageKey: string | null = null;
+    if (result.thumbnail) {
+      imageKey = `${id}.webp`;
+      await fs.promises.writeFile(path.join(linkPreviewsDir, imageKey), result.thumbnail);
+    }
+
+    database.createLinkPreview({
+      id,
+      messageId,
+      // The link as written, so the card opens what the sender linked
+      url: links[position],
+      position,
+      title: result.title,
+      description: result.description,
+      siteName: result.siteName,
+      imageKey,
+      createdAt: new Date().toISOString(),
+    });
+    added++;
+  }
+
+  return added > 0;
+}
+
+async function removePreview(preview: StoredLinkPreview): Promise<void> {
+  database.deleteLinkPreview(preview.id);
+  if (preview.imageKey) {
+    await fs.promises.rm(path.join(linkPreviewsDir, preview.imageKey), { force: true });
+  }
+}
+
+// Removes one of a message's previews for everyone. False if the message
+// has no such preview.
+export async function removeLinkPreview(messageId: string, previewId: string): Promise<boolean> {
+  const preview = database.getLinkPreviews([messageId]).find(p => p.id === previewId);
+  if (!preview) return false;
+
+  await removePreview(preview);
+  return true;
+}
+
+export async function deleteMessageLinkPreviews(messageId: string): Promise<void> {
+  await Promise.all(database.getLinkPreviews([messageId]).map(removePreview));
+}
@@ -0,0 +1,68 @@
+// Schema migration CLI.
+//
+//   npm run migrate              apply pending migrations
+//   npm run migrate -- --dry-run list pending migrations without touching data
+//
+// The server applies pending migrations on startup as well; this is for
+// checking what an upgrade will do before deploying it.
+import fs from 'fs';
+import { storageConfig, ensureDataDir } from './storage/config';
+import { MigrationTarget, LATEST_SCHEMA_VERSION, getPendingMigrations, runMigrations } from './storage/migrations';
+import { openJsonMigrationTarget } from './storage/jsonStorage';
+import { openSqliteMigrationTarget } from './storage/sqliteStorage';
+
+function openTarget(): MigrationTarget & { close?(): void } {
+  return storageConfig.backend === 'sqlite'
+    ? openSqliteMigrationTarget(storageConfig.filePath)
+    : openJsonMigrationTarget(storageConfig.filePath);
+}
+
+function main(): void {
+  const dryRun = process.argv.includes('--dry-run');
+  const { backend, filePath } = storageConfig;
+
+  console.log(`Storage: ${backend} (${filePath})`);
+
+  // Creating the database here would stop the server from importing the JSON data
+  if (!fs.existsSync(filePath) && backend === 'sqlite' && fs.existsSync(storageConfig.jsonImportPath)) {
+    console.log(`No database yet; ${storageConfig.jsonImportPath} will be imported into it on first start.`);
+    return;
+  }
+
+  if (!fs.existsSync(filePath)) {
+    console.log(`No data file yet; all migrations up to v${LATEST_SCHEMA_VERSION} will run on first start.`);
+    if (dryRun) return;
+    ensureDataDir();
+  }
+
+  const target = openTarget();
+  try {
+    const pending = getPendingMigrations(target);
+    console.log(`Schema version: ${target.readVersion()} (latest: ${LATEST_SCHEMA_VERSION})`);
+
+    if (pending.length === 0) {
+      console.log('Up to date.');
+      return;
+    }
+
+    if (dryRun) {
+      console.log(`${pending.length} pending migration(s):`);
+      for (const migration of pending) {
+        console.log(`  v${migration.version}: ${migration.name}`);
+      }
+      return;
+    }
+
+    const applied = runMigrations(target);
+    console.log(`✅ Applied ${applied.length} migration(s).`);
+  } finally {
+    target.close?.();
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
@@ -0,0 +1,157 @@
+import database, { ConversationMember } from './database';
+
+// 'update' covers the group's name and avatar
+export type ConversationAction = 'read' | 'post' | 'add_member' | 'update' | 'manage_webhooks' | 'leave';
+
+export interface AccessResult {
+  allowed: boolean;
+  status?: 403 | 404;
+  error?: string;
+}
+
+function isGroupAdmin(member: ConversationMember | undefined): boolean {
+  return member?.role === 'owner' || member?.role === 'admin';
+}
+
+// The single place that decides whether a user may act on a conversation.
+// Used by the HTTP routes and the WebSocket event handlers alike. Changing a
+// group takes an owner or admin; any member may read, post and leave.
+export function checkConversationAccess(
+  conversationId: string,
+  userId: string,
+  action: ConversationAction
+): AccessResult {
+  const conversation = database.findConversationById(conversationId);
+  if (!conversation) {
+    return { allowed: false, status: 404, error: 'Conversation not found' };
+  }
+
+  const member = database.findConversationMember(conversationId, userId);
+  if (!member) {
+    return { allowed: false, status: 403, error: 'You are not a member of this conversation' };
+  }
+
+  if (action === 'read' || action === 'post') {
+    return { allowed: true };
+  }
+
+  if (!conversation.isGroup) {
+    return { allowed: false, status: 403, error: 'Only group conversations can be changed' };
+  }
+
+  if (action !== 'leave' && !isGroupAdmin(member)) {
+    return { allowed: false, status: 403, error: 'Only group owners and admins can do that' };
+  }
+
+  return { allowed: true };
+}
+
+export type MemberAction = 'remove' | 'change_role';
+
+// Owners may remove anyone and make members admins or demote them; admins
+// may only remove plain members. Nobody acts on themselves this way (they
+// leave instead) and the owner can't be removed or demoted.
+export function checkMemberAccess(
+  conversationId: string,
+  userId: string,
+  targetUserId: string,
+  action: MemberAction
+): AccessResult {
+  const access = checkConversationAccess(conversationId, userId, 'update');
+  if (!access.allowed) return access;
+
+  const target = database.findConversationMember(conversationId, targetUserId);
+  if (!target) {
+    return { allowed: false, status: 404, error: 'Member not found' };
+  }
+  if (target.userId === userId) {
+    return { allowed: false, status: 403, error: 'You cannot do that to yourself' };
+  }
+  if (target.role === 'owner') {
+    return { allowed: false, status: 403, error: 'The group owner cannot be removed or demoted' };
+  }
+
+  const actor = database.findConversationMember(conversationId, userId);
+  if (actor?.role === 'owner' || (action === 'remove' && target.role === 'member')) {
+    return { allowed: true };
+  }
+
+  return {
+    allowed: false,
+    status: 403,
+    error: action === 'remove'
+      ? 'Only the group owner can remove admins'
+      : 'Only the group owner can change roles',
+  };
+}
+
+export type MessageAction = 'edit' | 'delete' | 'react';
+
+// Any member may react to a message. Senders may edit and delete their own
+// messages; group owners and admins may also delete anyone's. Pass
+// conversationId when the request names one so a message from another
+// conversation is treated as not found.
+export function checkMessageAccess(
+  messageId: string,
+  userId: string,
+  action: MessageAction,
+  conversationId?: string
+): AccessResult {
+  const message = database.findMessageById(messageId);
+  if (!message || (conversationId && message.conversationId !== conversationId)) {
+    return { allowed: false, status: 404, error: 'Message not found' };
+  }
+
+  const access = checkConversationAccess(message.conversationId, userId, 'read');
+  if (!access.allowed) return access;
+
+  if (message.deletedAt) {
+    return { allowed: false, status: 404, error: 'Message has been deleted' };
+  }
+
+  if (action === 'react') {
+    return { allowed: true };
+  }
+
+  // Anyone may react to a notice, but it isn't anyone's to edit or delete
+  if (message.type === 'system') {
+    return { allowed: false, status: 403, error: 'System messages cannot be changed' };
+  }
+
+  if (message.senderId === userId) {
+    return { allowed: true };
+  }
+
+  if (action === 'delete') {
+    const conversation = database.findConversationById(message.conversationId);
+    const member = database.findConversationMember(message.conversationId, userId);
+    if (conversation?.isGroup && isGroupAdmin(member)) {
+      return { allowed: true };
+    }
+  }
+
+  return {
+    allowed: false,
+    status: 403,
+    error: action === 'edit'
+      ? 'You can only edit your own messages'
+      : 'You can only delete your own messages',
+  };
+}
+
+// Sent attachments are visible to the conversation's members; unsent
+// uploads only to their uploader
+export function checkAttachmentAccess(attachmentId: string, userId: string): AccessResult {
+  const attachment = database.findAttachmentById(attachmentId);
+  if (!attachment) {
+    return { allowed: false, status: 404, error: 'Attachment not found' };
+  }
+
+  if (!attachment.conversationId) {
+    return attachment.uploaderId === userId
+      ? { allowed: true }
+      : { allowed: false, status: 404, error: 'Attachment not found' };
+  }
+
+  return checkConversationAccess(attachment.conversationId, userId, 'read');
+}
@@ -0,0 +1,83 @@
+import database, { PresenceSetting, UserStatus } from './database';
+
+export interface CustomStatusInput {
+  text: string | null;
+  emoji: string | null;
+  expiresAt: string | null;
+}
+
+export interface PresenceUpdates {
+  presence?: PresenceSetting;
+  // null clears the custom status
+  customStatus?: CustomStatusInput | null;
+}
+
+// A connected user's status: their setting, except that automatic 'online'
+// shows as 'away' while their client reports them idle
+function resolveStatus(presence: PresenceSetting, idle: boolean): UserStatus {
+  return presence === 'online' && idle ? 'away' : presence;
+}
+
+// The mark* functions return whether the status changed, so callers know
+// whether to tell anyone
+
+export function markConnected(userId: string): boolean {
+  const user = database.findUserById(userId);
+  if (!user) return false;
+
+  const previous = user.status;
+  const status = resolveStatus(user.presence, false);
+  database.updateUser(userId, { status });
+  return status !== previous;
+}
+
+export function markIdle(userId: string, idle: boolean): boolean {
+  const user = database.findUserById(userId);
+  if (!user || user.status === 'offline') return false;
+
+  const previous = user.status;
+  const status = resolveStatus(user.presence, idle);
+  database.updateUser(userId, { status });
+  return status !== previous;
+}
+
+// Called once the user's last connection anywhere has closed. Invisible
+// users don't move their last-seen time, or it would give them away.
+export function markDisconnected(userId: string): boolean {
+  const user = database.findUserById(userId);
+  if (!user || user.status === 'offline') return false;
+
+  database.updateUser(userId, {
+    status: 'offline',
+    ...(user.status !== 'invisible' && { lastSeenAt: new Date().toISOString() }),
+  });
+  return true;
+}
+
+export function updatePresence(userId: string, updates: PresenceUpdates): boolean {
+  const user = database.findUserById(userId);
+  if (!user) return false;
+
+  if (updates.presence !== undefined) {
+    const connected = user.status !== 'offline';
+    // Idle is only tracked implicitly, as automatic 'online' showing 'away'
+    const idle = user.presence === 'online' && user.status === 'away';
+    const status = connected ? resolveStatus(updates.presence, idle) : 'offline';
+    database.updateUser(userId, {
+      presence: updates.presence,
+      status,
+      // Going invisible looks like leaving to everyone else
+      ...(connected && status === 'invisible' && user.status !== 'invisible' && { lastSeenAt: new Date().toISOString() }),
+    });
+  }
+
+  if (updates.customStatus !== undefined) {
+    database.updateUser(userId, {
+      statusText: updates.customStatus?.text || null,
+      statusEmoji: updates.customStatus?.emoji || null,
+      statusExpiresAt: updates.customStatus?.expiresAt || null,
+    });
+  }
+
+  return true;
+}
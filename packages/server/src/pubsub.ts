@@ -0,0 +1,16 @@
+import { PubSubAdapter } from './pubsub/types';
+import { pubsubConfig } from './pubsub/config';
+import { createMemoryPubSub } from './pubsub/memoryPubSub';
+import { createRedisPubSub } from './pubsub/redisPubSub';
+
+export type { PubSubAdapter } from './pubsub/types';
+
+function createPubSub(): PubSubAdapter {
+  return pubsubConfig.adapter === 'redis'
+    ? createRedisPubSub(pubsubConfig.redisUrl, pubsubConfig.keyPrefix)
+    : createMemoryPubSub();
+}
+
+export const pubsub: PubSubAdapter = createPubSub();
+
+export default pubsub;
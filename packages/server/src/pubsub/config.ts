@@ -0,0 +1,18 @@
+export type PubSubAdapterName = 'memory' | 'redis';
+
+// PUBSUB_ADAPTER selects how events fan out: 'memory' (default) for a single
+// server process, or 'redis' to share events and presence between processes
+// through the server at REDIS_URL.
+const adapter = process.env.PUBSUB_ADAPTER || 'memory';
+
+if (adapter !== 'memory' && adapter !== 'redis') {
+  throw new Error(`Unknown PUBSUB_ADAPTER "${adapter}" (expected "memory" or "redis")`);
+}
+
+export const pubsubConfig = {
+  adapter: adapter as PubSubAdapterName,
+  redisUrl: process.env.REDIS_URL || 'redis://127.0.0.1:6379',
+  // Redis only: prefix for channels and presence keys, so several
+  // deployments can share one Redis
+  keyPrefix: process.env.REDIS_KEY_PREFIX || 'chatterbox:',
+};
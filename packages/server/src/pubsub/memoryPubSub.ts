@@ -0,0 +1,43 @@
+import { PubSubAdapter } from './types';
+
+// Everything stays in this process; the default when running one server
+export function createMemoryPubSub(): PubSubAdapter {
+  const handlers = new Map<string, ((message: string) => void)[]>();
+  const connections = new Map<string, number>();
+
+  return {
+    publish(channel: string, message: string): void {
+      for (const handler of handlers.get(channel) || []) {
+        handler(message);
+      }
+    },
+
+    subscribe(channel: string, handler: (message: string) => void): void {
+      handlers.set(channel, [...(handlers.get(channel) || []), handler]);
+    },
+
+    async addConnection(userId: string): Promise<number> {
+      const count = (connections.get(userId) || 0) + 1;
+      connections.set(userId, count);
+      return count;
+    },
+
+    async removeConnection(userId: string): Promise<number> {
+      const count = Math.max(0, (connections.get(userId) || 0) - 1);
+      if (count === 0) {
+        connections.delete(userId);
+      } else {
+        connections.set(userId, count);
+      }
+      return count;
+    },
+
+    async countConnections(userId: string): Promise<number> {
+      return connections.get(userId) || 0;
+    },
+
+    close(): void {
+      handlers.clear();
+    },
+  };
+}
@@ -0,0 +1,108 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PubSubAdapter } from './types';
+import { createRespConnection, RespValue } from './resp';
+
+// How long a process counts as alive after its last heartbeat. Connection
+// counts left behind by a process that died are ignored once it expires.
+const NODE_TTL_MS = 30000;
+const HEARTBEAT_INTERVAL_MS = 10000;
+
+function logError(error: Error) {
+  console.error('Redis pub/sub error:', error.message);
+}
+
+// Default to the timings above
+export interface RedisPubSubOptions {
+  nodeTtlMs?: number;
+  heartbeatIntervalMs?: number;
+}
+
+// Shares events and presence between server processes through Redis.
+// Presence is a hash per user of connection counts per process.
+export function createRedisPubSub(url: string, keyPrefix: string, options: RedisPubSubOptions = {}): PubSubAdapter {
+  const { nodeTtlMs = NODE_TTL_MS, heartbeatIntervalMs = HEARTBEAT_INTERVAL_MS } = options;
+  const nodeId = uuidv4();
+  const handlers = new Map<string, ((message: string) => void)[]>();
+
+  const channelKey = (channel: string) => `${keyPrefix}events:${channel}`;
+  const nodeKey = (id: string) => `${keyPrefix}node:${id}`;
+  const presenceKey = (userId: string) => `${keyPrefix}presence:${userId}`;
+
+  // A subscribed connection can't run other commands, so there are two
+  const subscriber = createRespConnection(url, {
+    onMessage(channel, message) {
+      const name = channel.slice(channelKey('').length);
+      for (const handler of handlers.get(name) || []) {
+        handler(message);
+      }
+    },
+    onConnect(connection) {
+      for (const channel of handlers.keys()) {
+        connection.command('SUBSCRIBE', channelKey(channel)).catch(logError);
+      }
+    },
+  });
+
+  const commands = createRespConnection(url, {
+    onConnect(connection) {
+      connection.command('SET', nodeKey(nodeId), '1', 'PX', String(nodeTtlMs)).catch(logError);
+    },
+  });
+
+  const heartbeat = setInterval(() => {
+    commands.command('SET', nodeKey(nodeId), '1', 'PX', String(nodeTtlMs)).catch(logError);
+  }, heartbeatIntervalMs);
+
+  // Sums the user's connections on live processes, dropping entries for
+  // processes that have stopped heartbeating
+  async function countConnections(userId: string): Promise<number> {
+    const fields = (await commands.command('HGETALL', presenceKey(userId))) as string[];
+    if (fields.length === 0) return 0;
+
+    const nodes: string[] = [];
+    const counts: number[] = [];
+    for (let i = 0; i < fields.length; i += 2) {
+      nodes.push(fields[i]);
+      counts.push(Number(fields[i + 1]));
+    }
+
+    const alive = (await commands.command('MGET', ...nodes.map(nodeKey))) as RespValue[];
+    const dead = nodes.filter((_, i) => alive[i] === null);
+    if (dead.length > 0) {
+      await commands.command('HDEL', presenceKey(userId), ...dead);
+    }
+    return counts.reduce((total, count, i) => (alive[i] === null ? total : total + count), 0);
+  }
+
+  return {
+    publish(channel: string, message: string): void {
+      commands.command('PUBLISH', channelKey(channel), message).catch(logError);
+    },
+
+    subscribe(channel: string, handler: (message: string) => void): void {
+      if (!handlers.has(channel)) {
+        subscriber.command('SUBSCRIBE', channelKey(channel)).catch(logError);
+      }
+      handlers.set(channel, [...(handlers.get(channel) || []), handler]);
+    },
+
+    async addConnection(userId: string): Promise<number> {
+      await commands.command('HINCRBY', presenceKey(userId), nodeId, '1');
+      return countConnections(userId);
+    },
+
+    async removeConnection(userId: string): Promise<number> {
+      await commands.command('HINCRBY', presenceKey(userId), nodeId, '-1');
+      return countConnections(userId);
+    },
+
+    countConnections,
+
+    close(): void {
+      clearInterval(heartbeat);
+      commands.command('DEL', nodeKey(nodeId)).catch(logError);
+      commands.close();
+      subscriber.close();
+    },
+  };
+}
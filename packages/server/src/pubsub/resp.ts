@@ -0,0 +1,167 @@
+import net from 'net';
+
+// A minimal client for the Redis wire protocol (RESP2): enough for plain
+// commands and pub/sub without depending on a driver.
+
+const RECONNECT_DELAY_MS = 1000;
+
+export type RespValue = string | number | null | RespValue[];
+
+export interface RespConnection {
+  // Resolves with the reply, or rejects with the error Redis sent back
+  command(...args: string[]): Promise<RespValue>;
+  close(): void;
+}
+
+export interface RespConnectionOptions {
+  // Receives pub/sub messages. Only for connections that subscribe; once
+  // subscribed, Redis accepts nothing but (un)subscribe commands on them.
+  onMessage?: (channel: string, message: string) => void;
+  // Runs after every (re)connect, e.g. to subscribe again
+  onConnect?: (connection: RespConnection) => void;
+}
+
+interface Parsed {
+  value: RespValue | Error;
+  next: number;
+}
+
+// Parses the reply starting at `offset`, or returns undefined if the buffer
+// doesn't hold all of it yet
+function parseReply(buffer: Buffer, offset: number): Parsed | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return undefined;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf-8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, next };
+    case '-':
+      return { value: new Error(line), next };
+    case ':':
+      return { value: Number(line), next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, next };
+      if (buffer.length < next + length + 2) return undefined;
+      return { value: buffer.toString('utf-8', next, next + length), next: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, next };
+      const items: RespValue[] = [];
+      let itemOffset = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, itemOffset);
+        if (!item) return undefined;
+        items.push(item.value instanceof Error ? null : item.value);
+        itemOffset = item.next;
+      }
+      return { value: items, next: itemOffset };
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type "${type}"`);
+  }
+}
+
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n` + args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('');
+}
+
+// Connects to a redis:// URL, authenticating and selecting the database it
+// names. Reconnects on its own until closed; commands sent while the
+// connection is down are rejected.
+export function createRespConnection(url: string, options: RespConnectionOptions = {}): RespConnection {
+  const { hostname, port, username, password, pathname } = new URL(url);
+  const dbIndex = pathname.slice(1);
+
+  let socket: net.Socket;
+  let buffer = Buffer.alloc(0);
+  let waiting: { resolve(value: RespValue): void; reject(error: Error): void }[] = [];
+  let closed = false;
+
+  function handleReply(reply: RespValue | Error) {
+    if (options.onMessage && Array.isArray(reply) && reply[0] === 'message') {
+      options.onMessage(String(reply[1]), String(reply[2]));
+      return;
+    }
+
+    const waiter = waiting.shift();
+    if (reply instanceof Error) {
+      waiter ? waiter.reject(reply) : console.error('Redis error:', reply.message);
+    } else {
+      waiter?.resolve(reply);
+    }
+  }
+
+  function handleData(chunk: Buffer) {
+    buffer = Buffer.concat([buffer, chunk]);
+    let offset = 0;
+    try {
+      for (let parsed = parseReply(buffer, offset); parsed; parsed = parseReply(buffer, offset)) {
+        offset = parsed.next;
+        handleReply(parsed.value);
+      }
+    } catch (error) {
+      console.error('Redis protocol error:', error);
+      socket.destroy();
+      return;
+    }
+    buffer = buffer.subarray(offset);
+  }
+
+  const connection: RespConnection = {
+    command(...args: string[]): Promise<RespValue> {
+      return new Promise((resolve, reject) => {
+        if (closed || socket.destroyed) {
+          reject(new Error('Redis connection is down'));
+          return;
+        }
+        waiting.push({ resolve, reject });
+        socket.write(encodeCommand(args));
+      });
+    },
+
+    close(): void {
+      closed = true;
+      socket.end();
+    },
+  };
+
+  function logSetupError(error: Error) {
+    console.error('Redis connection setup failed:', error.message);
+  }
+
+  function connect() {
+    buffer = Buffer.alloc(0);
+    socket = net.createConnection({ host: hostname, port: Number(port) || 6379 });
+    socket.on('data', handleData);
+    socket.on('error', (error) => console.error('Redis connection error:', error.message));
+    socket.on('close', () => {
+      const failed = waiting;
+      waiting = [];
+      for (const waiter of failed) {
+        waiter.reject(new Error('Redis connection closed'));
+      }
+      if (!closed) {
+        setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    });
+
+    // Writes queue up until the socket connects, so these go out first
+    if (password) {
+      const credentials = username ? [decodeURIComponent(username), decodeURIComponent(password)] : [decodeURIComponent(password)];
+      connection.command('AUTH', ...credentials).catch(logSetupError);
+    }
+    if (dbIndex) {
+      connection.command('SELECT', dbIndex).catch(logSetupError);
+    }
+    options.onConnect?.(connection);
+  }
+
+  connect();
+  return connection;
+}
@@ -0,0 +1,17 @@
+// Carries events between server processes, so a broadcast reaches sockets
+// connected to any of them, and tracks who is connected anywhere.
+export interface PubSubAdapter {
+  // Delivers `message` to every handler subscribed to `channel`, on every
+  // process including this one
+  publish(channel: string, message: string): void;
+  subscribe(channel: string, handler: (message: string) => void): void;
+
+  // Presence. Each resolves to the user's open connections across all
+  // processes once the change is applied.
+  addConnection(userId: string): Promise<number>;
+  removeConnection(userId: string): Promise<number>;
+  // The same count, changing nothing
+  countConnections(userId: string): Promise<number>;
+
+  close(): void;
+}
@@ -0,0 +1,171 @@
+// Token-bucket rate limits for HTTP routes and WebSocket frames, and the
+// lockout for repeated failed logins. State is kept in this process's
+// memory, so with several server processes each enforces its own limits.
+
+export interface RateLimit {
+  // Requests allowed back to back before the steady rate applies
+  burst: number;
+  perMinute: number;
+}
+
+const DEFAULT_RATE_LIMITS = {
+  // HTTP routes. Keyed by IP until signed in and by user after.
+  login: { burst: 10, perMinute: 5 },
+  register: { burst: 5, perMinute: 2 },
+  refresh: { burst: 20, perMinute: 10 },
+  search: { burst: 20, perMinute: 30 },
+  upload: { burst: 10, perMinute: 10 },
+  avatar: { burst: 5, perMinute: 2 },
+  create_conversation: { burst: 10, perMinute: 10 },
+  mentions: { burst: 20, perMinute: 30 },
+  // Posts to an incoming webhook, by hook
+  webhook: { burst: 10, perMinute: 30 },
+  // WebSocket frames, by type. The REST routes that do the same things
+  // spend from the same buckets.
+  auth: { burst: 10, perMinute: 10 },
+  message: { burst: 20, perMinute: 60 },
+  edit_message: { burst: 10, perMinute: 30 },
+  delete_message: { burst: 10, perMinute: 30 },
+  reaction: { burst: 20, perMinute: 60 },
+  mark_read: { burst: 30, perMinute: 120 },
+  typing: { burst: 20, perMinute: 60 },
+  idle: { burst: 10, perMinute: 20 },
+} satisfies Record<string, RateLimit>;
+
+export type RateLimitName = keyof typeof DEFAULT_RATE_LIMITS;
+
+// RATE_LIMITS overrides individual limits as comma-separated
+// name=burst/perMinute pairs, e.g. "login=5/2,message=40/120"
+function parseRateLimits(value: string | undefined): Record<RateLimitName, RateLimit> {
+  const limits: Record<RateLimitName, RateLimit> = { ...DEFAULT_RATE_LIMITS };
+  for (const entry of (value || '').split(',').map(s => s.trim()).filter(Boolean)) {
+    const match = entry.match(/^(\w+)=(\d+)\/(\d+)$/);
+    if (!match || !Object.hasOwn(limits, match[1]) || Number(match[2]) < 1 || Number(match[3]) < 1) {
+      throw new Error(`Invalid RATE_LIMITS entry "${entry}" (expected name=burst/perMinute)`);
+    }
+    limits[match[1] as RateLimitName] = { burst: Number(match[2]), perMinute: Number(match[3]) };
+  }
+  return limits;
+}
+
+export const RATE_LIMITS = parseRateLimits(process.env.RATE_LIMITS);
+
+// After this many failed logins for a username within the window, it's
+// locked for LOGIN_LOCKOUT_MS whatever IP the attempts come from
+const MAX_FAILED_LOGINS = 5;
+const FAILED_LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const LOGIN_LOCKOUT_MS = 15 * 60 * 1000;
+
+// A socket that has this many frames rejected within a minute is closed
+const MAX_SOCKET_VIOLATIONS = 20;
+const SOCKET_VIOLATION_WINDOW_MS = 60 * 1000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until it's worth trying again
+  retryAfter?: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface FailedLogins {
+  count: number;
+  firstFailedAt: number;
+  lockedUntil: number | null;
+}
+
+// `${name}:${key}` -> bucket
+const buckets = new Map<string, Bucket>();
+// Lowercased username -> recent failures
+const failedLogins = new Map<string, FailedLogins>();
+
+function refill(bucket: Bucket, limit: RateLimit, now: number): void {
+  const refilled = ((now - bucket.updatedAt) / 60000) * limit.perMinute;
+  bucket.tokens = Math.min(limit.burst, bucket.tokens + refilled);
+  bucket.updatedAt = now;
+}
+
+// Spends a token from `key`'s bucket for `name`, e.g. takeToken('login', `ip:${ip}`)
+export function takeToken(name: RateLimitName, key: string): RateLimitResult {
+  const limit = RATE_LIMITS[name];
+  const now = Date.now();
+  const id = `${name}:${key}`;
+
+  let bucket = buckets.get(id);
+  if (bucket) {
+    refill(bucket, limit, now);
+  } else {
+    bucket = { tokens: limit.burst, updatedAt: now };
+    buckets.set(id, bucket);
+  }
+
+  if (bucket.tokens < 1) {
+    const msUntilToken = ((1 - bucket.tokens) / limit.perMinute) * 60000;
+    return { allowed: false, retryAfter: Math.ceil(msUntilToken / 1000) };
+  }
+
+  bucket.tokens -= 1;
+  return { allowed: true };
+}
+
+export function checkLoginLock(username: string): RateLimitResult {
+  const failures = failedLogins.get(username.toLowerCase());
+  const now = Date.now();
+  if (!failures?.lockedUntil || failures.lockedUntil <= now) {
+    return { allowed: true };
+  }
+  return { allowed: false, retryAfter: Math.ceil((failures.lockedUntil - now) / 1000) };
+}
+
+// Counts a failed login, locking the username once there are too many
+export function recordLoginFailure(username: string): void {
+  const key = username.toLowerCase();
+  const now = Date.now();
+
+  let failures = failedLogins.get(key);
+  if (!failures || now - failures.firstFailedAt > FAILED_LOGIN_WINDOW_MS) {
+    failures = { count: 0, firstFailedAt: now, lockedUntil: null };
+    failedLogins.set(key, failures);
+  }
+
+  failures.count++;
+  if (failures.count >= MAX_FAILED_LOGINS) {
+    failures.lockedUntil = now + LOGIN_LOCKOUT_MS;
+  }
+}
+
+export function clearLoginFailures(username: string): void {
+  failedLogins.delete(username.toLowerCase());
+}
+
+// One per socket. Call it each time one of the socket's frames is rejected;
+// it returns true once the socket should be closed.
+export function createViolationCounter(): () => boolean {
+  let violations: number[] = [];
+  return () => {
+    const now = Date.now();
+    violations = violations.filter(at => now - at < SOCKET_VIOLATION_WINDOW_MS);
+    violations.push(now);
+    return violations.length >= MAX_SOCKET_VIOLATIONS;
+  };
+}
+
+// Forgets buckets that have refilled and failures that have expired, so
+// the maps only hold recently active keys
+setInterval(() => {
+  const now = Date.now();
+  for (const [id, bucket] of buckets) {
+    const limit = RATE_LIMITS[id.slice(0, id.indexOf(':')) as RateLimitName];
+    refill(bucket, limit, now);
+    if (bucket.tokens >= limit.burst) buckets.delete(id);
+  }
+  for (const [key, failures] of failedLogins) {
+    const lockExpired = !failures.lockedUntil || failures.lockedUntil <= now;
+    if (lockExpired && now - failures.firstFailedAt > FAILED_LOGIN_WINDOW_MS) {
+      failedLogins.delete(key);
+    }
+  }
+}, 60 * 1000).unref();
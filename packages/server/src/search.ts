@@ -0,0 +1,161 @@
+import { markdownToText, Message } from '@chatterbox/shared';
+import database, { Message as StoredMessage } from './database';
+import { formatMessages } from './conversations';
+import { encodeCursor, decodeCursor } from './cursor';
+import { tokenize } from './storage/searchIndex';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const SNIPPET_LENGTH = 120;
+// How much text to keep before the first match
+const SNIPPET_LEAD = 40;
+
+// System notices are about the conversation rather than part of it, so
+// they're never searched
+const MESSAGE_TYPES: StoredMessage['type'][] = ['text', 'image', 'file'];
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SearchFilters {
+  conversationId?: string;
+  senderId?: string;
+  type?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface SearchHit {
+  message: Message;
+  snippet: string;
+  // [start, end) offsets of matched words within the snippet
+  highlights: [number, number][];
+}
+
+export interface SearchResult {
+  success: boolean;
+  results?: SearchHit[];
+  nextCursor?: string | null;
+  status?: 400 | 500;
+  error?: string;
+}
+
+function parseDate(value: string | undefined): string | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// A bare date as the upper bound takes in the whole of that day
+function parseEndDate(value: string | undefined): string | null | undefined {
+  const date = parseDate(value);
+  if (!date || !DATE_ONLY.test(value!)) return date;
+  return new Date(new Date(date).getTime() + DAY_MS - 1).toISOString();
+}
+
+function findMatches(text: string, terms: string[]): [number, number][] {
+  const matches: [number, number][] = [];
+  for (const word of text.matchAll(/[\p{L}\p{N}\p{M}]+/gu)) {
+    if (tokenize(word[0]).some(token => terms.some(term => token.startsWith(term)))) {
+      matches.push([word.index!, word.index! + word[0].length]);
+    }
+  }
+  return matches;
+}
+
+// Cuts a window of the message around its first match and marks every
+// matched word inside it. Markdown is cut from its text, without the markup.
+function buildSnippet(msg: StoredMessage, terms: string[]): Pick<SearchHit, 'snippet' | 'highlights'> {
+  const content = msg.content && msg.format === 'markdown' ? markdownToText(msg.content) : msg.content;
+  const candidates = [content, msg.fileName].filter((t): t is string => !!t);
+  let text = candidates[0] ?? '';
+  let matches: [number, number][] = [];
+  for (const candidate of candidates) {
+    matches = findMatches(candidate, terms);
+    if (matches.length > 0) {
+      text = candidate;
+      break;
+    }
+  }
+
+  const first = matches[0]?.[0] ?? 0;
+  let start = Math.max(0, first - SNIPPET_LEAD);
+  if (start > 0) {
+    // Don't start in the middle of a word
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < first) start = space + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const shift = prefix.length - start;
+
+  return {
+    snippet: prefix + text.slice(start, end) + suffix,
+    highlights: matches
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]) => [s + shift, e + shift]),
+  };
+}
+
+// Searches messages in the conversations `userId` belongs to, newest first
+export function searchMessages(
+  userId: string,
+  query: string,
+  filters: SearchFilters = {},
+  cursor?: string,
+  limit: number = DEFAULT_LIMIT
+): SearchResult {
+  const terms = tokenize(query);
+  if (terms.length === 0) {
+    return { success: false, status: 400, error: 'Search query required' };
+  }
+
+  const before = cursor ? decodeCursor(cursor) : undefined;
+  if (before === null) {
+    return { success: false, status: 400, error: 'Invalid cursor' };
+  }
+
+  const from = parseDate(filters.from);
+  const to = parseEndDate(filters.to);
+  if (from === null || to === null) {
+    return { success: false, status: 400, error: 'Invalid date' };
+  }
+
+  if (filters.type && !MESSAGE_TYPES.includes(filters.type as StoredMessage['type'])) {
+    return { success: false, status: 400, error: 'Invalid message type' };
+  }
+
+  let conversationIds = database.getUserConversationIds(userId);
+  if (filters.conversationId) {
+    conversationIds = conversationIds.filter(id => id === filters.conversationId);
+  }
+
+  try {
+    const pageSize = Math.min(Math.max(1, limit), MAX_LIMIT);
+    // Fetch one extra to know whether there is another page
+    const msgs = database.searchMessages({
+      terms,
+      conversationIds,
+      senderId: filters.senderId,
+      types: filters.type ? [filters.type as StoredMessage['type']] : MESSAGE_TYPES,
+      from,
+      to,
+      before,
+      limit: pageSize + 1,
+    });
+
+    const page = msgs.slice(0, pageSize);
+    const formatted = formatMessages(page, userId);
+    const last = page[page.length - 1];
+
+    return {
+      success: true,
+      results: page.map((msg, i) => ({ message: formatted[i], ...buildSnippet(msg, terms) })),
+      nextCursor: msgs.length > pageSize ? encodeCursor(last) : null,
+    };
+  } catch (error) {
+    console.error('Search messages error:', error);
+    return { success: false, status: 500, error: 'Search failed' };
+  }
+}
@@ -0,0 +1,37 @@
+import fs from 'fs';
+import path from 'path';
+
+export type StorageBackendName = 'sqlite' | 'json';
+
+const dataDir = process.env.DATA_DIR || path.join(__dirname, '..', '..', 'data');
+const uploadsDir = process.env.UPLOADS_DIR || path.join(__dirname, '..', '..', 'uploads');
+
+// STORAGE_BACKEND selects the persistence layer: 'sqlite' (default) or
+// 'json', the single-file backend kept for development and tests.
+const backend = process.env.STORAGE_BACKEND || 'sqlite';
+
+if (backend !== 'sqlite' && backend !== 'json') {
+  throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected "sqlite" or "json")`);
+}
+
+export const storageConfig = {
+  backend: backend as StorageBackendName,
+  dataDir,
+  filePath: path.join(dataDir, backend === 'sqlite' ? 'chatterbox.db' : 'chatterbox.json'),
+  // SQLite only: the JSON backend's data file, imported on first start when
+  // there's no database yet
+  jsonImportPath: path.join(dataDir, 'chatterbox.json'),
+  // JSON backend only: how long journaled writes wait before the snapshot is rewritten
+  flushIntervalMs: Number(process.env.JSON_FLUSH_INTERVAL_MS) || 1000,
+  // Uploaded files, which live outside the database. Avatars and link
+  // preview thumbnails have their own subdirectories.
+  uploadsDir,
+  avatarsDir: path.join(uploadsDir, 'avatars'),
+  linkPreviewsDir: path.join(uploadsDir, 'link-previews'),
+};
+
+export function ensureDataDir(): void {
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+  }
+}
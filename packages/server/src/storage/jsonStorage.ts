@@ -0,0 +1,741 @@
+import fs from 'fs';
+import {
+  StorageBackend, User, Session, Conversation, ConversationMember, Message, MessageEdit, Reaction, Attachment,
+  LinkPreview, Mention, Webhook, MessagePosition, MessagePageQuery, MessageSearchQuery, MentionQuery,
+} from './types';
+import { MigrationTarget, backupPath, runMigrations } from './migrations';
+import { createSearchIndex } from './searchIndex';
+
+export interface JsonDatabase {
+  schemaVersion: number;
+  // Sequence number of the last journal entry folded into this snapshot
+  journalSeq: number;
+  users: User[];
+  sessions: Session[];
+  conversations: Conversation[];
+  conversationMembers: ConversationMember[];
+  messages: Message[];
+  messageEdits: MessageEdit[];
+  reactions: Reaction[];
+  attachments: Attachment[];
+  linkPreviews: LinkPreview[];
+  mentions: Mention[];
+  webhooks: Webhook[];
+}
+
+export interface JsonStorageOptions {
+  // How long mutations are batched in the journal before the snapshot is rewritten
+  flushIntervalMs: number;
+}
+
+interface JournalEntry {
+  seq: number;
+  op: MutationName;
+  args: unknown[];
+}
+
+function emptyDb(): JsonDatabase {
+  return {
+    schemaVersion: 0,
+    journalSeq: 0,
+    users: [],
+    sessions: [],
+    conversations: [],
+    conversationMembers: [],
+    messages: [],
+    messageEdits: [],
+    reactions: [],
+    attachments: [],
+    linkPreviews: [],
+    mentions: [],
+    webhooks: [],
+  };
+}
+
+// Every change to the data goes through one of these, both when it happens
+// and when it is replayed from the journal after a crash.
+const mutations = {
+  createUser(db: JsonDatabase, user: User): void {
+    db.users.push(user);
+  },
+
+  updateUser(db: JsonDatabase, id: string, updates: Partial<User>): void {
+    const user = db.users.find(u => u.id === id);
+    if (user) Object.assign(user, updates);
+  },
+
+  createSession(db: JsonDatabase, session: Session): void {
+    db.sessions.push(session);
+  },
+
+  updateSession(db: JsonDatabase, id: string, updates: Partial<Session>): void {
+    const session = db.sessions.find(s => s.id === id);
+    if (session) Object.assign(session, updates);
+  },
+
+  createConversation(db: JsonDatabase, conversation: Conversation): void {
+    db.conversations.push(conversation);
+  },
+
+  updateConversation(db: JsonDatabase, id: string, updates: Partial<Conversation>): void {
+    const conv = db.conversations.find(c => c.id === id);
+    if (conv) Object.assign(conv, updates);
+  },
+
+  addConversationMember(db: JsonDatabase, member: ConversationMember): void {
+    const existing = db.conversationMembers.find(
+      m => m.conversationId === member.conversationId && m.userId === member.userId
+    );
+    if (!existing) db.conversationMembers.push(member);
+  },
+
+  updateConversationMember(
+    db: JsonDatabase,
+    conversationId: string,
+    userId: string,
+    updates: Partial<ConversationMember>
+  ): void {
+    const member = db.conversationMembers.find(
+      m => m.conversationId === conversationId && m.userId === userId
+    );
+    if (member) Object.assign(member, updates);
+  },
+
+  removeConversationMember(db: JsonDatabase, conversationId: string, userId: string): void {
+    db.conversationMembers = db.conversationMembers.filter(
+      m => !(m.conversationId === conversationId && m.userId === userId)
+    );
+  },
+
+  createMessage(db: JsonDatabase, message: Message): void {
+    db.messages.push(message);
+  },
+
+  updateMessage(db: JsonDatabase, id: string, updates: Partial<Message>): void {
+    const message = db.messages.find(m => m.id === id);
+    if (message) Object.assign(message, updates);
+  },
+
+  addMessageEdit(db: JsonDatabase, edit: MessageEdit): void {
+    db.messageEdits.push(edit);
+  },
+
+  deleteMessageEdits(db: JsonDatabase, messageId: string): void {
+    db.messageEdits = db.messageEdits.filter(e => e.messageId !== messageId);
+  },
+
+  addReaction(db: JsonDatabase, reaction: Reaction): void {
+    const existing = db.reactions.find(
+      r => r.messageId === reaction.messageId && r.userId === reaction.userId && r.emoji === reaction.emoji
+    );
+    if (!existing) db.reactions.push(reaction);
+  },
+
+  removeReaction(db: JsonDatabase, messageId: string, userId: string, emoji: string): void {
+    db.reactions = db.reactions.filter(
+      r => !(r.messageId === messageId && r.userId === userId && r.emoji === emoji)
+    );
+  },
+
+  deleteReactions(db: JsonDatabase, messageId: string): void {
+    db.reactions = db.reactions.filter(r => r.messageId !== messageId);
+  },
+
+  createAttachment(db: JsonDatabase, attachment: Attachment): void {
+    db.attachments.push(attachment);
+  },
+
+  updateAttachment(db: JsonDatabase, id: string, updates: Partial<Attachment>): void {
+    const attachment = db.attachments.find(a => a.id === id);
+    if (attachment) Object.assign(attachment, updates);
+  },
+
+  deleteAttachment(db: JsonDatabase, id: string): void {
+    db.attachments = db.attachments.filter(a => a.id !== id);
+  },
+
+  createLinkPreview(db: JsonDatabase, preview: LinkPreview): void {
+    db.linkPreviews.push(preview);
+  },
+
+  deleteLinkPreview(db: JsonDatabase, id: string): void {
+    db.linkPreviews = db.linkPreviews.filter(p => p.id !== id);
+  },
+
+  addMentions(db: JsonDatabase, mentions: Mention[]): void {
+    for (const mention of mentions) {
+      const existing = db.mentions.find(
+        m => m.messageId === mention.messageId && m.userId === mention.userId && m.type === mention.type
+      );
+      if (!existing) db.mentions.push(mention);
+    }
+  },
+
+  deleteMentions(db: JsonDatabase, messageId: string): void {
+    db.mentions = db.mentions.filter(m => m.messageId !== messageId);
+  },
+
+  createWebhook(db: JsonDatabase, webhook: Webhook): void {
+    db.webhooks.push(webhook);
+  },
+
+  updateWebhook(db: JsonDatabase, id: string, updates: Partial<Webhook>): void {
+    const webhook = db.webhooks.find(w => w.id === id);
+    if (webhook) Object.assign(webhook, updates);
+  },
+};
+
+type Mutations = typeof mutations;
+type MutationName = keyof Mutations;
+type MutationArgs<K extends MutationName> =
+  Mutations[K] extends (db: JsonDatabase, ...args: infer A) => void ? A : never;
+
+function applyMutation(db: JsonDatabase, op: string, args: unknown[]): void {
+  const mutation = mutations[op as MutationName] as
+    ((db: JsonDatabase, ...args: unknown[]) => void) | undefined;
+  if (!mutation) {
+    throw new Error(`Unknown journal operation "${op}"`);
+  }
+  mutation(db, ...args);
+}
+
+// Orders by (createdAt, id), the same way SQLite compares them
+function comparePositions(a: MessagePosition, b: MessagePosition): number {
+  if (a.createdAt !== b.createdAt) return a.createdAt < b.createdAt ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// Index of the first message in `sorted` that is not before `position`
+function lowerBound(sorted: Message[], position: MessagePosition): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (comparePositions(sorted[mid], position) < 0) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+// Index of the first message in `sorted` that is after `position`
+function upperBound(sorted: Message[], position: MessagePosition): number {
+  const index = lowerBound(sorted, position);
+  return sorted[index] && comparePositions(sorted[index], position) === 0 ? index + 1 : index;
+}
+
+function journalPathFor(dbPath: string): string {
+  return `${dbPath}.journal`;
+}
+
+function corruptDataError(dbPath: string, reason: string): Error {
+  return new Error(
+    `Data file ${dbPath} is corrupt and cannot be loaded (${reason}). ` +
+    `Refusing to start with an empty database; restore it from a backup.`
+  );
+}
+
+function loadDb(dbPath: string): JsonDatabase {
+  if (!fs.existsSync(dbPath)) {
+    return emptyDb();
+  }
+
+  const data = fs.readFileSync(dbPath, 'utf-8');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch (error) {
+    throw corruptDataError(dbPath, (error as Error).message);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw corruptDataError(dbPath, 'expected a JSON object');
+  }
+  return { ...emptyDb(), ...parsed };
+}
+
+// Replays journal entries newer than the snapshot. Returns how many were applied.
+function replayJournal(dbPath: string, db: JsonDatabase): number {
+  const journalPath = journalPathFor(dbPath);
+  if (!fs.existsSync(journalPath)) return 0;
+
+  const lines = fs.readFileSync(journalPath, 'utf-8').split('\n');
+  let applied = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+
+    let entry: JournalEntry;
+    try {
+      entry = JSON.parse(lines[i]);
+    } catch {
+      // A torn final line is what a crash mid-append looks like; anything
+      // earlier means the journal itself is damaged.
+      if (lines.slice(i + 1).every(l => !l.trim())) {
+        console.warn(`Ignoring incomplete last entry in ${journalPath}`);
+        break;
+      }
+      throw new Error(`Journal ${journalPath} is corrupt at line ${i + 1}; restore from a backup.`);
+    }
+
+    if (entry.seq <= db.journalSeq) continue;
+    applyMutation(db, entry.op, entry.args);
+    db.journalSeq = entry.seq;
+    applied++;
+  }
+
+  return applied;
+}
+
+// Writes the snapshot to a temp file and renames it over the live one, so a
+// crash leaves either the old or the new file, never a partial one.
+function writeSnapshot(dbPath: string, db: JsonDatabase): void {
+  const tmpPath = `${dbPath}.tmp`;
+  const fd = fs.openSync(tmpPath, 'w');
+  try {
+    fs.writeSync(fd, JSON.stringify(db, null, 2));
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tmpPath, dbPath);
+}
+
+function createMigrationTarget(dbPath: string, db: JsonDatabase): MigrationTarget {
+  const readVersion = () => db.schemaVersion ?? 0;
+
+  return {
+    description: dbPath,
+    readVersion,
+
+    backup() {
+      if (!fs.existsSync(dbPath)) return null;
+      const dest = backupPath(dbPath, readVersion());
+      fs.copyFileSync(dbPath, dest);
+      return dest;
+    },
+
+    apply(migration) {
+      migration.json(db);
+      db.schemaVersion = migration.version;
+      writeSnapshot(dbPath, db);
+    },
+  };
+}
+
+export function openJsonMigrationTarget(dbPath: string): MigrationTarget {
+  const db = loadDb(dbPath);
+  replayJournal(dbPath, db);
+  return createMigrationTarget(dbPath, db);
+}
+
+// The data file with its journal replayed and pending migrations applied,
+// for copying into another backend
+export function loadJsonDatabase(dbPath: string): JsonDatabase {
+  const db = loadDb(dbPath);
+  replayJournal(dbPath, db);
+  runMigrations(createMigrationTarget(dbPath, db));
+  return db;
+}
+
+// In-memory database persisted as a JSON snapshot plus an append-only
+// journal. Intended for development and tests; production deployments
+// should use the SQLite backend.
+export function createJsonStorage(dbPath: string, options: JsonStorageOptions): StorageBackend {
+  const journalPath = journalPathFor(dbPath);
+  const db = loadDb(dbPath);
+
+  const replayed = replayJournal(dbPath, db);
+  if (replayed > 0) {
+    console.log(`🔁 Replayed ${replayed} journal entries into ${dbPath}`);
+  }
+  runMigrations(createMigrationTarget(dbPath, db));
+
+  // Derived from the messages on load and kept current as they change; never persisted
+  const searchIndex = createSearchIndex();
+  function indexMessage(message: Message): void {
+    if (message.deletedAt) {
+      searchIndex.remove(message.id);
+    } else {
+      searchIndex.set(message.id, [message.content, message.fileName].filter(Boolean).join(' '));
+    }
+  }
+  db.messages.forEach(indexMessage);
+
+  // Main-timeline messages per conversation, kept sorted by (createdAt, id)
+  // so paging is a binary search instead of a scan over every message
+  const timelines = new Map<string, Message[]>();
+  function addToTimeline(message: Message): void {
+    if (message.threadRootId) return;
+    let timeline = timelines.get(message.conversationId);
+    if (!timeline) {
+      timeline = [];
+      timelines.set(message.conversationId, timeline);
+    }
+    timeline.splice(upperBound(timeline, message), 0, message);
+  }
+  db.messages.forEach(addToTimeline);
+
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Fold the journal into a fresh snapshot so it starts out empty
+  function flush(): void {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    writeSnapshot(dbPath, db);
+    fs.writeFileSync(journalPath, '');
+  }
+
+  function scheduleFlush(): void {
+    if (flushTimer) return;
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      try {
+        flush();
+      } catch (error) {
+        console.error('Error saving database:', error);
+      }
+    }, options.flushIntervalMs);
+    flushTimer.unref();
+  }
+
+  flush();
+  const journalFd = fs.openSync(journalPath, 'a');
+
+  function mutate<K extends MutationName>(op: K, ...args: MutationArgs<K>): void {
+    const entry: JournalEntry = { seq: db.journalSeq + 1, op, args };
+    fs.writeSync(journalFd, JSON.stringify(entry) + '\n');
+    fs.fdatasyncSync(journalFd);
+    applyMutation(db, op, args);
+    db.journalSeq = entry.seq;
+    scheduleFlush();
+  }
+
+  return {
+    // Users
+    findUserByUsername(username: string): User | undefined {
+      return db.users.find(u => u.username === username);
+    },
+
+    findUserById(id: string): User | undefined {
+      return db.users.find(u => u.id === id);
+    },
+
+    createUser(user: User): void {
+      mutate('createUser', user);
+    },
+
+    updateUser(id: string, updates: Partial<User>): void {
+      mutate('updateUser', id, updates);
+    },
+
+    searchUsers(query: string, excludeUserId: string): User[] {
+      const lowerQuery = query.toLowerCase();
+      return db.users.filter(u => 
+        u.id !== excludeUserId && 
+        (u.username.toLowerCase().includes(lowerQuery) || 
+         u.displayName.toLowerCase().includes(lowerQuery))
+      ).slice(0, 20);
+    },
+
+    getUsersNotOffline(): User[] {
+      return db.users.filter(u => u.status !== 'offline');
+    },
+
+    // Sessions
+    findSessionById(id: string): Session | undefined {
+      return db.sessions.find(s => s.id === id);
+    },
+
+    getUserSessions(userId: string): Session[] {
+      return db.sessions
+        .filter(s => s.userId === userId && !s.revokedAt)
+        .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+    },
+
+    createSession(session: Session): void {
+      mutate('createSession', session);
+    },
+
+    updateSession(id: string, updates: Partial<Session>): void {
+      mutate('updateSession', id, updates);
+    },
+
+    // Conversations
+    findConversationById(id: string): Conversation | undefined {
+      return db.conversations.find(c => c.id === id);
+    },
+
+    findDirectConversation(userId1: string, userId2: string): Conversation | undefined {
+      // Find a non-group conversation where both users are members
+      for (const conv of db.conversations) {
+        if (!conv.isGroup) {
+          const members = db.conversationMembers.filter(m => m.conversationId === conv.id);
+          if (members.length === 2 && 
+              members.some(m => m.userId === userId1) && 
+              members.some(m => m.userId === userId2)) {
+            return conv;
+          }
+        }
+      }
+      return undefined;
+    },
+
+    createConversation(conversation: Conversation): void {
+      mutate('createConversation', conversation);
+    },
+
+    updateConversation(id: string, updates: Partial<Conversation>): void {
+      mutate('updateConversation', id, updates);
+    },
+
+    getUserConversationIds(userId: string): string[] {
+      return db.conversationMembers
+        .filter(m => m.userId === userId)
+        .map(m => m.conversationId);
+    },
+
+    // Conversation Members
+    getConversationMembers(conversationId: string): string[] {
+      return db.conversationMembers
+        .filter(m => m.conversationId === conversationId)
+        .map(m => m.userId);
+    },
+
+    listConversationMembers(conversationId: string): ConversationMember[] {
+      return db.conversationMembers.filter(m => m.conversationId === conversationId);
+    },
+
+    findConversationMember(conversationId: string, userId: string): ConversationMember | undefined {
+      return db.conversationMembers.find(
+        m => m.conversationId === conversationId && m.userId === userId
+      );
+    },
+
+    addConversationMember(member: ConversationMember): void {
+      mutate('addConversationMember', member);
+    },
+
+    updateConversationMember(conversationId: string, userId: string, updates: Partial<ConversationMember>): void {
+      mutate('updateConversationMember', conversationId, userId, updates);
+    },
+
+    removeConversationMember(conversationId: string, userId: string): void {
+      mutate('removeConversationMember', conversationId, userId);
+    },
+
+    // Messages
+    getMessages(conversationId: string, { before, after, limit }: MessagePageQuery): Message[] {
+      const timeline = timelines.get(conversationId) ?? [];
+      if (after) {
+        const start = upperBound(timeline, after);
+        return timeline.slice(start, start + limit);
+      }
+      const end = before ? lowerBound(timeline, before) : timeline.length;
+      return timeline.slice(Math.max(0, end - limit), end);
+    },
+
+    getLastMessage(conversationId: string): Message | undefined {
+      const timeline = timelines.get(conversationId);
+      return timeline?.[timeline.length - 1];
+    },
+
+    getThreadReplies(threadRootId: string): Message[] {
+      return db.messages
+        .filter(m => m.threadRootId === threadRootId)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    countUnreadMessages(conversationId: string, userId: string, since: string | null): number {
+      return db.messages.filter(m =>
+        m.conversationId === conversationId &&
+        m.senderId !== userId &&
+        !m.threadRootId &&
+        !m.deletedAt &&
+        (!since || m.createdAt > since)
+      ).length;
+    },
+
+    findMessageById(id: string): Message | undefined {
+      return db.messages.find(m => m.id === id);
+    },
+
+    findMessageByClientId(senderId: string, clientMessageId: string): Message | undefined {
+      return db.messages.find(m => m.senderId === senderId && m.clientMessageId === clientMessageId);
+    },
+
+    createMessage(message: Message): void {
+      mutate('createMessage', message);
+      indexMessage(message);
+      addToTimeline(message);
+    },
+
+    updateMessage(id: string, updates: Partial<Message>): void {
+      mutate('updateMessage', id, updates);
+      const message = db.messages.find(m => m.id === id);
+      if (message) indexMessage(message);
+    },
+
+    searchMessages(query: MessageSearchQuery): Message[] {
+      const ids = searchIndex.match(query.terms);
+      const conversationIds = new Set(query.conversationIds);
+      const { before } = query;
+
+      return db.messages
+        .filter(m =>
+          ids.has(m.id) &&
+          conversationIds.has(m.conversationId) &&
+          !m.deletedAt &&
+          (!query.senderId || m.senderId === query.senderId) &&
+          query.types.includes(m.type) &&
+          (!query.from || m.createdAt >= query.from) &&
+          (!query.to || m.createdAt <= query.to) &&
+          (!before || m.createdAt < before.createdAt || (m.createdAt === before.createdAt && m.id < before.id))
+        )
+        .sort((a, b) => comparePositions(b, a))
+        .slice(0, query.limit);
+    },
+
+    // Message edit history
+    getMessageEdits(messageId: string): MessageEdit[] {
+      return db.messageEdits
+        .filter(e => e.messageId === messageId)
+        .sort((a, b) => a.editedAt.localeCompare(b.editedAt));
+    },
+
+    addMessageEdit(edit: MessageEdit): void {
+      mutate('addMessageEdit', edit);
+    },
+
+    deleteMessageEdits(messageId: string): void {
+      mutate('deleteMessageEdits', messageId);
+    },
+
+    // Reactions
+    getReactions(messageIds: string[]): Reaction[] {
+      const ids = new Set(messageIds);
+      return db.reactions.filter(r => ids.has(r.messageId));
+    },
+
+    addReaction(reaction: Reaction): void {
+      mutate('addReaction', reaction);
+    },
+
+    removeReaction(messageId: string, userId: string, emoji: string): void {
+      mutate('removeReaction', messageId, userId, emoji);
+    },
+
+    deleteReactions(messageId: string): void {
+      mutate('deleteReactions', messageId);
+    },
+
+    // Attachments
+    findAttachmentById(id: string): Attachment | undefined {
+      return db.attachments.find(a => a.id === id);
+    },
+
+    getMessageAttachments(messageIds: string[]): Attachment[] {
+      const ids = new Set(messageIds);
+      return db.attachments.filter(a => a.messageId !== null && ids.has(a.messageId));
+    },
+
+    getUnsentAttachments(createdBefore: string): Attachment[] {
+      return db.attachments.filter(a => a.messageId === null && a.createdAt < createdBefore);
+    },
+
+    getUserStorageUsage(userId: string): number {
+      return db.attachments
+        .filter(a => a.uploaderId === userId)
+        .reduce((total, a) => total + a.size, 0);
+    },
+
+    createAttachment(attachment: Attachment): void {
+      mutate('createAttachment', attachment);
+    },
+
+    updateAttachment(id: string, updates: Partial<Attachment>): void {
+      mutate('updateAttachment', id, updates);
+    },
+
+    deleteAttachment(id: string): void {
+      mutate('deleteAttachment', id);
+    },
+
+    // Link previews
+    getLinkPreviews(messageIds: string[]): LinkPreview[] {
+      const ids = new Set(messageIds);
+      return db.linkPreviews
+        .filter(p => ids.has(p.messageId))
+        .sort((a, b) => a.position - b.position);
+    },
+
+    createLinkPreview(preview: LinkPreview): void {
+      mutate('createLinkPreview', preview);
+    },
+
+    deleteLinkPreview(id: string): void {
+      mutate('deleteLinkPreview', id);
+    },
+
+    // Mentions
+    getMentions(messageIds: string[]): Mention[] {
+      const ids = new Set(messageIds);
+      return db.mentions.filter(m => ids.has(m.messageId));
+    },
+
+    addMentions(mentions: Mention[]): void {
+      mutate('addMentions', mentions);
+    },
+
+    deleteMentions(messageId: string): void {
+      mutate('deleteMentions', messageId);
+    },
+
+    getMentionedMessages(query: MentionQuery): Message[] {
+      const conversationIds = new Set(query.conversationIds);
+      const messageIds = new Set(
+        db.mentions
+          .filter(m => m.userId === query.userId && conversationIds.has(m.conversationId))
+          .map(m => m.messageId)
+      );
+      const { before } = query;
+
+      return db.messages
+        .filter(m =>
+          messageIds.has(m.id) &&
+          m.senderId !== query.userId &&
+          !m.deletedAt &&
+          (!before || m.createdAt < before.createdAt || (m.createdAt === before.createdAt && m.id < before.id))
+        )
+        .sort((a, b) => comparePositions(b, a))
+        .slice(0, query.limit);
+    },
+
+    // Webhooks
+    findWebhookById(id: string): Webhook | undefined {
+      return db.webhooks.find(w => w.id === id);
+    },
+
+    listWebhooks(conversationId: string): Webhook[] {
+      return db.webhooks
+        .filter(w => w.conversationId === conversationId && !w.revokedAt)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    createWebhook(webhook: Webhook): void {
+      mutate('createWebhook', webhook);
+    },
+
+    updateWebhook(id: string, updates: Partial<Webhook>): void {
+      mutate('updateWebhook', id, updates);
+    },
+
+    close(): void {
+      flush();
+      fs.closeSync(journalFd);
+    },
+  };
+}
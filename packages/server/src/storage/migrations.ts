@@ -0,0 +1,666 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { JsonDatabase } from './jsonStorage';
+import type { Attachment, Message } from './types';
+import { storageConfig } from './config';
+import { sniffFileType } from '../fileTypes';
+
+// A schema change, expressed once per backend. Migrations are applied in
+// ascending `version` order and each one bumps the stored schema version.
+//
+// A failed migration leaves the data as it was (SQLite rolls back its
+// transaction; the JSON file is only rewritten afterwards) but can't undo
+// anything written elsewhere, and it runs again on the next start. Files a
+// migration writes must therefore be safe to write twice.
+export interface Migration {
+  version: number;
+  name: string;
+  json(data: JsonDatabase): void;
+  sqlite(conn: BetterSqlite3.Database): void;
+}
+
+// The backend-specific side of running migrations against a data file
+export interface MigrationTarget {
+  description: string;
+  readVersion(): number;
+  // Copies the current data aside; returns the backup path, or null if there
+  // was nothing on disk to back up.
+  backup(): string | null;
+  apply(migration: Migration): void;
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    json(data) {
+      data.users ??= [];
+      data.conversations ??= [];
+      data.conversationMembers ??= [];
+      data.messages ??= [];
+    },
+    sqlite(conn) {
+      conn.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id TEXT PRIMARY KEY,
+          username TEXT NOT NULL UNIQUE,
+          password TEXT NOT NULL,
+          display_name TEXT NOT NULL,
+          avatar TEXT,
+          bio TEXT,
+          status TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS conversations (
+          id TEXT PRIMARY KEY,
+          name TEXT,
+          is_group INTEGER NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS conversation_members (
+          conversation_id TEXT NOT NULL REFERENCES conversations(id),
+          user_id TEXT NOT NULL REFERENCES users(id),
+          joined_at TEXT NOT NULL,
+          PRIMARY KEY (conversation_id, user_id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_members_user ON conversation_members(user_id);
+
+        CREATE TABLE IF NOT EXISTS messages (
+          id TEXT PRIMARY KEY,
+          conversation_id TEXT NOT NULL REFERENCES conversations(id),
+          sender_id TEXT NOT NULL,
+          content TEXT,
+          type TEXT NOT NULL,
+          file_url TEXT,
+          file_name TEXT,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_messages_conversation_created
+          ON messages(conversation_id, created_at);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'conversation member roles',
+    json(data) {
+      const groupIds = new Set(data.conversations.filter(c => c.isGroup).map(c => c.id));
+      const ownedGroups = new Set<string>();
+      // Group creators were always added first, so the first member becomes owner
+      for (const member of data.conversationMembers) {
+        if (groupIds.has(member.conversationId) && !ownedGroups.has(member.conversationId)) {
+          member.role = 'owner';
+          ownedGroups.add(member.conversationId);
+        } else {
+          member.role = 'member';
+        }
+      }
+    },
+    sqlite(conn) {
+      conn.exec(`
+        ALTER TABLE conversation_members ADD COLUMN role TEXT NOT NULL DEFAULT 'member';
+
+        UPDATE conversation_members SET role = 'owner'
+        WHERE rowid IN (
+          SELECT MIN(m.rowid) FROM conversation_members m
+          JOIN conversations c ON c.id = m.conversation_id
+          WHERE c.is_group = 1
+          GROUP BY m.conversation_id
+        );
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'message edits and tombstones',
+    json(data) {
+      for (const message of data.messages) {
+        message.editedAt ??= null;
+        message.deletedAt ??= null;
+      }
+      data.messageEdits ??= [];
+    },
+    sqlite(conn) {
+      conn.exec(`
+        ALTER TABLE messages ADD COLUMN edited_at TEXT;
+        ALTER TABLE messages ADD COLUMN deleted_at TEXT;
+
+        CREATE TABLE message_edits (
+          message_id TEXT NOT NULL REFERENCES messages(id),
+          content TEXT,
+          edited_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_message_edits_message ON message_edits(message_id, edited_at);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'message threads',
+    json(data) {
+      for (const message of data.messages) {
+        message.replyToId ??= null;
+        message.threadRootId ??= null;
+        message.replyCount ??= 0;
+      }
+    },
+    sqlite(conn) {
+      conn.exec(`
+        ALTER TABLE messages ADD COLUMN reply_to_id TEXT;
+        ALTER TABLE messages ADD COLUMN thread_root_id TEXT;
+        ALTER TABLE messages ADD COLUMN reply_count INTEGER NOT NULL DEFAULT 0;
+        CREATE INDEX idx_messages_thread_root ON messages(thread_root_id, created_at);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'message reactions',
+    json(data) {
+      data.reactions ??= [];
+    },
+    sqlite(conn) {
+      conn.exec(`
+        CREATE TABLE message_reactions (
+          message_id TEXT NOT NULL REFERENCES messages(id),
+          user_id TEXT NOT NULL REFERENCES users(id),
+          emoji TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (message_id, user_id, emoji)
+        );
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'read markers',
+    // Existing history counts as read, so upgrading doesn't flood everyone with unread badges
+    json(data) {
+      const latest = new Map<string, Message>();
+      for (const msg of data.messages) {
+        if (msg.threadRootId) continue;
+        const current = latest.get(msg.conversationId);
+        if (!current || msg.createdAt > current.createdAt) latest.set(msg.conversationId, msg);
+      }
+      for (const member of data.conversationMembers) {
+        const msg = latest.get(member.conversationId);
+        member.lastReadMessageId ??= msg?.id ?? null;
+        member.lastReadMessageAt ??= msg?.createdAt ?? null;
+      }
+    },
+    sqlite(conn) {
+      conn.exec(`
+        ALTER TABLE conversation_members ADD COLUMN last_read_message_id TEXT;
+        ALTER TABLE conversation_members ADD COLUMN last_read_message_at TEXT;
+        UPDATE conversation_members SET
+          last_read_message_id = (
+            SELECT id FROM messages
+            WHERE conversation_id = conversation_members.conversation_id AND thread_root_id IS NULL
+            ORDER BY created_at DESC LIMIT 1
+          ),
+          last_read_message_at = (
+            SELECT MAX(created_at) FROM messages
+            WHERE conversation_id = conversation_members.conversation_id AND thread_root_id IS NULL
+          );
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'message search index',
+    // The JSON backend builds its search index in memory on load
+    json() {},
+    sqlite(conn) {
+      conn.exec(`
+        CREATE VIRTUAL TABLE messages_fts USING fts5(
+          content, file_name,
+          content = 'messages', content_rowid = 'rowid',
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages BEGIN
+          INSERT INTO messages_fts (rowid, content, file_name)
+          VALUES (new.rowid, new.content, new.file_name);
+        END;
+
+        CREATE TRIGGER messages_fts_update AFTER UPDATE OF content, file_name ON messages BEGIN
+          INSERT INTO messages_fts (messages_fts, rowid, content, file_name)
+          VALUES ('delete', old.rowid, old.content, old.file_name);
+          INSERT INTO messages_fts (rowid, content, file_name)
+          VALUES (new.rowid, new.content, new.file_name);
+        END;
+
+        CREATE TRIGGER messages_fts_delete AFTER DELETE ON messages BEGIN
+          INSERT INTO messages_fts (messages_fts, rowid, content, file_name)
+          VALUES ('delete', old.rowid, old.content, old.file_name);
+        END;
+
+        INSERT INTO messages_fts (messages_fts) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'message timeline index',
+    // Paging orders by (created_at, id); the old index couldn't break ties
+    json() {},
+    sqlite(conn) {
+      conn.exec(`
+        DROP INDEX IF EXISTS idx_messages_conversation_created;
+        CREATE INDEX idx_messages_timeline ON messages(conversation_id, created_at, id);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'sessions',
+    json(data) {
+      data.sessions ??= [];
+    },
+    sqlite(conn) {
+      conn.exec(`
+        CREATE TABLE sessions (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL REFERENCES users(id),
+          refresh_token_hash TEXT NOT NULL,
+          device TEXT,
+          ip TEXT,
+          created_at TEXT NOT NULL,
+          last_used_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          revoked_at TEXT
+        );
+        CREATE INDEX idx_sessions_user ON sessions(user_id, last_used_at);
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'group avatars',
+    json(data) {
+      for (const conversation of data.conversations as (typeof data.conversations[number] & { avatar?: string | null })[]) {
+        conversation.avatar ??= null;
+      }
+    },
+    sqlite(conn) {
+      conn.exec('ALTER TABLE conversations ADD COLUMN avatar TEXT');
+    },
+  },
+  {
+    version: 11,
+    name: 'client message ids',
+    json(data) {
+      for (const message of data.messages) {
+        message.clientMessageId ??= null;
+      }
+    },
+    sqlite(conn) {
+      conn.exec(`
+        ALTER TABLE messages ADD COLUMN client_message_id TEXT;
+        CREATE UNIQUE INDEX idx_messages_client_id ON messages(sender_id, client_message_id)
+          WHERE client_message_id IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'presence',
+    // Status used to be free-form; anything unrecognised becomes offline
+    json(data) {
+      for (const user of data.users) {
+        if (!['online', 'away', 'dnd', 'invisible', 'offline'].includes(user.status)) {
+          user.status = 'offline';
+        }
+        user.presence ??= 'online';
+        user.statusText ??= null;
+        user.statusEmoji ??= null;
+        user.statusExpiresAt ??= null;
+        user.lastSeenAt ??= null;
+      }
+    },
+    sqlite(conn) {
+      conn.exec(`
+        ALTER TABLE users ADD COLUMN presence TEXT NOT NULL DEFAULT 'online';
+        ALTER TABLE users ADD COLUMN status_text TEXT;
+        ALTER TABLE users ADD COLUMN status_emoji TEXT;
+        ALTER TABLE users ADD COLUMN status_expires_at TEXT;
+        ALTER TABLE users ADD COLUMN last_seen_at TEXT;
+        UPDATE users SET status = 'offline'
+          WHERE status NOT IN ('online', 'away', 'dnd', 'invisible', 'offline');
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'attachments',
+    // Messages used to carry the URL of a publicly served upload. Those
+    // uploads become attachment records, pointing at the files where they
+    // already are; anything else in fileUrl wasn't uploaded here and is
+    // dropped.
+    json(data) {
+      data.attachments ??= [];
+      for (const message of data.messages as (Message & { fileUrl?: string | null })[]) {
+        const attachment = message.fileUrl ? legacyAttachment(message, message.fileUrl) : null;
+        if (attachment) data.attachments.push(attachment);
+        delete message.fileUrl;
+      }
+    },
+    sqlite(conn) {
+      conn.exec(`
+        CREATE TABLE attachments (
+          id TEXT PRIMARY KEY,
+          uploader_id TEXT NOT NULL REFERENCES users(id),
+          message_id TEXT REFERENCES messages(id),
+          conversation_id TEXT REFERENCES conversations(id),
+          file_name TEXT NOT NULL,
+          mime_type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          storage_key TEXT NOT NULL,
+          thumbnail_key TEXT,
+          preview_key TEXT,
+          width INTEGER,
+          height INTEGER,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_attachments_message ON attachments(message_id);
+        CREATE INDEX idx_attachments_uploader ON attachments(uploader_id);
+        CREATE INDEX idx_attachments_unsent ON attachments(created_at) WHERE message_id IS NULL;
+      `);
+
+      const insert = conn.prepare(`
+        INSERT INTO attachments (
+          id, uploader_id, message_id, conversation_id, file_name, mime_type, size,
+          storage_key, thumbnail_key, preview_key, width, height, created_at
+        )
+        VALUES (
+          @id, @uploaderId, @messageId, @conversationId, @fileName, @mimeType, @size,
+          @storageKey, @thumbnailKey, @previewKey, @width, @height, @createdAt
+        )
+      `);
+      const rows = conn.prepare(`
+        SELECT id, conversation_id, sender_id, type, file_url, file_name, created_at
+        FROM messages WHERE file_url IS NOT NULL
+      `).all() as {
+        id: string; conversation_id: string; sender_id: string; type: Message['type'];
+        file_url: string; file_name: string | null; created_at: string;
+      }[];
+      for (const row of rows) {
+        const attachment = legacyAttachment({
+          id: row.id,
+          conversationId: row.conversation_id,
+          senderId: row.sender_id,
+          type: row.type,
+          fileName: row.file_name,
+          createdAt: row.created_at,
+        }, row.file_url);
+        if (attachment) insert.run(attachment);
+      }
+
+      conn.exec('ALTER TABLE messages DROP COLUMN file_url');
+    },
+  },
+  {
+    version: 14,
+    name: 'avatar files',
+    // Avatars used to be data URLs stored on the user; they become image
+    // files and the user keeps only the id
+    json(data) {
+      for (const user of data.users as (typeof data.users[number] & { avatar?: string | null })[]) {
+        user.avatarId = user.avatar ? avatarFromDataUrl(user.id, user.avatar) : null;
+        delete user.avatar;
+      }
+    },
+    sqlite(conn) {
+      conn.exec('ALTER TABLE users ADD COLUMN avatar_id TEXT');
+
+      const update = conn.prepare('UPDATE users SET avatar_id = ? WHERE id = ?');
+      const rows = conn.prepare('SELECT id, avatar FROM users WHERE avatar IS NOT NULL').all() as {
+        id: string; avatar: string;
+      }[];
+      for (const row of rows) {
+        update.run(avatarFromDataUrl(row.id, row.avatar), row.id);
+      }
+
+      conn.exec('ALTER TABLE users DROP COLUMN avatar');
+    },
+  },
+  {
+    version: 15,
+    name: 'message format',
+    // Everything sent so far was shown as typed
+    json(data) {
+      for (const message of data.messages) {
+        message.format ??= 'plain';
+      }
+    },
+    sqlite(conn) {
+      conn.exec("ALTER TABLE messages ADD COLUMN format TEXT NOT NULL DEFAULT 'plain'");
+    },
+  },
+  {
+    version: 16,
+    name: 'link previews',
+    json(data) {
+      data.linkPreviews ??= [];
+    },
+    sqlite(conn) {
+      conn.exec(`
+        CREATE TABLE link_previews (
+          id TEXT PRIMARY KEY,
+          message_id TEXT NOT NULL REFERENCES messages(id),
+          url TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          title TEXT,
+          description TEXT,
+          site_name TEXT,
+          image_key TEXT,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_link_previews_message ON link_previews(message_id, position);
+      `);
+    },
+  },
+  {
+    version: 17,
+    name: 'mentions',
+    json(data) {
+      data.mentions ??= [];
+    },
+    sqlite(conn) {
+      conn.exec(`
+        CREATE TABLE mentions (
+          message_id TEXT NOT NULL REFERENCES messages(id),
+          conversation_id TEXT NOT NULL REFERENCES conversations(id),
+          user_id TEXT NOT NULL REFERENCES users(id),
+          type TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (message_id, user_id, type)
+        );
+        CREATE INDEX idx_mentions_user ON mentions(user_id, created_at);
+      `);
+    },
+  },
+  {
+    version: 18,
+    name: 'notification preferences',
+    // Everyone starts out notified of everything
+    json(data) {
+      for (const user of data.users) {
+        user.notifications ??= 'all';
+        user.mutedUntil ??= null;
+      }
+      for (const member of data.conversationMembers) {
+        member.notifications ??= null;
+        member.mutedUntil ??= null;
+      }
+    },
+    sqlite(conn) {
+      conn.exec(`
+        ALTER TABLE users ADD COLUMN notifications TEXT NOT NULL DEFAULT 'all';
+        ALTER TABLE users ADD COLUMN muted_until TEXT;
+        ALTER TABLE conversation_members ADD COLUMN notifications TEXT;
+        ALTER TABLE conversation_members ADD COLUMN muted_until TEXT;
+      `);
+    },
+  },
+  {
+    version: 19,
+    name: 'webhooks',
+    json(data) {
+      data.webhooks ??= [];
+      for (const message of data.messages) {
+        message.webhookId ??= null;
+      }
+    },
+    sqlite(conn) {
+      conn.exec(`
+        CREATE TABLE webhooks (
+          id TEXT PRIMARY KEY,
+          conversation_id TEXT NOT NULL REFERENCES conversations(id),
+          created_by TEXT NOT NULL REFERENCES users(id),
+          display_name TEXT,
+          avatar_id TEXT,
+          token_hash TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          revoked_at TEXT
+        );
+        CREATE INDEX idx_webhooks_conversation ON webhooks(conversation_id);
+        ALTER TABLE messages ADD COLUMN webhook_id TEXT REFERENCES webhooks(id);
+      `);
+    },
+  },
+  {
+    version: 20,
+    name: 'group avatar files',
+    // Group pictures get the same treatment as user avatars in v14
+    json(data) {
+      for (const conversation of data.conversations as (typeof data.conversations[number] & { avatar?: string | null })[]) {
+        conversation.avatarId = conversation.avatar ? avatarFromDataUrl(conversation.id, conversation.avatar) : null;
+        delete conversation.avatar;
+      }
+    },
+    sqlite(conn) {
+      conn.exec('ALTER TABLE conversations ADD COLUMN avatar_id TEXT');
+
+      const update = conn.prepare('UPDATE conversations SET avatar_id = ? WHERE id = ?');
+      const rows = conn.prepare('SELECT id, avatar FROM conversations WHERE avatar IS NOT NULL').all() as {
+        id: string; avatar: string;
+      }[];
+      for (const row of rows) {
+        update.run(avatarFromDataUrl(row.id, row.avatar), row.id);
+      }
+
+      conn.exec('ALTER TABLE conversations DROP COLUMN avatar');
+    },
+  },
+];
+
+// Types the old upload route could have stored images as, by extension
+const LEGACY_IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+// An attachment record for a file the old upload route saved, or null if
+// `fileUrl` doesn't point at one. Their sizes were never recorded, so they
+// don't count toward quotas.
+function legacyAttachment(
+  message: Pick<Message, 'id' | 'conversationId' | 'senderId' | 'type' | 'fileName' | 'createdAt'>,
+  fileUrl: string
+): Attachment | null {
+  const storageKey = fileUrl.match(/\/uploads\/([\w-]+(\.\w+)?)$/)?.[1];
+  if (!storageKey) return null;
+
+  const ext = path.extname(storageKey).toLowerCase();
+  return {
+    id: uuidv4(),
+    uploaderId: message.senderId,
+    messageId: message.id,
+    conversationId: message.conversationId,
+    fileName: message.fileName || storageKey,
+    mimeType: (message.type === 'image' && LEGACY_IMAGE_TYPES[ext]) || 'application/octet-stream',
+    size: 0,
+    storageKey,
+    thumbnailKey: null,
+    previewKey: null,
+    width: null,
+    height: null,
+    createdAt: message.createdAt,
+  };
+}
+
+// Writes an image data URL out as an avatar source file for `ownerId` and
+// returns its id, or null if it isn't an image. The sizes are rendered on
+// first request.
+//
+// The id is a hash of the owner and the image, so a migration that failed
+// and runs again rewrites the same file rather than leaving one behind. The
+// owner is part of it so two users or groups with the same picture don't
+// share a file that removing either one's avatar would delete.
+function avatarFromDataUrl(ownerId: string, dataUrl: string): string | null {
+  const base64 = dataUrl.match(/^data:image\/[\w.+-]+;base64,(.+)$/s)?.[1];
+  if (!base64) return null;
+
+  const image = Buffer.from(base64, 'base64');
+  if (!sniffFileType(image)?.isImage) return null;
+
+  // Shaped like the uuids avatars.ts gives new uploads
+  const hash = crypto.createHash('sha256').update(`${ownerId}\0`).update(image).digest('hex');
+  const avatarId = [hash.slice(0, 8), hash.slice(8, 12), hash.slice(12, 16), hash.slice(16, 20), hash.slice(20, 32)].join('-');
+
+  fs.mkdirSync(storageConfig.avatarsDir, { recursive: true });
+  // Named as avatars.ts expects, and written aside so a write cut short is
+  // never taken for the finished file
+  const file = path.join(storageConfig.avatarsDir, `${avatarId}.source`);
+  const partial = `${file}.${uuidv4()}.tmp`;
+  fs.writeFileSync(partial, image);
+  fs.renameSync(partial, file);
+  return avatarId;
+}
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export function getPendingMigrations(target: MigrationTarget): Migration[] {
+  const version = target.readVersion();
+  if (version > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `${target.description} is at schema version ${version}, but this server only ` +
+      `understands up to version ${LATEST_SCHEMA_VERSION}. Refusing to start; ` +
+      `upgrade the server or restore an older backup.`
+    );
+  }
+  return migrations.filter(m => m.version > version);
+}
+
+export function backupPath(filePath: string, version: number): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `${filePath}.v${version}-${stamp}.bak`;
+}
+
+// Brings the target up to LATEST_SCHEMA_VERSION, backing it up first if
+// anything needs to change. Returns the migrations that were applied.
+export function runMigrations(target: MigrationTarget): Migration[] {
+  const pending = getPendingMigrations(target);
+  if (pending.length === 0) return pending;
+
+  const backup = target.backup();
+  if (backup) {
+    console.log(`💾 Backed up ${target.description} to ${backup}`);
+  }
+
+  for (const migration of pending) {
+    console.log(`⬆️  Migrating ${target.description} to v${migration.version}: ${migration.name}`);
+    target.apply(migration);
+  }
+
+  return pending;
+}
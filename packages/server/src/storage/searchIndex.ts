@@ -0,0 +1,75 @@
+// Splits text into lowercase, accent-free word tokens. Mirrors SQLite's
+// `unicode61 remove_diacritics 2` tokenizer so both backends match the same way.
+export function tokenize(text: string): string[] {
+  return normalizeToken(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export function normalizeToken(text: string): string {
+  return text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+// Inverted index from tokens to the ids of the documents containing them
+export interface SearchIndex {
+  set(id: string, text: string): void;
+  remove(id: string): void;
+  // Ids of documents containing every term, each matched as a word prefix
+  match(terms: string[]): Set<string>;
+}
+
+export function createSearchIndex(): SearchIndex {
+  const postings = new Map<string, Set<string>>();
+  const documents = new Map<string, Set<string>>();
+
+  function remove(id: string): void {
+    const tokens = documents.get(id);
+    if (!tokens) return;
+    for (const token of tokens) {
+      const ids = postings.get(token)!;
+      ids.delete(id);
+      if (ids.size === 0) postings.delete(token);
+    }
+    documents.delete(id);
+  }
+
+  function matchPrefix(term: string): Set<string> {
+    const ids = new Set<string>();
+    for (const [token, tokenIds] of postings) {
+      if (token.startsWith(term)) {
+        for (const id of tokenIds) ids.add(id);
+      }
+    }
+    return ids;
+  }
+
+  return {
+    set(id: string, text: string): void {
+      remove(id);
+      const tokens = new Set(tokenize(text));
+      if (tokens.size === 0) return;
+
+      documents.set(id, tokens);
+      for (const token of tokens) {
+        let ids = postings.get(token);
+        if (!ids) {
+          ids = new Set();
+          postings.set(token, ids);
+        }
+        ids.add(id);
+      }
+    },
+
+    remove,
+
+    match(terms: string[]): Set<string> {
+      if (terms.length === 0) return new Set();
+
+      let result = matchPrefix(terms[0]);
+      for (const term of terms.slice(1)) {
+        if (result.size === 0) break;
+        const ids = matchPrefix(term);
+        result = new Set([...result].filter(id => ids.has(id)));
+      }
+      return result;
+    },
+  };
+}
@@ -0,0 +1,1033 @@
+import BetterSqlite3 from 'better-sqlite3';
+import {
+  StorageBackend, User, Session, Conversation, ConversationMember, Message, MessageEdit, MemberRole, Reaction,
+  Attachment, LinkPreview, Mention, Webhook, MessagePageQuery, MessageSearchQuery, MentionQuery,
+} from './types';
+import { MigrationTarget, backupPath, runMigrations } from './migrations';
+import type { JsonDatabase } from './jsonStorage';
+
+interface UserRow {
+  id: string;
+  username: string;
+  password: string;
+  display_name: string;
+  avatar_id: string | null;
+  bio: string | null;
+  status: User['status'];
+  presence: User['presence'];
+  status_text: string | null;
+  status_emoji: string | null;
+  status_expires_at: string | null;
+  last_seen_at: string | null;
+  notifications: User['notifications'];
+  muted_until: string | null;
+  created_at: string;
+}
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  device: string | null;
+  ip: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+interface ConversationRow {
+  id: string;
+  name: string | null;
+  avatar_id: string | null;
+  is_group: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MemberRow {
+  conversation_id: string;
+  user_id: string;
+  role: MemberRole;
+  joined_at: string;
+  last_read_message_id: string | null;
+  last_read_message_at: string | null;
+  notifications: ConversationMember['notifications'];
+  muted_until: string | null;
+}
+
+interface MessageRow {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string | null;
+  type: Message['type'];
+  format: Message['format'];
+  file_name: string | null;
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reply_to_id: string | null;
+  thread_root_id: string | null;
+  reply_count: number;
+  client_message_id: string | null;
+  webhook_id: string | null;
+}
+
+interface MessageEditRow {
+  message_id: string;
+  content: string | null;
+  edited_at: string;
+}
+
+interface ReactionRow {
+  message_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: string;
+}
+
+interface LinkPreviewRow {
+  id: string;
+  message_id: string;
+  url: string;
+  position: number;
+  title: string | null;
+  description: string | null;
+  site_name: string | null;
+  image_key: string | null;
+  created_at: string;
+}
+
+interface MentionRow {
+  message_id: string;
+  conversation_id: string;
+  user_id: string;
+  type: Mention['type'];
+  created_at: string;
+}
+
+interface WebhookRow {
+  id: string;
+  conversation_id: string;
+  created_by: string;
+  display_name: string | null;
+  avatar_id: string | null;
+  token_hash: string;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+interface AttachmentRow {
+  id: string;
+  uploader_id: string;
+  message_id: string | null;
+  conversation_id: string | null;
+  file_name: string;
+  mime_type: string;
+  size: number;
+  storage_key: string;
+  thumbnail_key: string | null;
+  preview_key: string | null;
+  width: number | null;
+  height: number | null;
+  created_at: string;
+}
+
+const userColumns: Record<keyof User, string> = {
+  id: 'id',
+  username: 'username',
+  password: 'password',
+  displayName: 'display_name',
+  avatarId: 'avatar_id',
+  bio: 'bio',
+  status: 'status',
+  presence: 'presence',
+  statusText: 'status_text',
+  statusEmoji: 'status_emoji',
+  statusExpiresAt: 'status_expires_at',
+  lastSeenAt: 'last_seen_at',
+  notifications: 'notifications',
+  mutedUntil: 'muted_until',
+  createdAt: 'created_at',
+};
+
+const sessionColumns: Record<keyof Session, string> = {
+  id: 'id',
+  userId: 'user_id',
+  refreshTokenHash: 'refresh_token_hash',
+  device: 'device',
+  ip: 'ip',
+  createdAt: 'created_at',
+  lastUsedAt: 'last_used_at',
+  expiresAt: 'expires_at',
+  revokedAt: 'revoked_at',
+};
+
+const conversationColumns: Record<keyof Conversation, string> = {
+  id: 'id',
+  name: 'name',
+  avatarId: 'avatar_id',
+  isGroup: 'is_group',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+const memberColumns: Record<keyof ConversationMember, string> = {
+  conversationId: 'conversation_id',
+  userId: 'user_id',
+  role: 'role',
+  joinedAt: 'joined_at',
+  lastReadMessageId: 'last_read_message_id',
+  lastReadMessageAt: 'last_read_message_at',
+  notifications: 'notifications',
+  mutedUntil: 'muted_until',
+};
+
+const messageColumns: Record<keyof Message, string> = {
+  id: 'id',
+  conversationId: 'conversation_id',
+  senderId: 'sender_id',
+  content: 'content',
+  type: 'type',
+  format: 'format',
+  fileName: 'file_name',
+  createdAt: 'created_at',
+  editedAt: 'edited_at',
+  deletedAt: 'deleted_at',
+  replyToId: 'reply_to_id',
+  threadRootId: 'thread_root_id',
+  replyCount: 'reply_count',
+  clientMessageId: 'client_message_id',
+  webhookId: 'webhook_id',
+};
+
+const webhookColumns: Record<keyof Webhook, string> = {
+  id: 'id',
+  conversationId: 'conversation_id',
+  createdBy: 'created_by',
+  displayName: 'display_name',
+  avatarId: 'avatar_id',
+  tokenHash: 'token_hash',
+  createdAt: 'created_at',
+  revokedAt: 'revoked_at',
+};
+
+const attachmentColumns: Record<keyof Attachment, string> = {
+  id: 'id',
+  uploaderId: 'uploader_id',
+  messageId: 'message_id',
+  conversationId: 'conversation_id',
+  fileName: 'file_name',
+  mimeType: 'mime_type',
+  size: 'size',
+  storageKey: 'storage_key',
+  thumbnailKey: 'thumbnail_key',
+  previewKey: 'preview_key',
+  width: 'width',
+  height: 'height',
+  createdAt: 'created_at',
+};
+
+function toUser(row: UserRow): User {
+  return {
+    id: row.id,
+    username: row.username,
+    password: row.password,
+    displayName: row.display_name,
+    avatarId: row.avatar_id,
+    bio: row.bio,
+    status: row.status,
+    presence: row.presence,
+    statusText: row.status_text,
+    statusEmoji: row.status_emoji,
+    statusExpiresAt: row.status_expires_at,
+    lastSeenAt: row.last_seen_at,
+    notifications: row.notifications,
+    mutedUntil: row.muted_until,
+    createdAt: row.created_at,
+  };
+}
+
+function toSession(row: SessionRow): Session {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    refreshTokenHash: row.refresh_token_hash,
+    device: row.device,
+    ip: row.ip,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+function toConversation(row: ConversationRow): Conversation {
+  return {
+    id: row.id,
+    name: row.name,
+    avatarId: row.avatar_id,
+    isGroup: row.is_group === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toMember(row: MemberRow): ConversationMember {
+  return {
+    conversationId: row.conversation_id,
+    userId: row.user_id,
+    role: row.role,
+    joinedAt: row.joined_at,
+    lastReadMessageId: row.last_read_message_id,
+    lastReadMessageAt: row.last_read_message_at,
+    notifications: row.notifications,
+    mutedUntil: row.muted_until,
+  };
+}
+
+function toMessage(row: MessageRow): Message {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    senderId: row.sender_id,
+    content: row.content,
+    type: row.type,
+    format: row.format,
+    fileName: row.file_name,
+    createdAt: row.created_at,
+    editedAt: row.edited_at,
+    deletedAt: row.deleted_at,
+    replyToId: row.reply_to_id,
+    threadRootId: row.thread_root_id,
+    replyCount: row.reply_count,
+    clientMessageId: row.client_message_id,
+    webhookId: row.webhook_id,
+  };
+}
+
+function toMessageEdit(row: MessageEditRow): MessageEdit {
+  return {
+    messageId: row.message_id,
+    content: row.content,
+    editedAt: row.edited_at,
+  };
+}
+
+function toReaction(row: ReactionRow): Reaction {
+  return {
+    messageId: row.message_id,
+    userId: row.user_id,
+    emoji: row.emoji,
+    createdAt: row.created_at,
+  };
+}
+
+function toMention(row: MentionRow): Mention {
+  return {
+    messageId: row.message_id,
+    conversationId: row.conversation_id,
+    userId: row.user_id,
+    type: row.type,
+    createdAt: row.created_at,
+  };
+}
+
+function toAttachment(row: AttachmentRow): Attachment {
+  return {
+    id: row.id,
+    uploaderId: row.uploader_id,
+    messageId: row.message_id,
+    conversationId: row.conversation_id,
+    fileName: row.file_name,
+    mimeType: row.mime_type,
+    size: row.size,
+    storageKey: row.storage_key,
+    thumbnailKey: row.thumbnail_key,
+    previewKey: row.preview_key,
+    width: row.width,
+    height: row.height,
+    createdAt: row.created_at,
+  };
+}
+
+function toLinkPreview(row: LinkPreviewRow): LinkPreview {
+  return {
+    id: row.id,
+    messageId: row.message_id,
+    url: row.url,
+    position: row.position,
+    title: row.title,
+    description: row.description,
+    siteName: row.site_name,
+    imageKey: row.image_key,
+    createdAt: row.created_at,
+  };
+}
+
+function toWebhook(row: WebhookRow): Webhook {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    createdBy: row.created_by,
+    displayName: row.display_name,
+    avatarId: row.avatar_id,
+    tokenHash: row.token_hash,
+    createdAt: row.created_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+function toSqlValue(value: unknown): unknown {
+  return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+}
+
+// Builds an UPDATE for the given partial entity, ignoring keys that have no
+// column mapping so callers can't write arbitrary columns. Key columns are
+// never updated; the statement expects their values as trailing parameters.
+function buildUpdate<T>(
+  table: string,
+  columns: Record<keyof T, string>,
+  updates: Partial<T>,
+  keys: (keyof T)[] = ['id' as keyof T]
+): { sql: string; values: unknown[] } | null {
+  const assignments: string[] = [];
+  const values: unknown[] = [];
+  for (const [key, value] of Object.entries(updates)) {
+    const column = columns[key as keyof T];
+    if (!column || keys.includes(key as keyof T) || value === undefined) continue;
+    assignments.push(`${column} = ?`);
+    values.push(toSqlValue(value));
+  }
+  if (assignments.length === 0) return null;
+  const where = keys.map(key => `${columns[key]} = ?`).join(' AND ');
+  return { sql: `UPDATE ${table} SET ${assignments.join(', ')} WHERE ${where}`, values };
+}
+
+// Builds the FTS5 query for a message search. Every term is quoted so user
+// input can never be read as FTS syntax, and matches as a prefix.
+function buildSearch(query: MessageSearchQuery): { sql: string; values: unknown[] } {
+  const match = query.terms.map(term => `"${term.replace(/"/g, '""')}"*`).join(' ');
+  const conditions = ['messages_fts MATCH ?', 'm.deleted_at IS NULL'];
+  const values: unknown[] = [match];
+
+  conditions.push(`m.conversation_id IN (${query.conversationIds.map(() => '?').join(', ')})`);
+  values.push(...query.conversationIds);
+
+  if (query.senderId) {
+    conditions.push('m.sender_id = ?');
+    values.push(query.senderId);
+  }
+  conditions.push(`m.type IN (${query.types.map(() => '?').join(', ')})`);
+  values.push(...query.types);
+  if (query.from) {
+    conditions.push('m.created_at >= ?');
+    values.push(query.from);
+  }
+  if (query.to) {
+    conditions.push('m.created_at <= ?');
+    values.push(query.to);
+  }
+  if (query.before) {
+    conditions.push('(m.created_at < ? OR (m.created_at = ? AND m.id < ?))');
+    values.push(query.before.createdAt, query.before.createdAt, query.before.id);
+  }
+
+  values.push(query.limit);
+  return {
+    sql: `
+      SELECT m.* FROM messages_fts JOIN messages m ON m.rowid = messages_fts.rowid
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY m.created_at DESC, m.id DESC LIMIT ?
+    `,
+    values,
+  };
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, c => `\\${c}`);
+}
+
+function createMigrationTarget(conn: BetterSqlite3.Database, dbPath: string): MigrationTarget {
+  const readVersion = () => conn.pragma('user_version', { simple: true }) as number;
+
+  return {
+    description: dbPath,
+    readVersion,
+
+    backup() {
+      const { count } = conn.prepare('SELECT COUNT(*) AS count FROM sqlite_master').get() as { count: number };
+      if (count === 0) return null;
+      const dest = backupPath(dbPath, readVersion());
+      conn.prepare('VACUUM INTO ?').run(dest);
+      return dest;
+    },
+
+    apply(migration) {
+      conn.transaction(() => {
+        migration.sqlite(conn);
+        conn.pragma(`user_version = ${migration.version}`);
+      })();
+    },
+  };
+}
+
+function openConnection(dbPath: string): BetterSqlite3.Database {
+  const conn = new BetterSqlite3(dbPath);
+  conn.pragma('journal_mode = WAL');
+  conn.pragma('foreign_keys = ON');
+  return conn;
+}
+
+// The returned target owns its connection; call close() when done with it
+export function openSqliteMigrationTarget(dbPath: string): MigrationTarget & { close(): void } {
+  const conn = openConnection(dbPath);
+  return { ...createMigrationTarget(conn, dbPath), close: () => conn.close() };
+}
+
+// Indexed SQLite storage. Each call is a single synchronous statement, so the
+// rest of the server can keep treating storage as a plain in-process object.
+export function createSqliteStorage(dbPath: string): StorageBackend {
+  const conn = openConnection(dbPath);
+  runMigrations(createMigrationTarget(conn, dbPath));
+  return createStorageOn(conn);
+}
+
+// Copies a JSON backend's data, already at the latest schema version, into a
+// new database at dbPath. It's a single transaction, so a failed import
+// leaves nothing half-copied.
+export function importJsonDatabase(dbPath: string, data: JsonDatabase): void {
+  const conn = openConnection(dbPath);
+  try {
+    runMigrations(createMigrationTarget(conn, dbPath));
+    const storage = createStorageOn(conn);
+
+    conn.transaction(() => {
+      // Messages and webhooks refer to each other, so no insert order
+      // satisfies every foreign key; they're checked on commit instead
+      conn.pragma('defer_foreign_keys = ON');
+      data.users.forEach(user => storage.createUser(user));
+      data.sessions.forEach(session => storage.createSession(session));
+      data.conversations.forEach(conversation => storage.createConversation(conversation));
+      data.conversationMembers.forEach(member => storage.addConversationMember(member));
+      data.webhooks.forEach(webhook => storage.createWebhook(webhook));
+      data.messages.forEach(message => storage.createMessage(message));
+      data.messageEdits.forEach(edit => storage.addMessageEdit(edit));
+      data.reactions.forEach(reaction => storage.addReaction(reaction));
+      data.attachments.forEach(attachment => storage.createAttachment(attachment));
+      data.linkPreviews.forEach(preview => storage.createLinkPreview(preview));
+      storage.addMentions(data.mentions);
+    })();
+  } finally {
+    conn.close();
+  }
+}
+
+function createStorageOn(conn: BetterSqlite3.Database): StorageBackend {
+  const statements = {
+    userByUsername: conn.prepare('SELECT * FROM users WHERE username = ?'),
+    userById: conn.prepare('SELECT * FROM users WHERE id = ?'),
+    insertUser: conn.prepare(`
+      INSERT INTO users (
+        id, username, password, display_name, avatar_id, bio, status, presence,
+        status_text, status_emoji, status_expires_at, last_seen_at, notifications, muted_until, created_at
+      )
+      VALUES (
+        @id, @username, @password, @displayName, @avatarId, @bio, @status, @presence,
+        @statusText, @statusEmoji, @statusExpiresAt, @lastSeenAt, @notifications, @mutedUntil, @createdAt
+      )
+    `),
+    searchUsers: conn.prepare(`
+      SELECT * FROM users
+      WHERE id != ? AND (username LIKE ? ESCAPE '\\' OR display_name LIKE ? ESCAPE '\\')
+      LIMIT 20
+    `),
+    usersNotOffline: conn.prepare("SELECT * FROM users WHERE status != 'offline'"),
+    sessionById: conn.prepare('SELECT * FROM sessions WHERE id = ?'),
+    sessionsForUser: conn.prepare(
+      'SELECT * FROM sessions WHERE user_id = ? AND revoked_at IS NULL ORDER BY last_used_at DESC'
+    ),
+    insertSession: conn.prepare(`
+      INSERT INTO sessions (
+        id, user_id, refresh_token_hash, device, ip, created_at, last_used_at, expires_at, revoked_at
+      )
+      VALUES (
+        @id, @userId, @refreshTokenHash, @device, @ip, @createdAt, @lastUsedAt, @expiresAt, @revokedAt
+      )
+    `),
+    conversationById: conn.prepare('SELECT * FROM conversations WHERE id = ?'),
+    directConversation: conn.prepare(`
+      SELECT c.* FROM conversations c
+      JOIN conversation_members a ON a.conversation_id = c.id AND a.user_id = ?
+      JOIN conversation_members b ON b.conversation_id = c.id AND b.user_id = ?
+      WHERE c.is_group = 0
+        AND (SELECT COUNT(*) FROM conversation_members m WHERE m.conversation_id = c.id) = 2
+      LIMIT 1
+    `),
+    insertConversation: conn.prepare(`
+      INSERT INTO conversations (id, name, avatar_id, is_group, created_at, updated_at)
+      VALUES (@id, @name, @avatarId, @isGroup, @createdAt, @updatedAt)
+    `),
+    conversationIdsForUser: conn.prepare(
+      'SELECT conversation_id FROM conversation_members WHERE user_id = ?'
+    ),
+    membersForConversation: conn.prepare(
+      'SELECT user_id FROM conversation_members WHERE conversation_id = ?'
+    ),
+    memberRecords: conn.prepare(
+      'SELECT * FROM conversation_members WHERE conversation_id = ? ORDER BY rowid'
+    ),
+    member: conn.prepare(
+      'SELECT * FROM conversation_members WHERE conversation_id = ? AND user_id = ?'
+    ),
+    insertMember: conn.prepare(`
+      INSERT OR IGNORE INTO conversation_members (
+        conversation_id, user_id, role, joined_at, last_read_message_id, last_read_message_at,
+        notifications, muted_until
+      )
+      VALUES (
+        @conversationId, @userId, @role, @joinedAt, @lastReadMessageId, @lastReadMessageAt,
+        @notifications, @mutedUntil
+      )
+    `),
+    deleteMember: conn.prepare(
+      'DELETE FROM conversation_members WHERE conversation_id = ? AND user_id = ?'
+    ),
+    latestMessages: conn.prepare(`
+      SELECT * FROM messages WHERE conversation_id = ? AND thread_root_id IS NULL
+      ORDER BY created_at DESC, id DESC LIMIT ?
+    `),
+    messagesBefore: conn.prepare(`
+      SELECT * FROM messages
+      WHERE conversation_id = @conversationId AND thread_root_id IS NULL AND (created_at, id) < (@createdAt, @id)
+      ORDER BY created_at DESC, id DESC LIMIT @limit
+    `),
+    messagesAfter: conn.prepare(`
+      SELECT * FROM messages
+      WHERE conversation_id = @conversationId AND thread_root_id IS NULL AND (created_at, id) > (@createdAt, @id)
+      ORDER BY created_at ASC, id ASC LIMIT @limit
+    `),
+    unreadCount: conn.prepare(`
+      SELECT COUNT(*) AS count FROM messages
+      WHERE conversation_id = @conversationId AND created_at > @since
+        AND sender_id != @userId AND thread_root_id IS NULL AND deleted_at IS NULL
+    `),
+    threadReplies: conn.prepare(
+      'SELECT * FROM messages WHERE thread_root_id = ? ORDER BY created_at'
+    ),
+    messageById: conn.prepare('SELECT * FROM messages WHERE id = ?'),
+    messageByClientId: conn.prepare(
+      'SELECT * FROM messages WHERE sender_id = ? AND client_message_id = ?'
+    ),
+    insertMessage: conn.prepare(`
+      INSERT INTO messages (
+        id, conversation_id, sender_id, content, type, format, file_name,
+        created_at, edited_at, deleted_at, reply_to_id, thread_root_id, reply_count,
+        client_message_id, webhook_id
+      )
+      VALUES (
+        @id, @conversationId, @senderId, @content, @type, @format, @fileName,
+        @createdAt, @editedAt, @deletedAt, @replyToId, @threadRootId, @replyCount,
+        @clientMessageId, @webhookId
+      )
+    `),
+    messageEdits: conn.prepare(
+      'SELECT * FROM message_edits WHERE message_id = ? ORDER BY edited_at'
+    ),
+    insertMessageEdit: conn.prepare(`
+      INSERT INTO message_edits (message_id, content, edited_at)
+      VALUES (@messageId, @content, @editedAt)
+    `),
+    deleteMessageEdits: conn.prepare('DELETE FROM message_edits WHERE message_id = ?'),
+    insertReaction: conn.prepare(`
+      INSERT OR IGNORE INTO message_reactions (message_id, user_id, emoji, created_at)
+      VALUES (@messageId, @userId, @emoji, @createdAt)
+    `),
+    deleteReaction: conn.prepare(
+      'DELETE FROM message_reactions WHERE message_id = ? AND user_id = ? AND emoji = ?'
+    ),
+    deleteReactions: conn.prepare('DELETE FROM message_reactions WHERE message_id = ?'),
+    attachmentById: conn.prepare('SELECT * FROM attachments WHERE id = ?'),
+    unsentAttachments: conn.prepare(
+      'SELECT * FROM attachments WHERE message_id IS NULL AND created_at < ?'
+    ),
+    storageUsage: conn.prepare(
+      'SELECT COALESCE(SUM(size), 0) AS total FROM attachments WHERE uploader_id = ?'
+    ),
+    insertAttachment: conn.prepare(`
+      INSERT INTO attachments (
+        id, uploader_id, message_id, conversation_id, file_name, mime_type, size,
+        storage_key, thumbnail_key, preview_key, width, height, created_at
+      )
+      VALUES (
+        @id, @uploaderId, @messageId, @conversationId, @fileName, @mimeType, @size,
+        @storageKey, @thumbnailKey, @previewKey, @width, @height, @createdAt
+      )
+    `),
+    deleteAttachment: conn.prepare('DELETE FROM attachments WHERE id = ?'),
+    insertLinkPreview: conn.prepare(`
+      INSERT INTO link_previews (
+        id, message_id, url, position, title, description, site_name, image_key, created_at
+      )
+      VALUES (
+        @id, @messageId, @url, @position, @title, @description, @siteName, @imageKey, @createdAt
+      )
+    `),
+    deleteLinkPreview: conn.prepare('DELETE FROM link_previews WHERE id = ?'),
+    insertMention: conn.prepare(`
+      INSERT OR IGNORE INTO mentions (message_id, conversation_id, user_id, type, created_at)
+      VALUES (@messageId, @conversationId, @userId, @type, @createdAt)
+    `),
+    deleteMentions: conn.prepare('DELETE FROM mentions WHERE message_id = ?'),
+    webhookById: conn.prepare('SELECT * FROM webhooks WHERE id = ?'),
+    conversationWebhooks: conn.prepare(
+      'SELECT * FROM webhooks WHERE conversation_id = ? AND revoked_at IS NULL ORDER BY created_at'
+    ),
+    insertWebhook: conn.prepare(`
+      INSERT INTO webhooks (
+        id, conversation_id, created_by, display_name, avatar_id, token_hash, created_at, revoked_at
+      )
+      VALUES (
+        @id, @conversationId, @createdBy, @displayName, @avatarId, @tokenHash, @createdAt, @revokedAt
+      )
+    `),
+  };
+
+  const insertMentions = conn.transaction((mentions: Mention[]) => {
+    for (const mention of mentions) statements.insertMention.run(mention);
+  });
+
+  return {
+    // Users
+    findUserByUsername(username: string): User | undefined {
+      const row = statements.userByUsername.get(username) as UserRow | undefined;
+      return row && toUser(row);
+    },
+
+    findUserById(id: string): User | undefined {
+      const row = statements.userById.get(id) as UserRow | undefined;
+      return row && toUser(row);
+    },
+
+    createUser(user: User): void {
+      statements.insertUser.run(user);
+    },
+
+    updateUser(id: string, updates: Partial<User>): void {
+      const update = buildUpdate('users', userColumns, updates);
+      if (update) {
+        conn.prepare(update.sql).run(...update.values, id);
+      }
+    },
+
+    searchUsers(query: string, excludeUserId: string): User[] {
+      const pattern = `%${escapeLike(query)}%`;
+      const rows = statements.searchUsers.all(excludeUserId, pattern, pattern) as UserRow[];
+      return rows.map(toUser);
+    },
+
+    getUsersNotOffline(): User[] {
+      const rows = statements.usersNotOffline.all() as UserRow[];
+      return rows.map(toUser);
+    },
+
+    // Sessions
+    findSessionById(id: string): Session | undefined {
+      const row = statements.sessionById.get(id) as SessionRow | undefined;
+      return row && toSession(row);
+    },
+
+    getUserSessions(userId: string): Session[] {
+      const rows = statements.sessionsForUser.all(userId) as SessionRow[];
+      return rows.map(toSession);
+    },
+
+    createSession(session: Session): void {
+      statements.insertSession.run(session);
+    },
+
+    updateSession(id: string, updates: Partial<Session>): void {
+      const update = buildUpdate('sessions', sessionColumns, updates);
+      if (update) {
+        conn.prepare(update.sql).run(...update.values, id);
+      }
+    },
+
+    // Conversations
+    findConversationById(id: string): Conversation | undefined {
+      const row = statements.conversationById.get(id) as ConversationRow | undefined;
+      return row && toConversation(row);
+    },
+
+    findDirectConversation(userId1: string, userId2: string): Conversation | undefined {
+      const row = statements.directConversation.get(userId1, userId2) as ConversationRow | undefined;
+      return row && toConversation(row);
+    },
+
+    createConversation(conversation: Conversation): void {
+      statements.insertConversation.run({
+        ...conversation,
+        isGroup: toSqlValue(conversation.isGroup),
+      });
+    },
+
+    updateConversation(id: string, updates: Partial<Conversation>): void {
+      const update = buildUpdate('conversations', conversationColumns, updates);
+      if (update) {
+        conn.prepare(update.sql).run(...update.values, id);
+      }
+    },
+
+    getUserConversationIds(userId: string): string[] {
+      const rows = statements.conversationIdsForUser.all(userId) as { conversation_id: string }[];
+      return rows.map(r => r.conversation_id);
+    },
+
+    // Conversation Members
+    getConversationMembers(conversationId: string): string[] {
+      const rows = statements.membersForConversation.all(conversationId) as { user_id: string }[];
+      return rows.map(r => r.user_id);
+    },
+
+    listConversationMembers(conversationId: string): ConversationMember[] {
+      const rows = statements.memberRecords.all(conversationId) as MemberRow[];
+      return rows.map(toMember);
+    },
+
+    findConversationMember(conversationId: string, userId: string): ConversationMember | undefined {
+      const row = statements.member.get(conversationId, userId) as MemberRow | undefined;
+      return row && toMember(row);
+    },
+
+    addConversationMember(member: ConversationMember): void {
+      statements.insertMember.run(member);
+    },
+
+    updateConversationMember(conversationId: string, userId: string, updates: Partial<ConversationMember>): void {
+      const update = buildUpdate('conversation_members', memberColumns, updates, ['conversationId', 'userId']);
+      if (update) {
+        conn.prepare(update.sql).run(...update.values, conversationId, userId);
+      }
+    },
+
+    removeConversationMember(conversationId: string, userId: string): void {
+      statements.deleteMember.run(conversationId, userId);
+    },
+
+    // Messages
+    getMessages(conversationId: string, { before, after, limit }: MessagePageQuery): Message[] {
+      if (after) {
+        const rows = statements.messagesAfter.all({ conversationId, createdAt: after.createdAt, id: after.id, limit }) as MessageRow[];
+        return rows.map(toMessage);
+      }
+      const rows = (before
+        ? statements.messagesBefore.all({ conversationId, createdAt: before.createdAt, id: before.id, limit })
+        : statements.latestMessages.all(conversationId, limit)) as MessageRow[];
+      return rows.map(toMessage).reverse();
+    },
+
+    getLastMessage(conversationId: string): Message | undefined {
+      const rows = statements.latestMessages.all(conversationId, 1) as MessageRow[];
+      return rows[0] && toMessage(rows[0]);
+    },
+
+    getThreadReplies(threadRootId: string): Message[] {
+      const rows = statements.threadReplies.all(threadRootId) as MessageRow[];
+      return rows.map(toMessage);
+    },
+
+    countUnreadMessages(conversationId: string, userId: string, since: string | null): number {
+      const { count } = statements.unreadCount.get({ conversationId, userId, since: since || '' }) as { count: number };
+      return count;
+    },
+
+    findMessageById(id: string): Message | undefined {
+      const row = statements.messageById.get(id) as MessageRow | undefined;
+      return row && toMessage(row);
+    },
+
+    findMessageByClientId(senderId: string, clientMessageId: string): Message | undefined {
+      const row = statements.messageByClientId.get(senderId, clientMessageId) as MessageRow | undefined;
+      return row && toMessage(row);
+    },
+
+    createMessage(message: Message): void {
+      statements.insertMessage.run(message);
+    },
+
+    updateMessage(id: string, updates: Partial<Message>): void {
+      const update = buildUpdate('messages', messageColumns, updates);
+      if (update) {
+        conn.prepare(update.sql).run(...update.values, id);
+      }
+    },
+
+    searchMessages(query: MessageSearchQuery): Message[] {
+      if (query.terms.length === 0 || query.conversationIds.length === 0) return [];
+      const search = buildSearch(query);
+      const rows = conn.prepare(search.sql).all(...search.values) as MessageRow[];
+      return rows.map(toMessage);
+    },
+
+    // Message edit history
+    getMessageEdits(messageId: string): MessageEdit[] {
+      const rows = statements.messageEdits.all(messageId) as MessageEditRow[];
+      return rows.map(toMessageEdit);
+    },
+
+    addMessageEdit(edit: MessageEdit): void {
+      statements.insertMessageEdit.run(edit);
+    },
+
+    deleteMessageEdits(messageId: string): void {
+      statements.deleteMessageEdits.run(messageId);
+    },
+
+    // Reactions
+    getReactions(messageIds: string[]): Reaction[] {
+      if (messageIds.length === 0) return [];
+      const placeholders = messageIds.map(() => '?').join(', ');
+      const rows = conn
+        .prepare(`SELECT * FROM message_reactions WHERE message_id IN (${placeholders}) ORDER BY created_at`)
+        .all(...messageIds) as ReactionRow[];
+      return rows.map(toReaction);
+    },
+
+    addReaction(reaction: Reaction): void {
+      statements.insertReaction.run(reaction);
+    },
+
+    removeReaction(messageId: string, userId: string, emoji: string): void {
+      statements.deleteReaction.run(messageId, userId, emoji);
+    },
+
+    deleteReactions(messageId: string): void {
+      statements.deleteReactions.run(messageId);
+    },
+
+    // Attachments
+    findAttachmentById(id: string): Attachment | undefined {
+      const row = statements.attachmentById.get(id) as AttachmentRow | undefined;
+      return row && toAttachment(row);
+    },
+
+    getMessageAttachments(messageIds: string[]): Attachment[] {
+      if (messageIds.length === 0) return [];
+      const placeholders = messageIds.map(() => '?').join(', ');
+      const rows = conn
+        .prepare(`SELECT * FROM attachments WHERE message_id IN (${placeholders})`)
+        .all(...messageIds) as AttachmentRow[];
+      return rows.map(toAttachment);
+    },
+
+    getUnsentAttachments(createdBefore: string): Attachment[] {
+      const rows = statements.unsentAttachments.all(createdBefore) as AttachmentRow[];
+      return rows.map(toAttachment);
+    },
+
+    getUserStorageUsage(userId: string): number {
+      const row = statements.storageUsage.get(userId) as { total: number };
+      return row.total;
+    },
+
+    createAttachment(attachment: Attachment): void {
+      statements.insertAttachment.run(attachment);
+    },
+
+    updateAttachment(id: string, updates: Partial<Attachment>): void {
+      const update = buildUpdate('attachments', attachmentColumns, updates);
+      if (update) {
+        conn.prepare(update.sql).run(...update.values, id);
+      }
+    },
+
+    deleteAttachment(id: string): void {
+      statements.deleteAttachment.run(id);
+    },
+
+    // Link previews
+    getLinkPreviews(messageIds: string[]): LinkPreview[] {
+      if (messageIds.length === 0) return [];
+      const placeholders = messageIds.map(() => '?').join(', ');
+      const rows = conn
+        .prepare(`SELECT * FROM link_previews WHERE message_id IN (${placeholders}) ORDER BY position`)
+        .all(...messageIds) as LinkPreviewRow[];
+      return rows.map(toLinkPreview);
+    },
+
+    createLinkPreview(preview: LinkPreview): void {
+      statements.insertLinkPreview.run(preview);
+    },
+
+    deleteLinkPreview(id: string): void {
+      statements.deleteLinkPreview.run(id);
+    },
+
+    // Mentions
+    getMentions(messageIds: string[]): Mention[] {
+      if (messageIds.length === 0) return [];
+      const placeholders = messageIds.map(() => '?').join(', ');
+      const rows = conn
+        .prepare(`SELECT * FROM mentions WHERE message_id IN (${placeholders})`)
+        .all(...messageIds) as MentionRow[];
+      return rows.map(toMention);
+    },
+
+    addMentions(mentions: Mention[]): void {
+      insertMentions(mentions);
+    },
+
+    deleteMentions(messageId: string): void {
+      statements.deleteMentions.run(messageId);
+    },
+
+    getMentionedMessages(query: MentionQuery): Message[] {
+      if (query.conversationIds.length === 0) return [];
+      const conditions = ['m.sender_id != ?', 'm.deleted_at IS NULL'];
+      const values: unknown[] = [query.userId, ...query.conversationIds, query.userId];
+      if (query.before) {
+        conditions.push('(m.created_at < ? OR (m.created_at = ? AND m.id < ?))');
+        values.push(query.before.createdAt, query.before.createdAt, query.before.id);
+      }
+      values.push(query.limit);
+
+      const placeholders = query.conversationIds.map(() => '?').join(', ');
+      const rows = conn.prepare(`
+        SELECT m.* FROM messages m
+        WHERE m.id IN (
+          SELECT message_id FROM mentions WHERE user_id = ? AND conversation_id IN (${placeholders})
+        )
+        AND ${conditions.join(' AND ')}
+        ORDER BY m.created_at DESC, m.id DESC LIMIT ?
+      `).all(...values) as MessageRow[];
+      return rows.map(toMessage);
+    },
+
+    // Webhooks
+    findWebhookById(id: string): Webhook | undefined {
+      const row = statements.webhookById.get(id) as WebhookRow | undefined;
+      return row ? toWebhook(row) : undefined;
+    },
+
+    listWebhooks(conversationId: string): Webhook[] {
+      const rows = statements.conversationWebhooks.all(conversationId) as WebhookRow[];
+      return rows.map(toWebhook);
+    },
+
+    createWebhook(webhook: Webhook): void {
+      statements.insertWebhook.run(webhook);
+    },
+
+    updateWebhook(id: string, updates: Partial<Webhook>): void {
+      const update = buildUpdate('webhooks', webhookColumns, updates);
+      if (update) {
+        conn.prepare(update.sql).run(...update.values, id);
+      }
+    },
+
+    close(): void {
+      conn.close();
+    },
+  };
+}
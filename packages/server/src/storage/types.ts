@@ -0,0 +1,312 @@
+// What the user picked; 'online' is automatic and turns 'away' while idle
+export type PresenceSetting = 'online' | 'away' | 'dnd' | 'invisible';
+export type UserStatus = PresenceSetting | 'offline';
+// How a user wants to hear about new messages. 'muted' lasts until the
+// accompanying mutedUntil, or until changed when that's null.
+export type NotificationLevel = 'all' | 'mentions' | 'muted';
+
+export interface User {
+  id: string;
+  username: string;
+  password: string;
+  displayName: string;
+  // Names the avatar's image files, see avatars.ts
+  avatarId: string | null;
+  bio: string | null;
+  // Current status, 'offline' when the user has no open connection
+  status: UserStatus;
+  presence: PresenceSetting;
+  // Custom status message; hidden once statusExpiresAt passes
+  statusText: string | null;
+  statusEmoji: string | null;
+  statusExpiresAt: string | null;
+  // When the user last went offline while visible
+  lastSeenAt: string | null;
+  // Default for conversations without a setting of their own
+  notifications: NotificationLevel;
+  mutedUntil: string | null;
+  createdAt: string;
+}
+
+export type MemberRole = 'owner' | 'admin' | 'member';
+
+export interface ConversationMember {
+  conversationId: string;
+  userId: string;
+  role: MemberRole;
+  joinedAt: string;
+  // Read marker: the newest message this member has seen, and its createdAt
+  lastReadMessageId: string | null;
+  lastReadMessageAt: string | null;
+  // The member's setting for this conversation; null follows their default
+  notifications: NotificationLevel | null;
+  mutedUntil: string | null;
+}
+
+export interface Conversation {
+  id: string;
+  name: string | null;
+  // Names the group picture's image files, see avatars.ts
+  avatarId: string | null;
+  isGroup: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Message {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  content: string | null;
+  // 'system' messages are notices about group changes, posted by the server
+  type: 'text' | 'image' | 'file' | 'system';
+  // Whether the content is markdown or shown as typed
+  format: 'plain' | 'markdown';
+  // Name of the attached file, kept here so it can be searched
+  fileName: string | null;
+  createdAt: string;
+  editedAt: string | null;
+  // Set when the message is deleted; the row stays behind as a tombstone
+  deletedAt: string | null;
+  // The message this one quotes
+  replyToId: string | null;
+  // Set on thread replies; they are kept out of the main timeline
+  threadRootId: string | null;
+  // Number of thread replies, kept on root messages
+  replyCount: number;
+  // Id the sending client chose, so a resent message isn't stored twice
+  clientMessageId: string | null;
+  // Set on messages posted through an incoming webhook, whose id is then
+  // also the senderId
+  webhookId: string | null;
+}
+
+// A previous version of an edited message's content
+export interface MessageEdit {
+  messageId: string;
+  content: string | null;
+  editedAt: string;
+}
+
+export interface Reaction {
+  messageId: string;
+  userId: string;
+  emoji: string;
+  createdAt: string;
+}
+
+// An uploaded file. It belongs to its uploader until it is sent, then to
+// the message it was sent with, and is deleted along with that message.
+export interface Attachment {
+  id: string;
+  uploaderId: string;
+  messageId: string | null;
+  conversationId: string | null;
+  // The name it was uploaded with; only ever shown, never used as a path
+  fileName: string;
+  // Sniffed from the content, not taken from the upload
+  mimeType: string;
+  // Bytes on disk for the file and its variants, counted against the uploader's quota
+  size: number;
+  // File names under the uploads directory. Images get a thumbnail and a
+  // preview; other files have neither.
+  storageKey: string;
+  thumbnailKey: string | null;
+  previewKey: string | null;
+  width: number | null;
+  height: number | null;
+  createdAt: string;
+}
+
+// A preview of a link in a message, fetched after the message was sent.
+// Deleted along with the message, or when the sender dismisses it.
+export interface LinkPreview {
+  id: string;
+  messageId: string;
+  url: string;
+  // Order among the message's previews, following the links in the content
+  position: number;
+  title: string | null;
+  description: string | null;
+  siteName: string | null;
+  // Thumbnail of the page's image, under the link previews directory
+  imageKey: string | null;
+  createdAt: string;
+}
+
+// A user a message mentioned, one per user and way they were mentioned:
+// by name, or as one of the members online (@here) or all the members (@all)
+// when it was sent. The sender counts among @here and @all, so the message
+// still shows what it mentioned, but never sees their own messages in
+// their mentions.
+export interface Mention {
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  type: 'user' | 'here' | 'all';
+  createdAt: string;
+}
+
+// An incoming webhook: a URL that posts into its conversation for whoever
+// holds its token. Only the token's hash is stored. Revoked hooks are kept
+// so the messages they posted still show their name.
+export interface Webhook {
+  id: string;
+  conversationId: string;
+  createdBy: string;
+  // Shown as the sender of its messages instead of "Webhook"
+  displayName: string | null;
+  avatarId: string | null;
+  tokenHash: string;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+// A signed-in device. The refresh token is rotated on every use and only
+// its hash is stored.
+export interface Session {
+  id: string;
+  userId: string;
+  refreshTokenHash: string;
+  // User agent and address the session was last used from
+  device: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+}
+
+// Where a message sits in the (createdAt, id) ordering
+export interface MessagePosition {
+  createdAt: string;
+  id: string;
+}
+
+// A page of the main timeline. With neither bound set it is the newest
+// `limit` messages; `before` pages backward and `after` pages forward. At
+// most one of them is set.
+export interface MessagePageQuery {
+  before?: MessagePosition;
+  after?: MessagePosition;
+  limit: number;
+}
+
+// A full-text search over messages. `terms` are already tokenized and each
+// matches as a word prefix; deleted messages never match.
+export interface MessageSearchQuery {
+  terms: string[];
+  conversationIds: string[];
+  senderId?: string;
+  // Only messages of these types
+  types: Message['type'][];
+  // Inclusive createdAt bounds
+  from?: string;
+  to?: string;
+  // Only messages before this position, for paging
+  before?: MessagePosition;
+  limit: number;
+}
+
+// Messages that mention a user, for their mentions inbox. Deleted messages
+// never match.
+export interface MentionQuery {
+  userId: string;
+  conversationIds: string[];
+  // Only messages before this position, for paging
+  before?: MessagePosition;
+  limit: number;
+}
+
+// Every persistence backend implements this interface. auth.ts and
+// conversations.ts only ever talk to the storage through it.
+export interface StorageBackend {
+  // Users
+  findUserByUsername(username: string): User | undefined;
+  findUserById(id: string): User | undefined;
+  createUser(user: User): void;
+  updateUser(id: string, updates: Partial<User>): void;
+  searchUsers(query: string, excludeUserId: string): User[];
+  // Users whose stored status is anything but 'offline'
+  getUsersNotOffline(): User[];
+
+  // Sessions
+  findSessionById(id: string): Session | undefined;
+  // Sessions that haven't been revoked, most recently used first
+  getUserSessions(userId: string): Session[];
+  createSession(session: Session): void;
+  updateSession(id: string, updates: Partial<Session>): void;
+
+  // Conversations
+  findConversationById(id: string): Conversation | undefined;
+  findDirectConversation(userId1: string, userId2: string): Conversation | undefined;
+  createConversation(conversation: Conversation): void;
+  updateConversation(id: string, updates: Partial<Conversation>): void;
+  getUserConversationIds(userId: string): string[];
+
+  // Conversation Members
+  getConversationMembers(conversationId: string): string[];
+  listConversationMembers(conversationId: string): ConversationMember[];
+  findConversationMember(conversationId: string, userId: string): ConversationMember | undefined;
+  addConversationMember(member: ConversationMember): void;
+  updateConversationMember(conversationId: string, userId: string, updates: Partial<ConversationMember>): void;
+  removeConversationMember(conversationId: string, userId: string): void;
+
+  // Messages
+  // Oldest first, ordered by (createdAt, id)
+  getMessages(conversationId: string, query: MessagePageQuery): Message[];
+  getLastMessage(conversationId: string): Message | undefined;
+  getThreadReplies(threadRootId: string): Message[];
+  // Live main-timeline messages from other users created after `since`
+  countUnreadMessages(conversationId: string, userId: string, since: string | null): number;
+  findMessageById(id: string): Message | undefined;
+  findMessageByClientId(senderId: string, clientMessageId: string): Message | undefined;
+  createMessage(message: Message): void;
+  updateMessage(id: string, updates: Partial<Message>): void;
+  // Matches newest first
+  searchMessages(query: MessageSearchQuery): Message[];
+
+  // Message edit history
+  getMessageEdits(messageId: string): MessageEdit[];
+  addMessageEdit(edit: MessageEdit): void;
+  deleteMessageEdits(messageId: string): void;
+
+  // Reactions, unique per (message, user, emoji)
+  getReactions(messageIds: string[]): Reaction[];
+  addReaction(reaction: Reaction): void;
+  removeReaction(messageId: string, userId: string, emoji: string): void;
+  deleteReactions(messageId: string): void;
+
+  // Attachments
+  findAttachmentById(id: string): Attachment | undefined;
+  getMessageAttachments(messageIds: string[]): Attachment[];
+  // Uploads created before `createdBefore` that were never sent in a message
+  getUnsentAttachments(createdBefore: string): Attachment[];
+  // Total bytes of everything the user has uploaded
+  getUserStorageUsage(userId: string): number;
+  createAttachment(attachment: Attachment): void;
+  updateAttachment(id: string, updates: Partial<Attachment>): void;
+  deleteAttachment(id: string): void;
+
+  // Link previews, in position order
+  getLinkPreviews(messageIds: string[]): LinkPreview[];
+  createLinkPreview(preview: LinkPreview): void;
+  deleteLinkPreview(id: string): void;
+
+  // Mentions
+  getMentions(messageIds: string[]): Mention[];
+  addMentions(mentions: Mention[]): void;
+  deleteMentions(messageId: string): void;
+  // Matches newest first; the user's own messages are left out
+  getMentionedMessages(query: MentionQuery): Message[];
+
+  // Webhooks
+  findWebhookById(id: string): Webhook | undefined;
+  // Hooks that haven't been revoked, oldest first
+  listWebhooks(conversationId: string): Webhook[];
+  createWebhook(webhook: Webhook): void;
+  updateWebhook(id: string, updates: Partial<Webhook>): void;
+
+  // Flush pending writes and release resources
+  close(): void;
+}
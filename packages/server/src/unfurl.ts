@@ -0,0 +1,373 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import sharp from 'sharp';
+
+// Fetches pages that links in messages point at and pulls out what a
+// preview card needs: OpenGraph tags, falling back to oEmbed and plain HTML
+// title and description. The URLs come from users, so every request, and
+// every redirect, is checked against private and reserved address ranges
+// before connecting, and the connection goes to the address that was checked.
+
+export interface UnfurlOptions {
+  // For the whole unfurl of one link, redirects and image included
+  timeoutMs: number;
+  // Pages are read up to this much; the metadata is in the head
+  maxPageBytes: number;
+  // Larger images are skipped rather than truncated
+  maxImageBytes: number;
+  maxRedirects: number;
+  // Longest side of the thumbnail kept of the page's image
+  thumbnailSize: number;
+  // How long results are remembered; failures for a shorter while
+  cacheTtlMs: number;
+  failureCacheTtlMs: number;
+  maxCacheEntries: number;
+  // Lets a local fixture server be unfurled in tests; never set in production
+  allowPrivateNetworks: boolean;
+}
+
+export const DEFAULT_UNFURL_OPTIONS: UnfurlOptions = {
+  timeoutMs: 5000,
+  maxPageBytes: 512 * 1024,
+  maxImageBytes: 5 * 1024 * 1024,
+  maxRedirects: 3,
+  thumbnailSize: 400,
+  cacheTtlMs: 60 * 60 * 1000,
+  failureCacheTtlMs: 10 * 60 * 1000,
+  maxCacheEntries: 500,
+  allowPrivateNetworks: false,
+};
+
+export interface UnfurledLink {
+  // Where the redirects ended up
+  url: string;
+  title: string | null;
+  description: string | null;
+  siteName: string | null;
+  // WebP, at most thumbnailSize on its longest side
+  thumbnail: Buffer | null;
+}
+
+export interface Unfurler {
+  // Null when the link can't be fetched or has nothing worth showing
+  unfurl(url: string): Promise<UnfurledLink | null>;
+}
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 300;
+const MAX_SITE_NAME_LENGTH = 100;
+const MAX_OEMBED_BYTES = 64 * 1024;
+const USER_AGENT = 'ChatterBoxBot/1.0 (link previews)';
+
+// Without private networks allowed, only the standard web ports are fetched
+const PUBLIC_PORTS = new Set(['', '80', '443']);
+
+const BLOCKED_RANGES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_RANGES.addSubnet(address, prefix, 'ipv4');
+}
+// Teredo (2001::/32) and 6to4 (2002::/16) addresses tunnel to an IPv4
+// address embedded in them, which may well be a private one
+for (const [address, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001::', 32], ['2001:db8::', 32],
+  ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(address, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return isPrivateAddress(mapped);
+
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+class UnfurlError extends Error {}
+
+type LookupCallback = (error: Error | null, address: string | dns.LookupAddress[], family?: number) => void;
+
+interface FetchResult {
+  url: string;
+  contentType: string;
+  body: Buffer;
+}
+
+export function createUnfurler(overrides: Partial<UnfurlOptions> = {}): Unfurler {
+  const options: UnfurlOptions = { ...DEFAULT_UNFURL_OPTIONS, ...overrides };
+  const cache = new Map<string, { expiresAt: number; result: Promise<UnfurledLink | null> }>();
+
+  // Resolves like dns.lookup, but fails if any address the name resolves to
+  // is private, so the socket can only connect to one that was checked
+  function safeLookup(hostname: string, lookupOptions: dns.LookupOptions, callback: LookupCallback): void {
+    dns.lookup(hostname, { all: true }, (error, addresses) => {
+      if (error) return callback(error, []);
+      if (!options.allowPrivateNetworks && addresses.some(a => isPrivateAddress(a.address))) {
+        return callback(new UnfurlError(`${hostname} resolves to a private address`), []);
+      }
+      if (lookupOptions.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  }
+
+  function checkUrl(url: URL): void {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new UnfurlError(`Unsupported protocol ${url.protocol}`);
+    }
+    if (url.username || url.password) {
+      throw new UnfurlError('URLs with credentials are not fetched');
+    }
+    if (options.allowPrivateNetworks) return;
+    if (!PUBLIC_PORTS.has(url.port)) {
+      throw new UnfurlError(`Port ${url.port} is not fetched`);
+    }
+    // Literal addresses never go through the lookup
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) && isPrivateAddress(host)) {
+      throw new UnfurlError(`${host} is a private address`);
+    }
+  }
+
+  function requestOnce(url: URL, accept: string, signal: AbortSignal): Promise<http.IncomingMessage> {
+    checkUrl(url);
+    const client = url.protocol === 'https:' ? https : http;
+    return new Promise((resolve, reject) => {
+      const req = client.get(url, {
+        signal,
+        lookup: safeLookup as unknown as net.LookupFunction,
+        headers: { 'User-Agent': USER_AGENT, Accept: accept },
+      }, resolve);
+      req.on('error', reject);
+    });
+  }
+
+  // GETs `url`, following redirects, and reads up to maxBytes of the body.
+  // With truncate unset a longer body is an error instead.
+  async function fetchUrl(
+    url: string,
+    accept: string,
+    maxBytes: number,
+    truncate: boolean,
+    signal: AbortSignal
+  ): Promise<FetchResult> {
+    let current = new URL(url);
+    for (let redirects = 0; ; redirects++) {
+      const response = await requestOnce(current, accept, signal);
+      const status = response.statusCode || 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (redirects >= options.maxRedirects) throw new UnfurlError('Too many redirects');
+        current = new URL(response.headers.location, current);
+        continue;
+      }
+      if (status !== 200) {
+        response.resume();
+        throw new UnfurlError(`HTTP ${status}`);
+      }
+
+      const declared = Number(response.headers['content-length']);
+      if (!truncate && declared > maxBytes) {
+        response.destroy();
+        throw new UnfurlError('Response too large');
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      for await (const chunk of response) {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size >= maxBytes) {
+          response.destroy();
+          if (!truncate) throw new UnfurlError('Response too large');
+          break;
+        }
+      }
+
+      return {
+        url: current.toString(),
+        contentType: String(response.headers['content-type'] || '').toLowerCase(),
+        body: Buffer.concat(chunks).subarray(0, maxBytes),
+      };
+    }
+  }
+
+  async function fetchThumbnail(url: string, signal: AbortSignal): Promise<Buffer | null> {
+    try {
+      const image = await fetchUrl(url, 'image/*', options.maxImageBytes, false, signal);
+      if (!image.contentType.startsWith('image/')) return null;
+      // sharp refuses anything that isn't really an image
+      return await sharp(image.body, { limitInputPixels: 40_000_000 })
+        .rotate()
+        .resize(options.thumbnailSize, options.thumbnailSize, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer();
+    } catch {
+      return null;
+    }
+  }
+
+  async function fetchOEmbed(href: string, signal: AbortSignal): Promise<Record<string, unknown> | null> {
+    try {
+      const response = await fetchUrl(href, 'application/json', MAX_OEMBED_BYTES, false, signal);
+      const data = JSON.parse(response.body.toString('utf8'));
+      return data && typeof data === 'object' ? data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async function fetchLink(url: string): Promise<UnfurledLink | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+    try {
+      const page = await fetchUrl(url, 'text/html', options.maxPageBytes, true, controller.signal);
+      if (!page.contentType.includes('text/html') && !page.contentType.includes('application/xhtml')) {
+        return null;
+      }
+
+      const meta = parseHtmlMetadata(decodeBody(page.body, page.contentType));
+      const oembed = meta.oembedUrl && (!meta.title || !meta.imageUrl)
+        ? await fetchOEmbed(new URL(meta.oembedUrl, page.url).toString(), controller.signal)
+        : null;
+
+      const title = meta.title || stringField(oembed, 'title');
+      const description = meta.description;
+      if (!title && !description) return null;
+
+      const imageUrl = meta.imageUrl || stringField(oembed, 'thumbnail_url');
+      const resolvedImage = imageUrl ? safeResolve(imageUrl, page.url) : null;
+
+      return {
+        url: page.url,
+        title: clip(title, MAX_TITLE_LENGTH),
+        description: clip(description, MAX_DESCRIPTION_LENGTH),
+        siteName: clip(meta.siteName || stringField(oembed, 'provider_name'), MAX_SITE_NAME_LENGTH),
+        thumbnail: resolvedImage ? await fetchThumbnail(resolvedImage, controller.signal) : null,
+      };
+    } catch (error) {
+      if (!(error instanceof UnfurlError) && !controller.signal.aborted) {
+        console.warn(`Unfurl of ${url} failed:`, (error as Error).message);
+      }
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  return {
+    unfurl(url: string): Promise<UnfurledLink | null> {
+      const now = Date.now();
+      const cached = cache.get(url);
+      if (cached && cached.expiresAt > now) return cached.result;
+
+      const result = fetchLink(url);
+      const entry = { expiresAt: now + options.cacheTtlMs, result };
+      result.then((link) => {
+        if (!link) entry.expiresAt = Date.now() + options.failureCacheTtlMs;
+      });
+
+      cache.delete(url);
+      cache.set(url, entry);
+      // Maps keep insertion order, so the first key is the oldest
+      if (cache.size > options.maxCacheEntries) {
+        cache.delete(cache.keys().next().value!);
+      }
+      return result;
+    },
+  };
+}
+
+function stringField(data: Record<string, unknown> | null, key: string): string | null {
+  const value = data?.[key];
+  return typeof value === 'string' ? value : null;
+}
+
+function clip(value: string | null, maxLength: number): string | null {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function safeResolve(url: string, base: string): string | null {
+  try {
+    const resolved = new URL(url, base);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function decodeBody(body: Buffer, contentType: string): string {
+  const charset = contentType.match(/charset=["']?([\w-]+)/)?.[1];
+  return body.toString(charset === 'iso-8859-1' || charset === 'latin1' || charset === 'windows-1252' ? 'latin1' : 'utf8');
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4]);
+  }
+  return attributes;
+}
+
+interface HtmlMetadata {
+  title: string | null;
+  description: string | null;
+  siteName: string | null;
+  imageUrl: string | null;
+  oembedUrl: string | null;
+}
+
+export function parseHtmlMetadata(html: string): HtmlMetadata {
+  // Everything needed is in the head; the body can only add false matches
+  const headEnd = html.search(/<\/head\s*>|<body[\s>]/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+
+  const meta = new Map<string, string>();
+  for (const [tag] of head.matchAll(/<meta\s[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content && !meta.has(key)) meta.set(key, attributes.content);
+  }
+
+  let oembedUrl: string | null = null;
+  for (const [tag] of head.matchAll(/<link\s[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    if (attributes.type?.toLowerCase() === 'application/json+oembed' && attributes.href) {
+      oembedUrl = attributes.href;
+      break;
+    }
+  }
+
+  const titleTag = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const pick = (...keys: string[]) => keys.map(key => meta.get(key)).find(Boolean) || null;
+
+  return {
+    title: pick('og:title', 'twitter:title') || (titleTag ? decodeEntities(titleTag) : null),
+    description: pick('og:description', 'twitter:description', 'description'),
+    siteName: pick('og:site_name', 'application-name'),
+    imageUrl: pick('og:image:secure_url', 'og:image', 'og:image:url', 'twitter:image', 'twitter:image:src'),
+    oembedUrl,
+  };
+}
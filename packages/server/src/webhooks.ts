@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import type { Message, Webhook } from '@chatterbox/shared';
+import database, { Webhook as StoredWebhook } from './database';
+import { avatarPath, createAvatar, deleteAvatar } from './avatars';
+import { sendMessage } from './conversations';
+
+export interface WebhookResult {
+  success: boolean;
+  webhook?: Webhook;
+  // Only returned when the hook is created or its token rotated
+  token?: string;
+  status?: 400 | 404 | 500;
+  error?: string;
+}
+
+// Where external systems post to the hook
+export function webhookPath(webhookId: string): string {
+  return `/hooks/${webhookId}`;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function newToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function formatWebhook(webhook: StoredWebhook): Webhook {
+  return {
+    id: webhook.id,
+    conversationId: webhook.conversationId,
+    createdBy: webhook.createdBy,
+    displayName: webhook.displayName,
+    avatar: webhook.avatarId ? avatarPath(webhook.avatarId) : null,
+    url: webhookPath(webhook.id),
+    createdAt: webhook.createdAt,
+  };
+}
+
+// A hook of the conversation's that hasn't been revoked
+function findActiveWebhook(conversationId: string, webhookId: string): StoredWebhook | undefined {
+  const webhook = database.findWebhookById(webhookId);
+  return webhook && webhook.conversationId === conversationId && !webhook.revokedAt ? webhook : undefined;
+}
+
+const notFound: WebhookResult = { success: false, status: 404, error: 'Webhook not found' };
+
+export function listWebhooks(conversationId: string): Webhook[] {
+  return database.listWebhooks(conversationId).map(formatWebhook);
+}
+
+export function createWebhook(conversationId: string, creatorId: string, displayName: string | null): WebhookResult {
+  try {
+    const token = newToken();
+    const webhook: StoredWebhook = {
+      id: uuidv4(),
+      conversationId,
+      createdBy: creatorId,
+      displayName,
+      avatarId: null,
+      tokenHash: hashToken(token),
+      createdAt: new Date().toISOString(),
+      revokedAt: null,
+    };
+    database.createWebhook(webhook);
+    return { success: true, webhook: formatWebhook(webhook), token };
+  } catch (error) {
+    console.error('Create webhook error:', error);
+    return { success: false, status: 500, error: 'Failed to create webhook' };
+  }
+}
+
+export function renameWebhook(conversationId: string, webhookId: string, displayName: string | null): WebhookResult {
+  if (!findActiveWebhook(conversationId, webhookId)) return notFound;
+
+  database.updateWebhook(webhookId, { displayName });
+  return { success: true, webhook: formatWebhook(database.findWebhookById(webhookId)!) };
+}
+
+// Replaces the hook's token; the old one stops working straight away
+export function rotateWebhookToken(conversationId: string, webhookId: string): WebhookResult {
+  const webhook = findActiveWebhook(conversationId, webhookId);
+  if (!webhook) return notFound;
+
+  const token = newToken();
+  database.updateWebhook(webhookId, { tokenHash: hashToken(token) });
+  return { success: true, webhook: formatWebhook(webhook), token };
+}
+
+// Revoked hooks stop accepting posts for good. They're kept so the messages
+// they posted still show their name and avatar.
+export function revokeWebhook(conversationId: string, webhookId: string): WebhookResult {
+  if (!findActiveWebhook(conversationId, webhookId)) return notFound;
+
+  database.updateWebhook(webhookId, { revokedAt: new Date().toISOString() });
+  return { success: true };
+}
+
+// Makes the image multer saved to `tempPath` the hook's avatar, replacing
+// any previous one. The temp file is always consumed.
+export async function storeWebhookAvatar(
+  conversationId: string,
+  webhookId: string,
+  tempPath: string
+): Promise<WebhookResult> {
+  const webhook = findActiveWebhook(conversationId, webhookId);
+  if (!webhook) {
+    await fs.promises.rm(tempPath, { force: true });
+    return notFound;
+  }
+
+  const result = await createAvatar(tempPath);
+  if (!result.avatarId) return { success: false, status: result.status, error: result.error };
+
+  const previous = webhook.avatarId;
+  database.updateWebhook(webhookId, { avatarId: result.avatarId });
+  if (previous) await deleteAvatar(previous);
+  return { success: true, webhook: formatWebhook(database.findWebhookById(webhookId)!) };
+}
+
+export async function removeWebhookAvatar(conversationId: string, webhookId: string): Promise<WebhookResult> {
+  const previous = findActiveWebhook(conversationId, webhookId)?.avatarId;
+  if (previous === undefined) return notFound;
+
+  database.updateWebhook(webhookId, { avatarId: null });
+  if (previous) await deleteAvatar(previous);
+  return { success: true, webhook: formatWebhook(database.findWebhookById(webhookId)!) };
+}
+
+// The hook `token` belongs to, if it's still active. Unknown hooks and wrong
+// tokens look the same to the caller.
+export function verifyWebhookToken(webhookId: string, token: string): StoredWebhook | null {
+  const webhook = database.findWebhookById(webhookId);
+  if (!webhook || webhook.revokedAt || hashToken(token) !== webhook.tokenHash) return null;
+  return webhook;
+}
+
+// Posts into the hook's conversation through the same path as members' messages
+export function postWebhookMessage(
+  webhook: StoredWebhook,
+  content: string,
+  format: Message['format'] = 'plain'
+): Message | null {
+  return sendMessage(webhook.conversationId, webhook.id, content, { format, webhookId: webhook.id });
+}
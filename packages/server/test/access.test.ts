@@ -0,0 +1,213 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Message, ServerEvent } from '@chatterbox/shared';
+import {
+  Account,
+  TestServer,
+  TestSocket,
+  api,
+  openSocket,
+  postMessage,
+  registerUser,
+  startServer,
+} from './helpers';
+
+const NOT_A_MEMBER = 'You are not a member of this conversation';
+
+function isError(event: ServerEvent): event is Extract<ServerEvent, { type: 'error' }> {
+  return event.type === 'error';
+}
+
+describe('conversation access for non-members', () => {
+  let server: TestServer;
+  let alice: Account;
+  let bob: Account;
+  let eve: Account;
+  let aliceSocket: TestSocket;
+  let eveSocket: TestSocket;
+  let conversationId: string;
+  let message: Message;
+  let attachmentId: string;
+  let unsentAttachmentId: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    alice = await registerUser(server, 'alice');
+    bob = await registerUser(server, 'bob');
+    eve = await registerUser(server, 'eve');
+
+    const created = await api(server, 'POST', '/api/conversations', {
+      token: alice.token,
+      body: { memberIds: [bob.user.id], name: 'Team', isGroup: true },
+    });
+    conversationId = created.body.conversation.id;
+
+    aliceSocket = await openSocket(server, alice.token);
+    eveSocket = await openSocket(server, eve.token);
+    message = await postMessage(aliceSocket, conversationId, 'Members only');
+
+    const upload = async () => {
+      const form = new FormData();
+      form.append('file', new Blob(['%PDF-1.4\n%%EOF\n']), 'notes.pdf');
+      const { body } = await api(server, 'POST', '/api/upload', { token: alice.token, form });
+      return body.attachment.id as string;
+    };
+    attachmentId = await upload();
+    await postMessage(aliceSocket, conversationId, '', { attachmentId });
+    unsentAttachmentId = await upload();
+  });
+
+  afterAll(async () => {
+    await aliceSocket?.close();
+    await eveSocket?.close();
+    await server?.stop();
+  });
+
+  describe('over HTTP', () => {
+    it('lets members read the conversation', async () => {
+      const { status, body } = await api(server, 'GET', `/api/conversations/${conversationId}/messages`, {
+        token: bob.token,
+      });
+      expect(status).toBe(200);
+      expect(body.messages.map((m: Message) => m.id)).toContain(message.id);
+    });
+
+    it('refuses to show a non-member the conversation or its messages', async () => {
+      for (const route of [`/api/conversations/${conversationId}`, `/api/conversations/${conversationId}/messages`]) {
+        const { status, body } = await api(server, 'GET', route, { token: eve.token });
+        expect(status).toBe(403);
+        expect(body.error).toBe(NOT_A_MEMBER);
+      }
+    });
+
+    it('refuses a non-member reactions', async () => {
+      const base = `/api/conversations/${conversationId}/messages/${message.id}/reactions`;
+      const added = await api(server, 'POST', base, { token: eve.token, body: { emoji: '👍' } });
+      expect(added.status).toBe(403);
+      expect(added.body.error).toBe(NOT_A_MEMBER);
+
+      const removed = await api(server, 'DELETE', `${base}/${encodeURIComponent('👍')}`, { token: eve.token });
+      expect(removed.status).toBe(403);
+    });
+
+    it('refuses a non-member attachments', async () => {
+      const sent = await api(server, 'GET', `/api/attachments/${attachmentId}`, { token: eve.token });
+      expect(sent.status).toBe(403);
+
+      // Someone else's unsent upload doesn't exist as far as others can tell
+      const unsent = await api(server, 'GET', `/api/attachments/${unsentAttachmentId}`, { token: eve.token });
+      expect(unsent.status).toBe(404);
+
+      const member = await api(server, 'GET', `/api/attachments/${attachmentId}`, { token: bob.token });
+      expect(member.status).toBe(200);
+    });
+
+    it('answers 404 for conversations and messages that do not exist', async () => {
+      const conversation = await api(server, 'GET', '/api/conversations/no-such-conversation/messages', {
+        token: eve.token,
+      });
+      expect(conversation.status).toBe(404);
+
+      // A real message addressed through the wrong conversation is not found either
+      const own = await api(server, 'POST', '/api/conversations', {
+        token: eve.token,
+        body: { memberIds: [bob.user.id], isGroup: true, name: 'Elsewhere' },
+      });
+      const crossed = await api(
+        server,
+        'POST',
+        `/api/conversations/${own.body.conversation.id}/messages/${message.id}/reactions`,
+        { token: eve.token, body: { emoji: '👍' } }
+      );
+      expect(crossed.status).toBe(404);
+    });
+  });
+
+  describe('over the WebSocket', () => {
+    it('refuses to store a message from a non-member', async () => {
+      const failed = eveSocket.next(isError);
+      eveSocket.send({ type: 'message', conversationId, content: 'Let me in', clientMessageId: 'eve-1' });
+      expect(await failed).toMatchObject({ type: 'error', error: NOT_A_MEMBER, conversationId, clientMessageId: 'eve-1' });
+
+      const { body } = await api(server, 'GET', `/api/conversations/${conversationId}/messages`, {
+        token: alice.token,
+      });
+      expect(body.messages.some((m: Message) => m.content === 'Let me in')).toBe(false);
+    });
+
+    it('refuses typing, reactions and read markers from a non-member', async () => {
+      const frames = [
+        { frame: { type: 'typing', conversationId, isTyping: true }, ids: { conversationId } },
+        { frame: { type: 'add_reaction', messageId: message.id, emoji: '👍' }, ids: { messageId: message.id } },
+        { frame: { type: 'remove_reaction', messageId: message.id, emoji: '👍' }, ids: { messageId: message.id } },
+        { frame: { type: 'mark_read', conversationId, messageId: message.id }, ids: { conversationId } },
+      ];
+      for (const { frame, ids } of frames) {
+        const failed = eveSocket.next(isError);
+        eveSocket.send(frame);
+        expect(await failed).toMatchObject({ error: NOT_A_MEMBER, ...ids });
+      }
+
+      const { body } = await api(server, 'GET', `/api/conversations/${conversationId}/messages`, {
+        token: alice.token,
+      });
+      const stored = body.messages.find((m: Message) => m.id === message.id);
+      expect(stored.reactions).toEqual([]);
+    });
+
+    it('does not send a non-member the conversation\'s events', async () => {
+      await postMessage(aliceSocket, conversationId, 'Still members only');
+      expect(eveSocket.events.some((event) => event.type === 'new_message')).toBe(false);
+    });
+
+    it('refuses frames before the socket is signed in', async () => {
+      const anonymous = await openSocket(server);
+      const failed = anonymous.next(isError);
+      anonymous.send({ type: 'message', conversationId, content: 'Hello?' });
+      expect(await failed).toMatchObject({ error: 'Not authenticated' });
+      await anonymous.close();
+    });
+  });
+});
+
+describe('resent messages', () => {
+  let server: TestServer;
+  let alice: Account;
+  let bob: Account;
+  let conversationId: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    alice = await registerUser(server, 'alice');
+    bob = await registerUser(server, 'bob');
+    const { body } = await api(server, 'POST', '/api/conversations', {
+      token: alice.token,
+      body: { memberIds: [bob.user.id], name: 'Team', isGroup: true },
+    });
+    conversationId = body.conversation.id;
+  });
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  it('acknowledge a member\'s resend with the stored message, but not once they\'re removed', async () => {
+    const bobSocket = await openSocket(server, bob.token);
+    try {
+      const frame = { type: 'message', conversationId, content: 'On my way', clientMessageId: 'bob-1' };
+      const acked = () => bobSocket.next((event) => event.type === 'message_ack' && event.clientMessageId === 'bob-1');
+      const first = acked();
+      bobSocket.send(frame);
+      const sent = await first;
+      const again = acked();
+      bobSocket.send(frame);
+      expect(await again).toEqual(sent);
+
+      await api(server, 'DELETE', `/api/conversations/${conversationId}/members/${bob.user.id}`, { token: alice.token });
+      const failed = bobSocket.next(isError);
+      bobSocket.send(frame);
+      expect(await failed).toMatchObject({ error: NOT_A_MEMBER, conversationId, clientMessageId: 'bob-1' });
+    } finally {
+      await bobSocket.close();
+    }
+  });
+});
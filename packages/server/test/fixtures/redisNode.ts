@@ -0,0 +1,12 @@
+// A server process reduced to its presence: connects to Redis, registers one
+// connection for USER_ID and then runs until killed
+import { createRedisPubSub } from '../../src/pubsub/redisPubSub';
+
+const pubsub = createRedisPubSub(process.env.REDIS_URL!, process.env.REDIS_KEY_PREFIX!, {
+  nodeTtlMs: Number(process.env.NODE_TTL_MS),
+  heartbeatIntervalMs: Number(process.env.HEARTBEAT_INTERVAL_MS),
+});
+
+pubsub.addConnection(process.env.USER_ID!).then((count) => {
+  console.log(`ready ${count}`);
+});
@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Account, TestServer, api, registerUser, startServer } from './helpers';
+
+// A 1x1 PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+function avatarForm(image: Buffer, type = 'image/png'): FormData {
+  const form = new FormData();
+  form.append('avatar', new Blob([image], { type }), 'group.png');
+  return form;
+}
+
+describe('group pictures', () => {
+  let server: TestServer;
+  let alice: Account;
+  let bob: Account;
+  let conversationId: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    alice = await registerUser(server, 'alice');
+    bob = await registerUser(server, 'bob');
+    const { body } = await api(server, 'POST', '/api/conversations', {
+      token: alice.token,
+      body: { memberIds: [bob.user.id], name: 'Crew', isGroup: true },
+    });
+    conversationId = body.conversation.id;
+  });
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  it('stores an upload as an avatar and serves it at each size', async () => {
+    const { status, body } = await api(server, 'PUT', `/api/conversations/${conversationId}/avatar`, {
+      token: alice.token,
+      form: avatarForm(PNG),
+    });
+    expect(status).toBe(200);
+    expect(body.conversation.avatar).toMatch(/^\/api\/avatars\/[0-9a-f-]{36}$/);
+
+    for (const size of [64, 256]) {
+      const res = await fetch(`${server.url}${body.conversation.avatar}?size=${size}`);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toBe('image/webp');
+    }
+
+    const history = await api(server, 'GET', `/api/conversations/${conversationId}/messages`, { token: bob.token });
+    expect(history.body.messages.at(-1).content).toBe('alice changed the group picture');
+  });
+
+  it('replaces and removes the picture, deleting the old files', async () => {
+    const first = await api(server, 'GET', `/api/conversations/${conversationId}`, { token: alice.token });
+    const replaced = await api(server, 'PUT', `/api/conversations/${conversationId}/avatar`, {
+      token: alice.token,
+      form: avatarForm(PNG),
+    });
+    expect(replaced.body.conversation.avatar).not.toBe(first.body.conversation.avatar);
+    expect((await fetch(server.url + first.body.conversation.avatar)).status).toBe(404);
+
+    const removed = await api(server, 'DELETE', `/api/conversations/${conversationId}/avatar`, { token: alice.token });
+    expect(removed.status).toBe(200);
+    expect(removed.body.conversation.avatar).toBeNull();
+    expect((await fetch(server.url + replaced.body.conversation.avatar)).status).toBe(404);
+  });
+
+  it('rejects files that aren\'t images', async () => {
+    const { status, body } = await api(server, 'PUT', `/api/conversations/${conversationId}/avatar`, {
+      token: alice.token,
+      form: avatarForm(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'), 'image/svg+xml'),
+    });
+    expect(status).toBe(400);
+    expect(body.error).toBe('Avatars must be PNG, JPEG, GIF or WebP images');
+  });
+
+  it('only lets owners and admins change it', async () => {
+    const upload = await api(server, 'PUT', `/api/conversations/${conversationId}/avatar`, {
+      token: bob.token,
+      form: avatarForm(PNG),
+    });
+    expect(upload.status).toBe(403);
+    const remove = await api(server, 'DELETE', `/api/conversations/${conversationId}/avatar`, { token: bob.token });
+    expect(remove.status).toBe(403);
+  });
+
+  it('no longer takes a data URL through the group update', async () => {
+    const { status, body } = await api(server, 'PATCH', `/api/conversations/${conversationId}`, {
+      token: alice.token,
+      body: { avatar: `data:image/png;base64,${PNG.toString('base64')}` },
+    });
+    expect(status).toBe(200);
+    expect(body.conversation.avatar).toBeNull();
+  });
+});
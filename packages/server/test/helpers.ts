@@ -0,0 +1,210 @@
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import WebSocket from 'ws';
+import type { ServerEvent, User } from '@chatterbox/shared';
+
+const serverRoot = path.join(__dirname, '..');
+
+export interface TestServer {
+  url: string;
+  wsUrl: string;
+  dataDir: string;
+  stop(): Promise<void>;
+}
+
+export function tempDir(prefix: string): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), `chatterbox-${prefix}-`));
+}
+
+export function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+function waitForOutput(child: ChildProcess, text: string, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => {
+      reject(new Error(`Server did not start within ${timeoutMs}ms:\n${output}`));
+    }, timeoutMs);
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString();
+      if (output.includes(text)) {
+        clearTimeout(timer);
+        resolve();
+      }
+    };
+    child.stdout!.on('data', onData);
+    child.stderr!.on('data', onData);
+    child.once('exit', (code) => {
+      clearTimeout(timer);
+      reject(new Error(`Server exited with code ${code}:\n${output}`));
+    });
+  });
+}
+
+// Runs the real server in its own process, on fresh data and upload
+// directories, until stop() is called
+export async function startServer(env: Record<string, string> = {}): Promise<TestServer> {
+  const dataDir = env.DATA_DIR || tempDir('data');
+  const uploadsDir = env.UPLOADS_DIR || tempDir('uploads');
+  const port = await freePort();
+
+  const child = spawn(process.execPath, ['--import', 'tsx', 'src/index.ts'], {
+    cwd: serverRoot,
+    env: {
+      ...process.env,
+      STORAGE_BACKEND: 'json',
+      PORT: String(port),
+      ...env,
+      DATA_DIR: dataDir,
+      UPLOADS_DIR: uploadsDir,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  const stop = async () => {
+    if (child.exitCode === null && child.signalCode === null) {
+      const exited = new Promise((resolve) => child.once('exit', resolve));
+      child.kill('SIGTERM');
+      await exited;
+    }
+    // Directories the caller passed in are theirs to remove
+    if (!env.UPLOADS_DIR) fs.rmSync(uploadsDir, { recursive: true, force: true });
+    if (!env.DATA_DIR) fs.rmSync(dataDir, { recursive: true, force: true });
+  };
+
+  try {
+    await waitForOutput(child, 'WebSocket server ready', 30000);
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    wsUrl: `ws://127.0.0.1:${port}`,
+    dataDir,
+    stop,
+  };
+}
+
+export interface ApiResponse {
+  status: number;
+  body: any;
+}
+
+export async function api(
+  server: TestServer,
+  method: string,
+  route: string,
+  options: { token?: string; body?: unknown; form?: FormData } = {}
+): Promise<ApiResponse> {
+  const headers: Record<string, string> = {};
+  if (options.token) headers.Authorization = `Bearer ${options.token}`;
+  if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+
+  const res = await fetch(server.url + route, {
+    method,
+    headers,
+    body: options.form ?? (options.body === undefined ? undefined : JSON.stringify(options.body)),
+  });
+  const text = await res.text();
+  return { status: res.status, body: text ? JSON.parse(text) : null };
+}
+
+export interface Account {
+  user: User;
+  token: string;
+}
+
+export async function registerUser(server: TestServer, username: string): Promise<Account> {
+  const { status, body } = await api(server, 'POST', '/api/auth/register', {
+    body: { username, password: 'password123', displayName: username },
+  });
+  if (status !== 200) throw new Error(`Register ${username} failed: ${JSON.stringify(body)}`);
+  return { user: body.user, token: body.token };
+}
+
+// A signed-in WebSocket that keeps every event it receives, so tests can
+// wait for one that matches
+export interface TestSocket {
+  events: ServerEvent[];
+  send(frame: object): void;
+  next(match: (event: ServerEvent) => boolean, timeoutMs?: number): Promise<ServerEvent>;
+  close(): Promise<void>;
+}
+
+export async function openSocket(server: TestServer, token?: string): Promise<TestSocket> {
+  const ws = new WebSocket(server.wsUrl);
+  const events: ServerEvent[] = [];
+  const waiters = new Set<() => void>();
+  ws.on('message', (data) => {
+    events.push(JSON.parse(data.toString()));
+    for (const wake of waiters) wake();
+  });
+  await new Promise((resolve, reject) => {
+    ws.once('open', resolve);
+    ws.once('error', reject);
+  });
+
+  // Each waiter only looks at events that arrive after it started waiting
+  const next = (match: (event: ServerEvent) => boolean, timeoutMs = 5000) => {
+    let seen = events.length;
+    return new Promise<ServerEvent>((resolve, reject) => {
+      const check = () => {
+        for (; seen < events.length; seen++) {
+          if (match(events[seen])) {
+            clearTimeout(timer);
+            waiters.delete(check);
+            resolve(events[seen]);
+            return;
+          }
+        }
+      };
+      const timer = setTimeout(() => {
+        waiters.delete(check);
+        reject(new Error(`No matching event within ${timeoutMs}ms; got ${JSON.stringify(events)}`));
+      }, timeoutMs);
+      waiters.add(check);
+    });
+  };
+
+  const socket: TestSocket = {
+    events,
+    send: (frame) => ws.send(JSON.stringify(frame)),
+    next,
+    close: () =>
+      new Promise((resolve) => {
+        if (ws.readyState === WebSocket.CLOSED) return resolve();
+        ws.once('close', () => resolve());
+        ws.close();
+      }),
+  };
+
+  if (token) {
+    const authed = next((event) => event.type === 'auth_success' || event.type === 'auth_error');
+    socket.send({ type: 'auth', token });
+    const result = await authed;
+    if (result.type !== 'auth_success') throw new Error('WebSocket auth failed');
+  }
+  return socket;
+}
+
+// Posts over the WebSocket, as the client does, and resolves with the stored message
+export async function postMessage(socket: TestSocket, conversationId: string, content: string, extra: object = {}) {
+  const clientMessageId = `test-${Math.random().toString(36).slice(2)}`;
+  const acked = socket.next((event) => event.type === 'message_ack' && event.clientMessageId === clientMessageId);
+  socket.send({ type: 'message', conversationId, content, clientMessageId, ...extra });
+  const ack = await acked;
+  return (ack as Extract<ServerEvent, { type: 'message_ack' }>).message;
+}
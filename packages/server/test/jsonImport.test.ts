@@ -0,0 +1,99 @@
+import fs from 'fs';
+import path from 'path';
+import bcrypt from 'bcryptjs';
+import { afterEach, describe, expect, it } from 'vitest';
+import { TestServer, api, startServer, tempDir } from './helpers';
+
+// A data file as the server wrote it before storage backends and migrations
+// existed, with the JSON file as the only store
+function writeBaselineData(dataDir: string): void {
+  const createdAt = '2024-01-01T00:00:00.000Z';
+  const user = (id: string, username: string) => ({
+    id,
+    username,
+    password: bcrypt.hashSync('password123', 4),
+    displayName: username,
+    avatar: null,
+    bio: null,
+    status: 'offline',
+    createdAt,
+  });
+  const data = {
+    users: [user('u1', 'alice'), user('u2', 'bob')],
+    conversations: [{ id: 'c1', name: 'Old friends', isGroup: true, createdAt, updatedAt: createdAt }],
+    conversationMembers: [
+      { conversationId: 'c1', userId: 'u1', joinedAt: createdAt },
+      { conversationId: 'c1', userId: 'u2', joinedAt: createdAt },
+    ],
+    messages: ['First!', 'Still here'].map((content, i) => ({
+      id: `m${i + 1}`,
+      conversationId: 'c1',
+      senderId: i === 0 ? 'u1' : 'u2',
+      content,
+      type: 'text',
+      fileUrl: null,
+      fileName: null,
+      createdAt: `2024-01-01T00:00:0${i + 1}.000Z`,
+    })),
+  };
+  fs.writeFileSync(path.join(dataDir, 'chatterbox.json'), JSON.stringify(data, null, 2));
+}
+
+async function login(server: TestServer, username: string): Promise<string> {
+  const { status, body } = await api(server, 'POST', '/api/auth/login', {
+    body: { username, password: 'password123' },
+  });
+  expect(status).toBe(200);
+  return body.token;
+}
+
+describe('upgrading from the JSON backend to SQLite', () => {
+  let dataDir: string;
+  let server: TestServer | undefined;
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('imports the JSON data on first start, once', async () => {
+    dataDir = tempDir('import');
+    writeBaselineData(dataDir);
+
+    server = await startServer({ STORAGE_BACKEND: 'sqlite', DATA_DIR: dataDir });
+    expect(fs.existsSync(path.join(dataDir, 'chatterbox.db'))).toBe(true);
+    expect(fs.existsSync(path.join(dataDir, 'chatterbox.db.importing'))).toBe(false);
+
+    const token = await login(server, 'alice');
+    const { body } = await api(server, 'GET', '/api/conversations', { token });
+    expect(body.conversations).toHaveLength(1);
+    expect(body.conversations[0]).toMatchObject({ id: 'c1', name: 'Old friends', isGroup: true });
+
+    const history = await api(server, 'GET', '/api/conversations/c1/messages', { token });
+    expect(history.body.messages.map((m: { content: string }) => m.content)).toEqual(['First!', 'Still here']);
+
+    const search = await api(server, 'GET', '/api/search/messages?q=still', { token });
+    expect(search.body.results.map((r: { message: { id: string } }) => r.message.id)).toEqual(['m2']);
+
+    // Later starts use the database, even after the JSON file changes
+    await api(server, 'PUT', '/api/auth/profile', { token, body: { displayName: 'Alice' } });
+    await server.stop();
+    writeBaselineData(dataDir);
+    server = await startServer({ STORAGE_BACKEND: 'sqlite', DATA_DIR: dataDir });
+
+    const again = await login(server, 'alice');
+    const me = await api(server, 'GET', '/api/auth/me', { token: again });
+    expect(me.body.user.displayName).toBe('Alice');
+    const afterRestart = await api(server, 'GET', '/api/conversations/c1/messages', { token: again });
+    expect(afterRestart.body.messages).toHaveLength(2);
+  });
+
+  it('refuses to start rather than create an empty database when the import fails', async () => {
+    dataDir = tempDir('import');
+    fs.writeFileSync(path.join(dataDir, 'chatterbox.json'), '{"users": [');
+
+    await expect(startServer({ STORAGE_BACKEND: 'sqlite', DATA_DIR: dataDir })).rejects.toThrow(/corrupt/);
+    expect(fs.existsSync(path.join(dataDir, 'chatterbox.db'))).toBe(false);
+  });
+});
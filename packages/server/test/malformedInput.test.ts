@@ -0,0 +1,63 @@
+import WebSocket from 'ws';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Account, TestServer, openSocket, registerUser, startServer } from './helpers';
+
+describe('malformed input', () => {
+  let server: TestServer;
+  let alice: Account;
+
+  beforeAll(async () => {
+    server = await startServer();
+    alice = await registerUser(server, 'alice');
+  });
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  it('answers a request body that isn\'t JSON with a 400', async () => {
+    const res = await fetch(`${server.url}/api/conversations`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${alice.token}`, 'Content-Type': 'application/json' },
+      body: '{"memberIds": [',
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ code: 'invalid_json', error: 'Request body is not valid JSON', issues: [] });
+  });
+
+  it('leaves other body errors to express', async () => {
+    const res = await fetch(`${server.url}/api/conversations`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${alice.token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ padding: 'x'.repeat(11 * 1024 * 1024) }),
+    });
+    expect(res.status).toBe(413);
+  });
+
+  it('answers frames that aren\'t JSON objects and keeps the socket open', async () => {
+    const socket = await openSocket(server, alice.token);
+    try {
+      const raw = new WebSocket(server.wsUrl);
+      await new Promise((resolve) => raw.once('open', resolve));
+      const reply = new Promise<unknown>((resolve) => raw.once('message', (data) => resolve(JSON.parse(data.toString()))));
+      raw.send('{"type": "auth"');
+      expect(await reply).toMatchObject({ type: 'error', code: 'invalid_json' });
+      raw.close();
+
+      for (const frame of [null, 42, 'message', ['message']]) {
+        const failed = socket.next((event) => event.type === 'error');
+        socket.send(frame as object);
+        expect(await failed).toMatchObject({ type: 'error', code: 'invalid_frame' });
+      }
+
+      // Only string ids are echoed back
+      const failed = socket.next((event) => event.type === 'error');
+      socket.send({ type: 'message', conversationId: 7, clientMessageId: 'pending-1', content: 'Hi' });
+      const error = await failed;
+      expect(error).toMatchObject({ code: 'invalid_frame', clientMessageId: 'pending-1' });
+      expect(error).not.toHaveProperty('conversationId');
+    } finally {
+      await socket.close();
+    }
+  });
+});
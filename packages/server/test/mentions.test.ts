@@ -0,0 +1,90 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Message } from '@chatterbox/shared';
+import { Account, TestServer, api, openSocket, postMessage, registerUser, startServer } from './helpers';
+
+describe('mentions', () => {
+  let server: TestServer;
+  let alice: Account;
+  let bob: Account;
+  let carol: Account;
+  let dave: Account;
+  let conversationId: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    alice = await registerUser(server, 'alice');
+    bob = await registerUser(server, 'bob');
+    carol = await registerUser(server, 'carol');
+    dave = await registerUser(server, 'dave');
+    const { body } = await api(server, 'POST', '/api/conversations', {
+      token: alice.token,
+      body: { memberIds: [bob.user.id, carol.user.id, dave.user.id], name: 'Team', isGroup: true },
+    });
+    conversationId = body.conversation.id;
+  });
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  const inbox = async (account: Account): Promise<string[]> => {
+    const { body } = await api(server, 'GET', '/api/mentions', { token: account.token });
+    return body.messages.map((m: Message) => m.id);
+  };
+
+  it('follow a message through its edits, notifying only the newly mentioned', async () => {
+    const aliceSocket = await openSocket(server, alice.token);
+    const bobSocket = await openSocket(server, bob.token);
+    const carolSocket = await openSocket(server, carol.token);
+    const edit = (messageId: string, content: string) => {
+      const updated = bobSocket.next((event) => event.type === 'message_updated' && event.message.content === content);
+      aliceSocket.send({ type: 'edit_message', messageId, content });
+      return updated;
+    };
+    const mentionsOf = (events: typeof bobSocket.events, messageId: string) =>
+      events.filter((event) => event.type === 'mention' && event.message.id === messageId);
+
+    try {
+      const message = await postMessage(aliceSocket, conversationId, 'Who has the slides?');
+
+      const bobMentioned = bobSocket.next((event) => event.type === 'mention');
+      await edit(message.id, 'Who has the slides, @bob?');
+      expect(await bobMentioned).toMatchObject({ message: { id: message.id } });
+      expect(await inbox(bob)).toEqual([message.id]);
+
+      // Bob was already mentioned, so only carol hears about this one
+      const carolMentioned = carolSocket.next((event) => event.type === 'mention');
+      await edit(message.id, 'Who has the slides, @bob or @carol?');
+      expect(await carolMentioned).toMatchObject({ message: { id: message.id } });
+      expect(await inbox(carol)).toEqual([message.id]);
+      expect(mentionsOf(bobSocket.events, message.id)).toHaveLength(1);
+
+      await edit(message.id, 'Who has the slides, @carol?');
+      expect(await inbox(bob)).toEqual([]);
+    } finally {
+      await aliceSocket.close();
+      await bobSocket.close();
+      await carolSocket.close();
+    }
+  });
+
+  it('reach everyone connected with @here, unless they are invisible', async () => {
+    const aliceSocket = await openSocket(server, alice.token);
+    const bobSocket = await openSocket(server, bob.token);
+    const carolSocket = await openSocket(server, carol.token);
+    try {
+      await api(server, 'PUT', '/api/auth/status', { token: bob.token, body: { presence: 'dnd' } });
+      await api(server, 'PUT', '/api/auth/status', { token: carol.token, body: { presence: 'invisible' } });
+
+      const message = await postMessage(aliceSocket, conversationId, '@here standup in five');
+      expect(await inbox(bob)).toContain(message.id);
+      expect(await inbox(carol)).not.toContain(message.id);
+      // Not connected at all
+      expect(await inbox(dave)).not.toContain(message.id);
+    } finally {
+      await aliceSocket.close();
+      await bobSocket.close();
+      await carolSocket.close();
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import fs from 'fs';
+import BetterSqlite3 from 'better-sqlite3';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Migration } from '../src/storage/migrations';
+import type { JsonDatabase } from '../src/storage/jsonStorage';
+import { tempDir } from './helpers';
+
+// A 1x1 PNG
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+describe('the avatar file migrations', () => {
+  const uploadsDir = tempDir('uploads');
+  const avatarsDir = `${uploadsDir}/avatars`;
+  let avatarFiles: Migration;
+  let groupAvatarFiles: Migration;
+
+  beforeAll(async () => {
+    // Read when the storage config is first imported
+    process.env.UPLOADS_DIR = uploadsDir;
+    const { migrations } = await import('../src/storage/migrations');
+    avatarFiles = migrations.find((m) => m.name === 'avatar files')!;
+    groupAvatarFiles = migrations.find((m) => m.name === 'group avatar files')!;
+  });
+
+  afterAll(() => {
+    fs.rmSync(uploadsDir, { recursive: true, force: true });
+  });
+
+  function usersWithAvatars(): JsonDatabase {
+    return {
+      users: [
+        { id: 'u1', avatar: PNG },
+        { id: 'u2', avatar: PNG },
+        { id: 'u3', avatar: 'data:image/png;base64,bm90IGFuIGltYWdl' },
+      ],
+    } as unknown as JsonDatabase;
+  }
+
+  it('writes the same files when it runs again after a failure', () => {
+    const first = usersWithAvatars();
+    avatarFiles.json(first);
+    const files = fs.readdirSync(avatarsDir).sort();
+
+    // The data from the first run was never saved, so it starts over
+    const second = usersWithAvatars();
+    avatarFiles.json(second);
+
+    expect(second.users.map((u) => u.avatarId)).toEqual(first.users.map((u) => u.avatarId));
+    expect(fs.readdirSync(avatarsDir).sort()).toEqual(files);
+  });
+
+  it('gives users with the same picture files of their own', () => {
+    const data = usersWithAvatars();
+    avatarFiles.json(data);
+
+    const [alice, bob, broken] = data.users;
+    expect(alice.avatarId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(bob.avatarId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(alice.avatarId).not.toBe(bob.avatarId);
+    expect(broken.avatarId).toBeNull();
+    expect(fs.readFileSync(`${avatarsDir}/${alice.avatarId}.source`)).toEqual(
+      Buffer.from(PNG.split(',')[1], 'base64')
+    );
+  });
+
+  it('moves group pictures to files too', () => {
+    const data = {
+      conversations: [
+        { id: 'c1', avatar: PNG },
+        { id: 'c2', avatar: null },
+      ],
+    } as unknown as JsonDatabase;
+    groupAvatarFiles.json(data);
+
+    const [group, plain] = data.conversations;
+    expect(group).not.toHaveProperty('avatar');
+    expect(fs.existsSync(`${avatarsDir}/${group.avatarId}.source`)).toBe(true);
+    expect(plain.avatarId).toBeNull();
+  });
+
+  it('leaves no extra files behind when a SQLite migration rolls back', () => {
+    const conn = new BetterSqlite3(':memory:');
+    try {
+      conn.exec('CREATE TABLE users (id TEXT PRIMARY KEY, avatar TEXT)');
+      conn.prepare('INSERT INTO users (id, avatar) VALUES (?, ?)').run('u4', PNG);
+      const before = fs.readdirSync(avatarsDir).length;
+
+      expect(() =>
+        conn.transaction(() => {
+          avatarFiles.sqlite(conn);
+          throw new Error('a later migration failed');
+        })()
+      ).toThrow('a later migration failed');
+      conn.transaction(() => avatarFiles.sqlite(conn))();
+
+      const { avatar_id } = conn.prepare('SELECT avatar_id FROM users').get() as { avatar_id: string };
+      expect(fs.readdirSync(avatarsDir)).toHaveLength(before + 1);
+      expect(fs.existsSync(`${avatarsDir}/${avatar_id}.source`)).toBe(true);
+    } finally {
+      conn.close();
+    }
+  });
+});
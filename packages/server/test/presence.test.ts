@@ -0,0 +1,41 @@
+import fs from 'fs';
+import { afterAll, describe, expect, it } from 'vitest';
+import { TestServer, api, openSocket, registerUser, startServer, tempDir } from './helpers';
+
+describe('presence across restarts', () => {
+  const dataDir = tempDir('presence');
+  let server: TestServer;
+
+  afterAll(async () => {
+    await server?.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const me = async (token: string) => (await api(server, 'GET', '/api/auth/me', { token })).body.user;
+
+  it('marks users offline whose connections died with the server', async () => {
+    server = await startServer({ DATA_DIR: dataDir });
+    const alice = await registerUser(server, 'alice');
+    const bob = await registerUser(server, 'bob');
+    const aliceSocket = await openSocket(server, alice.token);
+    const bobSocket = await openSocket(server, bob.token);
+    await api(server, 'PUT', '/api/auth/status', { token: bob.token, body: { presence: 'invisible' } });
+    expect((await me(alice.token)).status).toBe('online');
+    const bobBefore = await me(bob.token);
+    expect(bobBefore.status).toBe('invisible');
+
+    // The process exits without closing its sockets
+    await server.stop();
+    await aliceSocket.close();
+    await bobSocket.close();
+    server = await startServer({ DATA_DIR: dataDir });
+
+    const aliceAfter = await me(alice.token);
+    expect(aliceAfter.status).toBe('offline');
+    expect(aliceAfter.lastSeenAt).not.toBeNull();
+
+    // Still no last-seen time that would show bob was around
+    const bobAfter = await me(bob.token);
+    expect(bobAfter).toMatchObject({ status: 'offline', presence: 'invisible', lastSeenAt: bobBefore.lastSeenAt });
+  });
+});
@@ -0,0 +1,57 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Account, TestServer, api, openSocket, postMessage, registerUser, startServer } from './helpers';
+
+describe('rate limits shared by REST and the WebSocket', () => {
+  let server: TestServer;
+  let alice: Account;
+  let bob: Account;
+  let conversationId: string;
+
+  beforeAll(async () => {
+    // Too slow to refill during the test
+    server = await startServer({ RATE_LIMITS: 'edit_message=2/1,create_conversation=2/1' });
+    alice = await registerUser(server, 'alice');
+    bob = await registerUser(server, 'bob');
+    const { body } = await api(server, 'POST', '/api/conversations', {
+      token: alice.token,
+      body: { memberIds: [bob.user.id] },
+    });
+    conversationId = body.conversation.id;
+  });
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  it('refuses REST edits once the WebSocket has used up the budget', async () => {
+    const socket = await openSocket(server, alice.token);
+    try {
+      const message = await postMessage(socket, conversationId, 'First draft');
+      for (const content of ['Second draft', 'Third draft']) {
+        const edited = socket.next((event) => event.type === 'message_updated' && event.message.content === content);
+        socket.send({ type: 'edit_message', messageId: message.id, content });
+        await edited;
+      }
+
+      const { status, body } = await api(server, 'PUT', `/api/conversations/${conversationId}/messages/${message.id}`, {
+        token: alice.token,
+        body: { content: 'Fourth draft' },
+      });
+      expect(status).toBe(429);
+      expect(body).toMatchObject({ code: 'rate_limited' });
+    } finally {
+      await socket.close();
+    }
+  });
+
+  it('limits creating conversations', async () => {
+    // One was spent setting up
+    const create = () =>
+      api(server, 'POST', '/api/conversations', {
+        token: alice.token,
+        body: { memberIds: [bob.user.id], name: 'Plans', isGroup: true },
+      });
+    expect((await create()).status).toBe(200);
+    expect((await create()).status).toBe(429);
+  });
+});
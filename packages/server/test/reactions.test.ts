@@ -0,0 +1,52 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Message } from '@chatterbox/shared';
+import { Account, TestServer, api, registerUser, startServer } from './helpers';
+
+describe('reactions on notices', () => {
+  let server: TestServer;
+  let alice: Account;
+  let bob: Account;
+  let conversationId: string;
+  let notice: Message;
+
+  beforeAll(async () => {
+    server = await startServer();
+    alice = await registerUser(server, 'alice');
+    bob = await registerUser(server, 'bob');
+    const carol = await registerUser(server, 'carol');
+    const { body } = await api(server, 'POST', '/api/conversations', {
+      token: alice.token,
+      body: { memberIds: [bob.user.id], name: 'Team', isGroup: true },
+    });
+    conversationId = body.conversation.id;
+
+    await api(server, 'POST', `/api/conversations/${conversationId}/members`, {
+      token: alice.token,
+      body: { userId: carol.user.id },
+    });
+    const messages = await api(server, 'GET', `/api/conversations/${conversationId}/messages`, { token: bob.token });
+    notice = messages.body.messages.find((m: Message) => m.type === 'system');
+  });
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  it('lets members react to them', async () => {
+    const route = `/api/conversations/${conversationId}/messages/${notice.id}`;
+    const reacted = await api(server, 'POST', `${route}/reactions`, { token: bob.token, body: { emoji: '🎉' } });
+    expect(reacted.status).toBe(200);
+
+    const { body } = await api(server, 'GET', `/api/conversations/${conversationId}/messages`, { token: alice.token });
+    const stored = body.messages.find((m: Message) => m.id === notice.id);
+    expect(stored.reactions).toEqual([{ emoji: '🎉', count: 1, reacted: false }]);
+  });
+
+  it('still refuses to let even the owner edit or delete them', async () => {
+    const route = `/api/conversations/${conversationId}/messages/${notice.id}`;
+    const edited = await api(server, 'PUT', route, { token: alice.token, body: { content: 'Nothing happened' } });
+    expect(edited).toMatchObject({ status: 403, body: { error: 'System messages cannot be changed' } });
+    const deleted = await api(server, 'DELETE', route, { token: alice.token });
+    expect(deleted).toMatchObject({ status: 403, body: { error: 'System messages cannot be changed' } });
+  });
+});
@@ -0,0 +1,251 @@
+import { ChildProcess, spawn, spawnSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import type { ServerEvent } from '@chatterbox/shared';
+import { PubSubAdapter } from '../src/pubsub/types';
+import { createRedisPubSub } from '../src/pubsub/redisPubSub';
+import { RespConnection, createRespConnection } from '../src/pubsub/resp';
+import { TestServer, api, freePort, openSocket, postMessage, registerUser, startServer, tempDir } from './helpers';
+
+// These run against a real redis-server, started for the suite, and are
+// skipped where none is installed
+const hasRedis = !spawnSync('redis-server', ['--version']).error;
+
+function pause(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function waitForLine(child: ChildProcess, pattern: RegExp): Promise<RegExpMatchArray> {
+  return new Promise((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${pattern}:\n${output}`)), 15000);
+    child.stdout!.on('data', (chunk: Buffer) => {
+      output += chunk.toString();
+      const match = output.match(pattern);
+      if (match) {
+        clearTimeout(timer);
+        resolve(match);
+      }
+    });
+    child.once('exit', (code) => {
+      clearTimeout(timer);
+      reject(new Error(`Exited with code ${code}:\n${output}`));
+    });
+  });
+}
+
+function kill(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM'): Promise<void> {
+  if (child.exitCode !== null || child.signalCode !== null) return Promise.resolve();
+  const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()));
+  child.kill(signal);
+  return exited;
+}
+
+describe.skipIf(!hasRedis)('Redis pub/sub adapter', () => {
+  let redis: ChildProcess;
+  let redisUrl: string;
+  let raw: RespConnection;
+  let prefixCount = 0;
+  const adapters: PubSubAdapter[] = [];
+
+  // Each test gets its own key prefix, as separate deployments sharing a Redis would
+  const nextPrefix = () => `test${prefixCount++}:`;
+  const adapter = (keyPrefix: string, options = {}) => {
+    const created = createRedisPubSub(redisUrl, keyPrefix, options);
+    adapters.push(created);
+    return created;
+  };
+
+  beforeAll(async () => {
+    const port = await freePort();
+    redis = spawn('redis-server', ['--port', String(port), '--save', '', '--appendonly', 'no'], {
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    await waitForLine(redis, /Ready to accept connections/);
+    redisUrl = `redis://127.0.0.1:${port}`;
+    raw = createRespConnection(redisUrl);
+  });
+
+  afterEach(() => {
+    for (const created of adapters.splice(0)) created.close();
+  });
+
+  afterAll(async () => {
+    raw?.close();
+    if (redis) await kill(redis);
+  });
+
+  it('fans published events out to every process, including the publisher', async () => {
+    const keyPrefix = nextPrefix();
+    const nodes = [adapter(keyPrefix), adapter(keyPrefix)];
+    const received: string[][] = [[], []];
+    nodes.forEach((node, i) => node.subscribe('events', (message) => received[i].push(message)));
+
+    // SUBSCRIBE is asynchronous; publish until both processes are listening
+    await expect.poll(() => {
+      nodes[0].publish('events', 'hello');
+      return received.every((messages) => messages.includes('hello'));
+    }, { interval: 50 }).toBe(true);
+
+    nodes[1].publish('events', 'from the second');
+    await expect.poll(() => received.map((messages) => messages.filter((m) => m === 'from the second'))).toEqual([
+      ['from the second'],
+      ['from the second'],
+    ]);
+  });
+
+  it('keeps other deployments\' events apart', async () => {
+    const ours = adapter(nextPrefix());
+    const theirs = adapter(nextPrefix());
+    const received: string[] = [];
+    ours.subscribe('events', (message) => received.push(message));
+    theirs.subscribe('events', () => {});
+    await expect.poll(() => {
+      ours.publish('events', 'ours');
+      return received.includes('ours');
+    }, { interval: 50 }).toBe(true);
+
+    theirs.publish('events', 'theirs');
+    await pause(200);
+    expect(received).not.toContain('theirs');
+  });
+
+  it('counts a user\'s connections across processes', async () => {
+    const keyPrefix = nextPrefix();
+    const [a, b] = [adapter(keyPrefix), adapter(keyPrefix)];
+
+    expect(await a.addConnection('alice')).toBe(1);
+    expect(await b.addConnection('alice')).toBe(2);
+    expect(await a.addConnection('alice')).toBe(3);
+    expect(await b.addConnection('bob')).toBe(1);
+    expect(await b.removeConnection('alice')).toBe(2);
+    expect(await a.removeConnection('alice')).toBe(1);
+    expect(await a.removeConnection('alice')).toBe(0);
+    expect(await b.removeConnection('bob')).toBe(0);
+  });
+
+  it('stops counting a process\'s connections once its heartbeat expires', async () => {
+    const keyPrefix = nextPrefix();
+    const timings = { nodeTtlMs: 400, heartbeatIntervalMs: 100 };
+    const survivor = adapter(keyPrefix, timings);
+
+    const crashing = spawn(process.execPath, ['--import', 'tsx', path.join(__dirname, 'fixtures', 'redisNode.ts')], {
+      cwd: path.join(__dirname, '..'),
+      env: {
+        ...process.env,
+        REDIS_URL: redisUrl,
+        REDIS_KEY_PREFIX: keyPrefix,
+        USER_ID: 'carol',
+        NODE_TTL_MS: String(timings.nodeTtlMs),
+        HEARTBEAT_INTERVAL_MS: String(timings.heartbeatIntervalMs),
+      },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    try {
+      expect((await waitForLine(crashing, /ready (\d+)/))[1]).toBe('1');
+      expect(await survivor.addConnection('carol')).toBe(2);
+
+      // Heartbeats keep a live process counted well past the TTL
+      await pause(timings.nodeTtlMs * 3);
+      expect(await survivor.removeConnection('carol')).toBe(1);
+
+      // Killed without a chance to clean up, it drops out once the TTL runs out
+      await kill(crashing, 'SIGKILL');
+      await pause(timings.nodeTtlMs * 2);
+      expect(await survivor.addConnection('carol')).toBe(1);
+
+      // ...and its entry is removed from the user's presence hash
+      const fields = (await raw.command('HGETALL', `${keyPrefix}presence:carol`)) as string[];
+      expect(fields).toHaveLength(2);
+    } finally {
+      await kill(crashing, 'SIGKILL');
+    }
+  });
+
+  describe('between server processes', () => {
+    let dataDir: string;
+    let servers: TestServer[] = [];
+
+    afterEach(async () => {
+      for (const server of servers) await server.stop();
+      servers = [];
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('delivers messages and presence to users connected to another process', async () => {
+      dataDir = tempDir('cluster');
+      const env = {
+        STORAGE_BACKEND: 'sqlite',
+        DATA_DIR: dataDir,
+        PUBSUB_ADAPTER: 'redis',
+        REDIS_URL: redisUrl,
+        REDIS_KEY_PREFIX: nextPrefix(),
+      };
+      // One after the other, so only the first runs the migrations
+      servers.push(await startServer(env));
+      servers.push(await startServer(env));
+      const [first, second] = servers;
+
+      const alice = await registerUser(first, 'alice');
+      const bob = await registerUser(first, 'bob');
+      const { body } = await api(first, 'POST', '/api/conversations', {
+        token: alice.token,
+        body: { memberIds: [bob.user.id] },
+      });
+      const conversationId = body.conversation.id;
+
+      const aliceSocket = await openSocket(first, alice.token);
+      const bobSocket = await openSocket(second, bob.token);
+      try {
+        const delivered = bobSocket.next((event) => event.type === 'new_message');
+        const sent = await postMessage(aliceSocket, conversationId, 'Across processes');
+        expect(await delivered).toMatchObject({ type: 'new_message', message: { id: sent.id } });
+
+        // Bob signs in on the first process too; closing that socket leaves bob
+        // online, since bob is still connected to the second
+        const bobElsewhere = await openSocket(first, bob.token);
+        const statusEvents = () =>
+          aliceSocket.events.filter(
+            (event): event is Extract<ServerEvent, { type: 'user_status' }> =>
+              event.type === 'user_status' && event.user.id === bob.user.id
+          );
+        const before = statusEvents().length;
+        await bobElsewhere.close();
+        await pause(300);
+        expect(statusEvents().slice(before).map((event) => event.user.status)).not.toContain('offline');
+
+        const offline = aliceSocket.next(
+          (event) => event.type === 'user_status' && event.user.id === bob.user.id && event.user.status === 'offline'
+        );
+        await bobSocket.close();
+        await offline;
+      } finally {
+        await aliceSocket.close();
+        await bobSocket.close();
+      }
+    });
+
+    it('only resets the statuses of users no other process has connected', async () => {
+      dataDir = tempDir('cluster');
+      const env = {
+        STORAGE_BACKEND: 'sqlite',
+        DATA_DIR: dataDir,
+        PUBSUB_ADAPTER: 'redis',
+        REDIS_URL: redisUrl,
+        REDIS_KEY_PREFIX: nextPrefix(),
+      };
+      servers.push(await startServer(env));
+      const alice = await registerUser(servers[0], 'alice');
+      const aliceSocket = await openSocket(servers[0], alice.token);
+      try {
+        // A process starting alongside doesn't knock alice offline
+        servers.push(await startServer(env));
+        const { body } = await api(servers[1], 'GET', '/api/auth/me', { token: alice.token });
+        expect(body.user.status).toBe('online');
+      } finally {
+        await aliceSocket.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import net from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { RespConnection, createRespConnection } from '../src/pubsub/resp';
+
+// Answers each command it receives with the next scripted reply, written a
+// piece at a time so the client sees it arrive across several TCP chunks
+interface ScriptedServer {
+  url: string;
+  push(chunks: (string | Buffer)[]): void;
+  close(): Promise<void>;
+}
+
+function pause(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function startScriptedServer(): Promise<ScriptedServer> {
+  const replies: (string | Buffer)[][] = [];
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.setNoDelay(true);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('data', async () => {
+      for (const chunk of replies.shift() || []) {
+        socket.write(chunk);
+        await pause(5);
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    push: (chunks) => replies.push(chunks),
+    close: () =>
+      new Promise((resolve) => {
+        for (const socket of sockets) socket.destroy();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+// Every split point of a reply, one byte per chunk
+function bytes(reply: string): Buffer[] {
+  return [...Buffer.from(reply)].map((byte) => Buffer.from([byte]));
+}
+
+describe('RESP connection', () => {
+  let server: ScriptedServer;
+  let connection: RespConnection | undefined;
+
+  afterEach(async () => {
+    connection?.close();
+    connection = undefined;
+    await server.close();
+  });
+
+  async function connect(options = {}): Promise<RespConnection> {
+    server = await startScriptedServer();
+    connection = createRespConnection(server.url, options);
+    return connection;
+  }
+
+  it('parses a bulk string split inside its payload and inside a UTF-8 character', async () => {
+    const client = await connect();
+    const reply = Buffer.from('$6\r\nhéllo\r\n');
+    // 'é' is two bytes; the second chunk starts between them
+    server.push([reply.subarray(0, 6), reply.subarray(6, 9), reply.subarray(9)]);
+    expect(await client.command('GET', 'greeting')).toBe('héllo');
+  });
+
+  it('parses arrays of mixed replies delivered a byte at a time', async () => {
+    const client = await connect();
+    server.push(bytes('*5\r\n$3\r\nfoo\r\n:42\r\n$-1\r\n+OK\r\n*2\r\n$1\r\na\r\n$0\r\n\r\n'));
+    expect(await client.command('MGET', 'a', 'b')).toEqual(['foo', 42, null, 'OK', ['a', '']]);
+  });
+
+  it('rejects with an error reply split across chunks', async () => {
+    const client = await connect();
+    server.push(['-WRONGTYPE Operation', ' against a key holding', ' the wrong kind of value\r\n']);
+    await expect(client.command('HGETALL', 'key')).rejects.toThrow(
+      'WRONGTYPE Operation against a key holding the wrong kind of value'
+    );
+
+    // The connection is still usable afterwards
+    server.push(['+PONG\r\n']);
+    expect(await client.command('PING')).toBe('PONG');
+  });
+
+  it('matches several replies in one chunk to their commands in order', async () => {
+    const client = await connect();
+    server.push([':1\r\n:2\r\n']);
+    const replies = await Promise.all([client.command('INCR', 'n'), client.command('INCR', 'n')]);
+    expect(replies).toEqual([1, 2]);
+  });
+
+  it('hands split pub/sub messages to onMessage instead of a waiting command', async () => {
+    const messages: [string, string][] = [];
+    const client = await connect({ onMessage: (channel: string, message: string) => messages.push([channel, message]) });
+    const subscribed = '*3\r\n$9\r\nsubscribe\r\n$6\r\nevents\r\n:1\r\n';
+    const message = '*3\r\n$7\r\nmessage\r\n$6\r\nevents\r\n$11\r\n{"ok":true}\r\n';
+    server.push([subscribed + message.slice(0, 20), message.slice(20, 33), message.slice(33)]);
+
+    expect(await client.command('SUBSCRIBE', 'events')).toEqual(['subscribe', 'events', 1]);
+    await expect.poll(() => messages).toEqual([['events', '{"ok":true}']]);
+  });
+});
@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Account, TestServer, api, openSocket, postMessage, registerUser, startServer } from './helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe.each(['json', 'sqlite'])('message search on %s storage', (backend) => {
+  let server: TestServer;
+  let alice: Account;
+  let conversationId: string;
+  let messageId: string;
+  let createdAt: string;
+
+  beforeAll(async () => {
+    server = await startServer({ STORAGE_BACKEND: backend });
+    alice = await registerUser(server, 'alice');
+    const bob = await registerUser(server, 'bob');
+    const { body } = await api(server, 'POST', '/api/conversations', {
+      token: alice.token,
+      body: { memberIds: [bob.user.id], name: 'Team', isGroup: true },
+    });
+    conversationId = body.conversation.id;
+
+    await api(server, 'PATCH', `/api/conversations/${conversationId}`, { token: alice.token, body: { name: 'Budget' } });
+    const socket = await openSocket(server, alice.token);
+    try {
+      ({ id: messageId, createdAt } = await postMessage(socket, conversationId, 'The budget is due'));
+    } finally {
+      await socket.close();
+    }
+  });
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  const search = async (params: Record<string, string>): Promise<string[]> => {
+    const query = new URLSearchParams({ q: 'budget', ...params });
+    const { status, body } = await api(server, 'GET', `/api/search/messages?${query}`, { token: alice.token });
+    expect(status).toBe(200);
+    return body.results.map((result: { message: { id: string } }) => result.message.id);
+  };
+
+  it('leaves out system notices', async () => {
+    // The rename notice mentions the budget too
+    expect(await search({})).toEqual([messageId]);
+  });
+
+  it('counts the whole of a date given as the upper bound', async () => {
+    const today = createdAt.slice(0, 10);
+    const yesterday = new Date(Date.parse(createdAt) - DAY_MS).toISOString().slice(0, 10);
+    expect(await search({ from: today, to: today })).toEqual([messageId]);
+    expect(await search({ to: yesterday })).toEqual([]);
+    // A full timestamp is still taken exactly
+    expect(await search({ to: `${today}T00:00:00.000Z` })).toEqual([]);
+  });
+});
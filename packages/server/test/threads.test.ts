@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Message } from '@chatterbox/shared';
+import { Account, TestServer, api, openSocket, postMessage, registerUser, startServer } from './helpers';
+
+describe('thread replies', () => {
+  let server: TestServer;
+  let alice: Account;
+  let bob: Account;
+  let conversationId: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    alice = await registerUser(server, 'alice');
+    bob = await registerUser(server, 'bob');
+    const { body } = await api(server, 'POST', '/api/conversations', {
+      token: alice.token,
+      body: { memberIds: [bob.user.id] },
+    });
+    conversationId = body.conversation.id;
+  });
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  async function replyCount(rootId: string): Promise<number> {
+    const { body } = await api(server, 'GET', `/api/conversations/${conversationId}/messages`, { token: bob.token });
+    return body.messages.find((m: Message) => m.id === rootId).replyCount;
+  }
+
+  it('stop counting toward the root once deleted', async () => {
+    const aliceSocket = await openSocket(server, alice.token);
+    const bobSocket = await openSocket(server, bob.token);
+    try {
+      const root = await postMessage(aliceSocket, conversationId, 'Lunch?');
+      const first = await postMessage(aliceSocket, conversationId, 'Noon works', { threadRootId: root.id });
+      await postMessage(aliceSocket, conversationId, 'Or one', { threadRootId: root.id });
+      expect(await replyCount(root.id)).toBe(2);
+
+      // Over REST, and seen by the other member
+      const updated = bobSocket.next((event) => event.type === 'thread_updated' && event.root.replyCount === 1);
+      const deleted = await api(server, 'DELETE', `/api/conversations/${conversationId}/messages/${first.id}`, {
+        token: alice.token,
+      });
+      expect(deleted.status).toBe(200);
+      expect(await updated).toMatchObject({ type: 'thread_updated', conversationId, root: { id: root.id } });
+      expect(await replyCount(root.id)).toBe(1);
+
+      // And over the WebSocket
+      const last = await postMessage(aliceSocket, conversationId, 'Actually, two', { threadRootId: root.id });
+      const removed = bobSocket.next((event) => event.type === 'thread_updated' && event.root.replyCount === 1);
+      aliceSocket.send({ type: 'delete_message', messageId: last.id });
+      await removed;
+
+      // A reply that's already gone doesn't count twice
+      const again = await api(server, 'DELETE', `/api/conversations/${conversationId}/messages/${first.id}`, {
+        token: alice.token,
+      });
+      expect(again.status).not.toBe(200);
+      expect(await replyCount(root.id)).toBe(1);
+    } finally {
+      await aliceSocket.close();
+      await bobSocket.close();
+    }
+  });
+});
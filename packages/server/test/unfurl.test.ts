@@ -0,0 +1,306 @@
+import dns from 'dns';
+import http from 'http';
+import net from 'net';
+import { PassThrough } from 'stream';
+import sharp from 'sharp';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { UnfurlOptions, createUnfurler, isPrivateAddress } from '../src/unfurl';
+
+// A local site to unfurl. Each path is one scenario; requests are counted so
+// tests can tell whether anything was fetched at all.
+let fixture: http.Server;
+let base: string;
+let requests: string[] = [];
+let png: Buffer;
+
+const page = (head: string, body = '<p>Hello</p>') => `<!doctype html><html><head>${head}</head><body>${body}</body></html>`;
+
+const routes: Record<string, (req: http.IncomingMessage, res: http.ServerResponse) => void> = {
+  '/og': (_req, res) => {
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.end(page(`
+      <title>Fallback title</title>
+      <meta property="og:title" content="Release notes &amp; more">
+      <meta property="og:description" content="What changed this week">
+      <meta property="og:site_name" content="Example Blog">
+      <meta property="og:image" content="/image.png">
+    `));
+  },
+  '/twitter': (_req, res) => {
+    res.setHeader('Content-Type', 'text/html');
+    res.end(page(`
+      <meta name="twitter:title" content="A tweet-sized title">
+      <meta name="twitter:description" content="Short and sweet">
+    `));
+  },
+  '/title': (_req, res) => {
+    res.setHeader('Content-Type', 'text/html');
+    res.end(page('<title>  Plain &lt;old&gt;\n page  </title><meta name="description" content="Just a page">'));
+  },
+  '/no-metadata': (_req, res) => {
+    res.setHeader('Content-Type', 'text/html');
+    res.end(page('', '<title>In the body, so ignored</title>'));
+  },
+  '/oembed-page': (_req, res) => {
+    res.setHeader('Content-Type', 'text/html');
+    res.end(page('<link rel="alternate" type="application/json+oembed" href="/oembed.json">'));
+  },
+  '/oembed.json': (_req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ title: 'An embedded video', provider_name: 'VideoSite', thumbnail_url: '/image.png' }));
+  },
+  '/image.png': (_req, res) => {
+    res.setHeader('Content-Type', 'image/png');
+    res.end(png);
+  },
+  '/huge-image-page': (_req, res) => {
+    res.setHeader('Content-Type', 'text/html');
+    res.end(page('<meta property="og:title" content="Big picture"><meta property="og:image" content="/huge.png">'));
+  },
+  '/huge.png': (_req, res) => {
+    res.setHeader('Content-Type', 'image/png');
+    res.end(Buffer.concat([png, Buffer.alloc(64 * 1024)]));
+  },
+  '/json': (_req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ title: 'Not a page' }));
+  },
+  '/png-as-page': (_req, res) => {
+    res.setHeader('Content-Type', 'image/png');
+    res.end(png);
+  },
+  '/endless': (_req, res) => {
+    // The head comes first, then the body never ends
+    res.setHeader('Content-Type', 'text/html');
+    res.write('<html><head><title>Endless</title></head><body>');
+    const timer = setInterval(() => res.write('<p>more</p>'.repeat(100)), 5);
+    res.on('close', () => clearInterval(timer));
+  },
+  '/late-title': (_req, res) => {
+    res.setHeader('Content-Type', 'text/html');
+    res.end(`<html><head><!--${'x'.repeat(8 * 1024)}--><title>Too far in</title></head></html>`);
+  },
+  '/slow-headers': () => {
+    // Never answers
+  },
+  '/slow-body': (_req, res) => {
+    res.setHeader('Content-Type', 'text/html');
+    res.write('<html><head>');
+  },
+  '/missing': (_req, res) => {
+    res.statusCode = 404;
+    res.end('Not found');
+  },
+};
+
+function redirectRoute(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+  // /redirect/N redirects N times before landing on /og, the last hop relative
+  const hops = Number(req.url!.match(/^\/redirect\/(\d+)$/)?.[1]);
+  if (Number.isNaN(hops)) return false;
+  res.statusCode = 302;
+  res.setHeader('Location', hops > 1 ? `${base}/redirect/${hops - 1}` : '/og');
+  res.end();
+  return true;
+}
+
+beforeAll(async () => {
+  png = await sharp({ create: { width: 800, height: 600, channels: 3, background: '#ff5a3c' } }).png().toBuffer();
+  fixture = http.createServer((req, res) => {
+    requests.push(req.url!);
+    if (redirectRoute(req, res)) return;
+    const route = routes[req.url!];
+    if (route) {
+      route(req, res);
+    } else {
+      res.statusCode = 404;
+      res.end();
+    }
+  });
+  await new Promise<void>((resolve) => fixture.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(fixture.address() as net.AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  fixture.closeAllConnections();
+  await new Promise((resolve) => fixture.close(resolve));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  requests = [];
+});
+
+function localUnfurler(overrides: Partial<UnfurlOptions> = {}) {
+  return createUnfurler({ allowPrivateNetworks: true, timeoutMs: 2000, ...overrides });
+}
+
+describe('unfurling pages', () => {
+  it('reads OpenGraph tags and makes a thumbnail of the image', async () => {
+    const link = await localUnfurler({ thumbnailSize: 200 }).unfurl(`${base}/og`);
+    expect(link).toMatchObject({
+      url: `${base}/og`,
+      title: 'Release notes & more',
+      description: 'What changed this week',
+      siteName: 'Example Blog',
+    });
+    const thumbnail = await sharp(link!.thumbnail!).metadata();
+    expect(thumbnail).toMatchObject({ format: 'webp', width: 200, height: 150 });
+  });
+
+  it('falls back to Twitter card tags', async () => {
+    expect(await localUnfurler().unfurl(`${base}/twitter`)).toMatchObject({
+      title: 'A tweet-sized title',
+      description: 'Short and sweet',
+      siteName: null,
+      thumbnail: null,
+    });
+  });
+
+  it('falls back to the <title> and description meta tag', async () => {
+    expect(await localUnfurler().unfurl(`${base}/title`)).toMatchObject({
+      title: 'Plain <old> page',
+      description: 'Just a page',
+    });
+  });
+
+  it('uses oEmbed when the page itself has no title', async () => {
+    const link = await localUnfurler().unfurl(`${base}/oembed-page`);
+    expect(link).toMatchObject({ title: 'An embedded video', siteName: 'VideoSite' });
+    expect(link!.thumbnail).not.toBeNull();
+  });
+
+  it('has nothing to show for a page without metadata in its head', async () => {
+    expect(await localUnfurler().unfurl(`${base}/no-metadata`)).toBeNull();
+  });
+
+  it('skips responses that are not HTML', async () => {
+    const unfurler = localUnfurler();
+    expect(await unfurler.unfurl(`${base}/json`)).toBeNull();
+    expect(await unfurler.unfurl(`${base}/png-as-page`)).toBeNull();
+    expect(await unfurler.unfurl(`${base}/missing`)).toBeNull();
+  });
+});
+
+describe('limits', () => {
+  it('stops reading a page at the byte cap', async () => {
+    const started = Date.now();
+    const link = await localUnfurler({ maxPageBytes: 16 * 1024, timeoutMs: 10000 }).unfurl(`${base}/endless`);
+    expect(link?.title).toBe('Endless');
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('does not look past the byte cap for metadata', async () => {
+    expect(await localUnfurler({ maxPageBytes: 4 * 1024 }).unfurl(`${base}/late-title`)).toBeNull();
+    expect(await localUnfurler({ maxPageBytes: 64 * 1024 }).unfurl(`${base}/late-title`)).toMatchObject({
+      title: 'Too far in',
+    });
+  });
+
+  it('drops an image over the image cap but keeps the preview', async () => {
+    const link = await localUnfurler({ maxImageBytes: png.length + 1024 }).unfurl(`${base}/huge-image-page`);
+    expect(link).toMatchObject({ title: 'Big picture', thumbnail: null });
+  });
+
+  it('gives up on servers that stall, before or after the headers', async () => {
+    const unfurler = localUnfurler({ timeoutMs: 300 });
+    for (const path of ['/slow-headers', '/slow-body']) {
+      const started = Date.now();
+      expect(await unfurler.unfurl(`${base}${path}`)).toBeNull();
+      expect(Date.now() - started).toBeLessThan(2000);
+    }
+  });
+
+  it('follows redirects up to the limit', async () => {
+    const unfurler = localUnfurler({ maxRedirects: 3 });
+    expect(await unfurler.unfurl(`${base}/redirect/3`)).toMatchObject({ url: `${base}/og`, title: 'Release notes & more' });
+
+    requests = [];
+    expect(await unfurler.unfurl(`${base}/redirect/4`)).toBeNull();
+    expect(requests).not.toContain('/og');
+  });
+});
+
+describe('private networks', () => {
+  it('recognises private, reserved and tunnelled addresses', () => {
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1', '::ffff:a01:203', '64:ff9b::a01:203',
+      // 6to4 and Teredo, which carry an IPv4 address inside
+      '2002:7f00:1::1', '2002:c0a8:101::', '2001:0:4136:e378:8000:63bf:3fff:fdd2',
+      'not-an-address',
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700::1111', '2a00:1450:4001::200e']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+
+  it('refuses loopback, RFC 1918, link-local and tunnelled targets without fetching them', async () => {
+    const get = vi.spyOn(http, 'get');
+    const unfurler = createUnfurler();
+    for (const url of [
+      'http://127.0.0.1/', 'http://10.0.0.8/', 'http://172.20.1.1/', 'http://192.168.0.1/admin',
+      'http://169.254.169.254/latest/meta-data/', 'http://[::1]/', 'http://[fe80::1]/',
+      'http://[::ffff:127.0.0.1]/', 'http://[2002:7f00:1::1]/', 'http://2130706433/', 'http://0x7f.1/',
+    ]) {
+      expect(await unfurler.unfurl(url), url).toBeNull();
+    }
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('refuses the fixture server itself unless private networks are allowed', async () => {
+    expect(await createUnfurler().unfurl(`${base}/og`)).toBeNull();
+    expect(requests).toEqual([]);
+  });
+
+  it('refuses hostnames that resolve to a private address, before connecting', async () => {
+    vi.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, _options: unknown, callback: Function) => {
+      callback(null, [{ address: '127.0.0.1', family: 4 }]);
+    }) as unknown as typeof dns.lookup);
+    // A refused connection would be logged; a refused lookup is expected and isn't
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await createUnfurler().unfurl('http://intranet.example/')).toBeNull();
+    expect(dns.lookup).toHaveBeenCalled();
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  describe('redirected from a public page', () => {
+    // Answers for public.example with a redirect, as if it were out on the internet
+    function redirectPublicPageTo(location: string) {
+      const realGet = http.get;
+      return vi.spyOn(http, 'get').mockImplementation(((url: URL, options: http.RequestOptions, callback: Function) => {
+        if (url.hostname !== 'public.example') return realGet(url, options, callback as () => void);
+        const response = Object.assign(new PassThrough(), { statusCode: 302, headers: { location } });
+        response.end();
+        setImmediate(() => callback(response));
+        return Object.assign(new PassThrough(), { on: () => {} });
+      }) as unknown as typeof http.get);
+    }
+
+    it('refuses a redirect to a private address', async () => {
+      const get = redirectPublicPageTo('http://192.168.1.1/router');
+      expect(await createUnfurler().unfurl('http://public.example/')).toBeNull();
+      expect(get.mock.calls.map(([url]) => String(url))).toEqual(['http://public.example/']);
+    });
+
+    it('refuses a redirect to the fixture server', async () => {
+      redirectPublicPageTo(`${base}/og`);
+      expect(await createUnfurler().unfurl('http://public.example/')).toBeNull();
+      expect(requests).toEqual([]);
+    });
+
+    it('refuses a redirect to a hostname that resolves to a private address', async () => {
+      redirectPublicPageTo('http://intranet.example/');
+      vi.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, _options: unknown, callback: Function) => {
+        callback(null, [{ address: '127.0.0.1', family: 4 }]);
+      }) as unknown as typeof dns.lookup);
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(await createUnfurler().unfurl('http://public.example/')).toBeNull();
+      expect(dns.lookup).toHaveBeenCalledWith('intranet.example', expect.anything(), expect.any(Function));
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Account, TestServer, api, registerUser, startServer } from './helpers';
+
+const KB = 1024;
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function uploadForm(contents: Buffer, name: string): FormData {
+  const form = new FormData();
+  form.append('file', new Blob([contents]), name);
+  return form;
+}
+
+describe('the upload quota', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startServer({ UPLOAD_QUOTA_MB: '1' });
+  });
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  const upload = (account: Account, contents: Buffer, name: string) =>
+    api(server, 'POST', '/api/upload', { token: account.token, form: uploadForm(contents, name) });
+
+  it('holds room for uploads still in progress', async () => {
+    const alice = await registerUser(server, 'alice');
+    const text = Buffer.alloc(400 * KB, 'a');
+
+    const results = await Promise.all([1, 2, 3].map((n) => upload(alice, text, `notes-${n}.txt`)));
+    const statuses = results.map((r) => r.status).sort();
+    expect(statuses).toEqual([200, 200, 413]);
+    expect(results.find((r) => r.status === 413)!.body.error).toBe('You have used all of your file storage');
+  });
+
+  it('gives the room back when an upload fails', async () => {
+    const bob = await registerUser(server, 'bob');
+    const notAnImage = Buffer.concat([Buffer.from(PNG_SIGNATURE), Buffer.alloc(900 * KB)]);
+
+    const failed = await upload(bob, notAnImage, 'broken.png');
+    expect(failed.status).toBe(400);
+    expect(failed.body.error).toBe('The image could not be read');
+
+    const stored = await upload(bob, Buffer.alloc(900 * KB, 'b'), 'notes.txt');
+    expect(stored.status).toBe(200);
+  });
+});
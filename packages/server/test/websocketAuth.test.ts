@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Account, TestServer, api, openSocket, postMessage, registerUser, startServer } from './helpers';
+
+function pause(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('signing in over the WebSocket', () => {
+  let server: TestServer;
+  let alice: Account;
+  let bob: Account;
+  let conversationId: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    alice = await registerUser(server, 'alice');
+    bob = await registerUser(server, 'bob');
+    const { body } = await api(server, 'POST', '/api/conversations', {
+      token: alice.token,
+      body: { memberIds: [bob.user.id] },
+    });
+    conversationId = body.conversation.id;
+  });
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  it('refuses a second auth frame and keeps counting the socket once', async () => {
+    const bobSocket = await openSocket(server, bob.token);
+    const aliceSocket = await openSocket(server, alice.token);
+    try {
+      const refused = aliceSocket.next((event) => event.type === 'error');
+      aliceSocket.send({ type: 'auth', token: alice.token });
+      expect(await refused).toMatchObject({ type: 'error', error: 'Already authenticated' });
+
+      // Delivered to the socket once, not once per auth frame
+      const sent = await postMessage(bobSocket, conversationId, 'Just once');
+      await pause(200);
+      const copies = aliceSocket.events.filter(
+        (event) => event.type === 'new_message' && event.message.id === sent.id
+      );
+      expect(copies).toHaveLength(1);
+
+      // Closing alice's only socket takes alice offline
+      const offline = bobSocket.next(
+        (event) => event.type === 'user_status' && event.user.id === alice.user.id && event.user.status === 'offline'
+      );
+      await aliceSocket.close();
+      await offline;
+    } finally {
+      await aliceSocket.close();
+      await bobSocket.close();
+    }
+  });
+});
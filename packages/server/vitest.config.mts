@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // Most suites start real server processes; one file at a time keeps
+    // them from competing for ports and CPU
+    fileParallelism: false,
+    testTimeout: 20000,
+    hookTimeout: 60000,
+  },
+});
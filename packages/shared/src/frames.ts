@@ -0,0 +1,193 @@
+import { z } from 'zod';
+import { Conversation, Message, MessageFormat, ReadReceipt, User } from './models';
+import { Id, MAX_MESSAGE_LENGTH, ReactionEmoji } from './requests';
+import { ValidationIssue, ErrorCode } from './validation';
+
+// WebSocket frames in both directions, discriminated by `type`
+
+// Client to server
+
+export const AuthFrame = z.object({
+  type: z.literal('auth'),
+  // A bad token gets auth_error, not a validation error
+  token: z.string().max(4096),
+  // Where a reconnecting client got up to, so it can be sent what it missed
+  resume: z.object({
+    streamId: z.string().max(64),
+    seq: z.number().int().nonnegative(),
+  }).nullish(),
+});
+
+export const SendMessageFrame = z.object({
+  type: z.literal('message'),
+  conversationId: Id,
+  content: z.string().max(MAX_MESSAGE_LENGTH),
+  // Defaults to plain; edits keep the format the message was sent with
+  format: MessageFormat.optional(),
+  // An unsent upload of the sender's; makes this an image or file message
+  attachmentId: Id.nullish(),
+  replyToId: Id.nullish(),
+  threadRootId: Id.nullish(),
+  // Lets the client match the ack, and the server recognise a resend
+  clientMessageId: Id.nullish(),
+}).refine(frame => frame.attachmentId || frame.content.trim(), {
+  message: 'A message needs content or an attachment',
+  path: ['content'],
+});
+
+export const EditMessageFrame = z.object({
+  type: z.literal('edit_message'),
+  messageId: Id,
+  content: z.string().max(MAX_MESSAGE_LENGTH).refine(value => value.trim().length > 0, 'content required'),
+});
+
+export const DeleteMessageFrame = z.object({
+  type: z.literal('delete_message'),
+  messageId: Id,
+});
+
+export const ReactionFrame = z.object({
+  type: z.enum(['add_reaction', 'remove_reaction']),
+  messageId: Id,
+  emoji: ReactionEmoji,
+});
+
+export const MarkReadFrame = z.object({
+  type: z.literal('mark_read'),
+  conversationId: Id,
+  messageId: Id,
+});
+
+export const TypingFrame = z.object({
+  type: z.literal('typing'),
+  conversationId: Id,
+  isTyping: z.boolean(),
+});
+
+// The client reports when its user goes idle or comes back
+export const IdleFrame = z.object({
+  type: z.literal('idle'),
+  idle: z.boolean(),
+});
+
+export const PingFrame = z.object({
+  type: z.literal('ping'),
+});
+
+export const ClientFrame = z.discriminatedUnion('type', [
+  AuthFrame,
+  SendMessageFrame,
+  EditMessageFrame,
+  DeleteMessageFrame,
+  ReactionFrame,
+  MarkReadFrame,
+  TypingFrame,
+  IdleFrame,
+  PingFrame,
+]);
+export type ClientFrame = z.infer<typeof ClientFrame>;
+
+// Server to client. Broadcast events carry a `seq` so a client that misses
+// some can have them replayed; live-only ones like typing don't.
+
+const seq = z.number().int().optional();
+
+export const ServerEvent = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('auth_success'),
+    user: User,
+    streamId: z.string(),
+    latestSeq: z.number().int(),
+    // The missed events are gone; the client should refetch everything
+    resync: z.boolean(),
+  }),
+  z.object({
+    type: z.literal('auth_error'),
+    error: z.string(),
+  }),
+  z.object({
+    type: z.literal('error'),
+    error: z.string(),
+    code: ErrorCode.optional(),
+    issues: z.array(ValidationIssue).optional(),
+    // Set when rate limited: seconds until it's worth trying again
+    retryAfter: z.number().optional(),
+    // Whichever ids the failed frame carried
+    conversationId: z.string().optional(),
+    messageId: z.string().optional(),
+    clientMessageId: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('new_message'),
+    seq,
+    message: Message,
+  }),
+  z.object({
+    type: z.literal('message_ack'),
+    clientMessageId: z.string(),
+    message: Message,
+  }),
+  z.object({
+    type: z.literal('message_updated'),
+    seq,
+    message: Message,
+  }),
+  // Sent only to the users a message mentions, when it's posted or when an
+  // edit first mentions them
+  z.object({
+    type: z.literal('mention'),
+    seq,
+    message: Message,
+  }),
+  z.object({
+    type: z.literal('message_deleted'),
+    seq,
+    conversationId: z.string(),
+    messageId: z.string(),
+    message: Message,
+  }),
+  z.object({
+    type: z.enum(['reaction_added', 'reaction_removed']),
+    seq,
+    conversationId: z.string(),
+    messageId: z.string(),
+    userId: z.string(),
+    emoji: z.string(),
+  }),
+  ReadReceipt.extend({
+    type: z.literal('read_receipt'),
+    seq,
+  }),
+  z.object({
+    type: z.literal('thread_updated'),
+    seq,
+    conversationId: z.string(),
+    root: Message,
+  }),
+  z.object({
+    type: z.literal('typing'),
+    conversationId: z.string(),
+    userId: z.string(),
+    userName: z.string(),
+    isTyping: z.boolean(),
+  }),
+  z.object({
+    type: z.literal('conversation_updated'),
+    seq,
+    conversation: Conversation,
+  }),
+  z.object({
+    type: z.literal('conversation_removed'),
+    seq,
+    conversationId: z.string(),
+  }),
+  z.object({
+    type: z.literal('user_status'),
+    seq,
+    user: User,
+  }),
+  z.object({
+    type: z.literal('pong'),
+  }),
+]);
+export type ServerEvent = z.infer<typeof ServerEvent>;
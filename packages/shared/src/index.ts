@@ -0,0 +1,7 @@
+export * from './models';
+export * from './requests';
+export * from './frames';
+export * from './validation';
+export * from './markdown';
+export * from './mentions';
+export * from './notifications';
@@ -0,0 +1,340 @@
+// The markdown subset messages support, parsed to a tree that clients render
+// as they like. Nothing in the source is passed through as HTML.
+//
+// Blocks: paragraphs (single newlines are line breaks), fenced code blocks
+// with an optional language, > quotes, and - / 1. lists without nesting.
+// Inline: **bold**, *italic* or _italic_, ~~strikethrough~~, `code`,
+// [text](url) and bare http(s) URLs. A backslash escapes punctuation.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strikethrough'; children: MarkdownInline[] }
+  // Only http, https and mailto URLs become links
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code_block'; language: string | null; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] };
+
+// Deeper quotes and emphasis are left as text rather than recursed into
+const MAX_QUOTE_DEPTH = 5;
+const MAX_INLINE_DEPTH = 10;
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const BULLET = /^ {0,3}[-*+] +(\S.*)$/;
+const NUMBERED = /^ {0,3}(\d{1,9})[.)] +(\S.*)$/;
+// A line that continues the list item above it
+const CONTINUATION = /^ {2,}(\S.*)$/;
+
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+const URL_PATTERN = /^https?:\/\/[^\s<>"]+/i;
+const SAFE_HREF = /^(https?:\/\/|mailto:)[^\s<>"]+$/i;
+
+export function safeHref(url: string): string | null {
+  return SAFE_HREF.test(url) ? url : null;
+}
+
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || QUOTE.test(line) || BULLET.test(line) || NUMBERED.test(line);
+}
+
+export function parseMarkdown(source: string, depth = 0): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      // Closed by a run of the same character at least as long; an unclosed
+      // block runs to the end
+      const closing = new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`);
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !closing.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code_block', language: fence[2].toLowerCase() || null, text: code.join('\n') });
+      continue;
+    }
+
+    if (QUOTE.test(line) && depth < MAX_QUOTE_DEPTH) {
+      const quoted: string[] = [];
+      let match: RegExpMatchArray | null;
+      while (i < lines.length && (match = lines[i].match(QUOTE))) {
+        quoted.push(match[1]);
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseMarkdown(quoted.join('\n'), depth + 1) });
+      continue;
+    }
+
+    const bullet = line.match(BULLET);
+    const numbered = line.match(NUMBERED);
+    if (bullet || numbered) {
+      const ordered = !bullet;
+      const itemPattern = ordered ? NUMBERED : BULLET;
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(itemPattern);
+        const continuation = items.length > 0 && !startsBlock(lines[i]) && lines[i].match(CONTINUATION);
+        if (item) {
+          items.push(item[ordered ? 2 : 1]);
+        } else if (continuation) {
+          items[items.length - 1] += `\n${continuation[1]}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: numbered ? Number(numbered[1]) : 1,
+        items: items.map(item => parseInline(item)),
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+// Where a code span opening at `start` ends, or -1 if it isn't closed
+function codeSpanEnd(text: string, start: number): number {
+  let ticks = 0;
+  while (text[start + ticks] === '`') ticks++;
+  const fence = '`'.repeat(ticks);
+  let at = text.indexOf(fence, start + ticks);
+  while (at !== -1) {
+    let run = 0;
+    while (text[at + run] === '`') run++;
+    if (run === ticks) return at;
+    at = text.indexOf(fence, at + run);
+  }
+  return -1;
+}
+
+// Finds the delimiter that closes one opened just before `from`, skipping
+// escapes and code spans. The closer can't follow whitespace, and an
+// underscore closer can't be followed by a word character.
+function findCloser(text: string, delimiter: string, from: number): number {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === '`') {
+      const end = codeSpanEnd(text, i);
+      if (end !== -1) {
+        i = end + 1;
+        continue;
+      }
+    }
+    // A doubled single delimiter belongs to a nested bold, not to this italic
+    if (delimiter.length === 1 && text[i] === delimiter && text[i + 1] === delimiter) {
+      while (text[i] === delimiter) i++;
+      continue;
+    }
+    if (
+      text.startsWith(delimiter, i)
+      && i > from
+      && !/\s/.test(text[i - 1])
+      && !(delimiter === '_' && /\w/.test(text[i + 1] || ''))
+    ) {
+      return i;
+    }
+    i++;
+  }
+  return -1;
+}
+
+const EMPHASIS: { delimiter: string; type: 'strong' | 'emphasis' | 'strikethrough' }[] = [
+  { delimiter: '**', type: 'strong' },
+  { delimiter: '__', type: 'strong' },
+  { delimiter: '~~', type: 'strikethrough' },
+  { delimiter: '*', type: 'emphasis' },
+  { delimiter: '_', type: 'emphasis' },
+];
+
+// Trailing punctuation is more likely the sentence's than the URL's
+function trimUrl(url: string): string {
+  let end = url.length;
+  while (end > 0 && /[.,;:!?'")\]]/.test(url[end - 1])) {
+    const opened = url.slice(0, end).split('(').length - 1;
+    const closed = url.slice(0, end).split(')').length - 1;
+    if (url[end - 1] === ')' && closed <= opened) break;
+    end--;
+  }
+  return url.slice(0, end);
+}
+
+export function parseInline(text: string, depth = 0): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  // Once a delimiter has no closer, later openers won't find one either;
+  // remembering that keeps long runs of unmatched ones from going quadratic
+  const unclosed = new Set<string>();
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] || '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = codeSpanEnd(text, i);
+      let ticks = 0;
+      while (text[i + ticks] === '`') ticks++;
+      if (end === -1) {
+        buffer += text.slice(i, i + ticks);
+        i += ticks;
+        continue;
+      }
+      flush();
+      nodes.push({ type: 'code', text: text.slice(i + ticks, end).replace(/\n/g, ' ') });
+      i = end + ticks;
+      continue;
+    }
+
+    if (char === '[') {
+      const link = text.slice(i).match(/^\[([^\]\n]+)\]\(([^)\s]+)\)/);
+      const href = link && safeHref(link[2]);
+      if (link && href) {
+        flush();
+        nodes.push({ type: 'link', href, children: parseInline(link[1], depth + 1) });
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'H') && !/\w/.test(text[i - 1] || '')) {
+      const url = text.slice(i).match(URL_PATTERN);
+      if (url) {
+        const href = trimUrl(url[0]);
+        flush();
+        nodes.push({ type: 'link', href, children: [{ type: 'text', text: href }] });
+        i += href.length;
+        continue;
+      }
+    }
+
+    const emphasis = EMPHASIS.find(e => text.startsWith(e.delimiter, i));
+    if (emphasis) {
+      const { delimiter } = emphasis;
+      const after = i + delimiter.length;
+      const opens = depth < MAX_INLINE_DEPTH && !unclosed.has(delimiter)
+        && text[after] && !/\s/.test(text[after])
+        && !(delimiter[0] === '_' && /\w/.test(text[i - 1] || ''));
+      const end = opens ? findCloser(text, delimiter, after) : -1;
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: emphasis.type, children: parseInline(text.slice(after, end), depth + 1) });
+        i = end + delimiter.length;
+        continue;
+      }
+      if (opens) unclosed.add(delimiter);
+      buffer += delimiter;
+      i = after;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+// The URLs a message links to, in order and without repeats. Links inside
+// code aren't parsed as links, so they're left out.
+export function markdownLinks(source: string): string[] {
+  const links = new Set<string>();
+  const visitInline = (nodes: MarkdownInline[]) => {
+    for (const node of nodes) {
+      if (node.type === 'link') links.add(node.href);
+      if ('children' in node) visitInline(node.children);
+    }
+  };
+  const visitBlocks = (blocks: MarkdownBlock[]) => {
+    for (const block of blocks) {
+      if (block.type === 'paragraph') visitInline(block.children);
+      if (block.type === 'blockquote') visitBlocks(block.children);
+      if (block.type === 'list') block.items.forEach(visitInline);
+    }
+  };
+  visitBlocks(parseMarkdown(source));
+  return Array.from(links);
+}
+
+function inlineText(nodes: MarkdownInline[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text;
+      case 'break':
+        return '\n';
+      default:
+        return inlineText(node.children);
+    }
+  }).join('');
+}
+
+// The text without markup, for previews and notifications
+export function markdownToText(source: string): string {
+  const blockText = (block: MarkdownBlock): string => {
+    switch (block.type) {
+      case 'paragraph':
+        return inlineText(block.children);
+      case 'code_block':
+        return block.text;
+      case 'blockquote':
+        return block.children.map(blockText).join('\n');
+      case 'list':
+        return block.items
+          .map((item, index) => `${block.ordered ? `${block.start + index}.` : '•'} ${inlineText(item)}`)
+          .join('\n');
+    }
+  };
+  return parseMarkdown(source).map(blockText).join('\n');
+}
@@ -0,0 +1,68 @@
+import { parseMarkdown, MarkdownBlock, MarkdownInline } from './markdown';
+import type { Mention, MessageFormat } from './models';
+
+// @name tokens in message text. Names are word characters, dots and hyphens
+// and end in a word character. The @ can't follow a word character or a
+// slash, so email addresses and URL paths aren't mentions.
+const MENTION = /(?<![\w@/])@([\w.-]*\w)/g;
+
+// @here is everyone in the conversation who is online; @all is every member
+export const GROUP_MENTIONS = ['here', 'all'];
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  // `name` is lowercased; `text` is the token as written, @ included
+  | { type: 'mention'; name: string; text: string };
+
+// Splits text around its @name tokens
+export function splitMentions(text: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let pos = 0;
+  for (const match of text.matchAll(MENTION)) {
+    if (match.index! > pos) segments.push({ type: 'text', text: text.slice(pos, match.index) });
+    segments.push({ type: 'mention', name: match[1].toLowerCase(), text: match[0] });
+    pos = match.index! + match[0].length;
+  }
+  if (pos < text.length) segments.push({ type: 'text', text: text.slice(pos) });
+  return segments;
+}
+
+// The names a message mentions, lowercased, in order and without repeats.
+// In markdown, mentions inside code and links don't count.
+export function mentionNames(content: string, format: MessageFormat): string[] {
+  const names = new Set<string>();
+  const visitText = (text: string) => {
+    for (const segment of splitMentions(text)) {
+      if (segment.type === 'mention') names.add(segment.name);
+    }
+  };
+
+  if (format === 'plain') {
+    visitText(content);
+    return Array.from(names);
+  }
+
+  const visitInline = (nodes: MarkdownInline[]) => {
+    for (const node of nodes) {
+      if (node.type === 'text') visitText(node.text);
+      if (node.type === 'strong' || node.type === 'emphasis' || node.type === 'strikethrough') {
+        visitInline(node.children);
+      }
+    }
+  };
+  const visitBlocks = (blocks: MarkdownBlock[]) => {
+    for (const block of blocks) {
+      if (block.type === 'paragraph') visitInline(block.children);
+      if (block.type === 'blockquote') visitBlocks(block.children);
+      if (block.type === 'list') block.items.forEach(visitInline);
+    }
+  };
+  visitBlocks(parseMarkdown(content));
+  return Array.from(names);
+}
+
+// Whether a message's mentions include the user, by name or through @here
+// or @all
+export function mentionsUser(mentions: Mention[], userId: string): boolean {
+  return mentions.some(m => m.type !== 'user' || m.userId === userId);
+}
@@ -0,0 +1,193 @@
+import { z } from 'zod';
+
+// The users, messages and conversations the API returns. Each schema has a
+// type of the same name for the parsed value.
+
+// What the user chose; 'online' shows as 'away' while they're idle
+export const PresenceSetting = z.enum(['online', 'away', 'dnd', 'invisible']);
+export type PresenceSetting = z.infer<typeof PresenceSetting>;
+
+// Other users' invisible status comes through as 'offline'
+export const UserStatus = z.enum([...PresenceSetting.options, 'offline']);
+export type UserStatus = z.infer<typeof UserStatus>;
+
+export const CustomStatus = z.object({
+  text: z.string().nullable(),
+  emoji: z.string().nullable(),
+  expiresAt: z.string().nullable(),
+});
+export type CustomStatus = z.infer<typeof CustomStatus>;
+
+// How the user hears about new messages. 'muted' lasts until mutedUntil,
+// or until changed when that's null.
+export const NotificationLevel = z.enum(['all', 'mentions', 'muted']);
+export type NotificationLevel = z.infer<typeof NotificationLevel>;
+
+export const NotificationPreference = z.object({
+  level: NotificationLevel,
+  mutedUntil: z.string().nullable(),
+});
+export type NotificationPreference = z.infer<typeof NotificationPreference>;
+
+export const User = z.object({
+  id: z.string(),
+  username: z.string(),
+  displayName: z.string(),
+  // Server path of the avatar image; add ?size= for a particular size
+  avatar: z.string().nullable(),
+  bio: z.string().nullable(),
+  // Invisible users show as offline to everyone but themselves
+  status: UserStatus,
+  customStatus: CustomStatus.nullable(),
+  lastSeenAt: z.string().nullable(),
+  // The user's chosen setting, only included for themselves
+  presence: PresenceSetting.optional(),
+  // The default for conversations without their own setting, only included
+  // for themselves
+  notifications: NotificationPreference.optional(),
+  createdAt: z.string(),
+});
+export type User = z.infer<typeof User>;
+
+// An uploaded file. The URLs are relative to the server and signed; they
+// stop working at urlsExpireAt. Images without variants (uploaded before
+// they existed) use the original for all three.
+export const Attachment = z.object({
+  id: z.string(),
+  fileName: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  isImage: z.boolean(),
+  width: z.number().nullable(),
+  height: z.number().nullable(),
+  url: z.string(),
+  previewUrl: z.string().nullable(),
+  thumbnailUrl: z.string().nullable(),
+  urlsExpireAt: z.string(),
+});
+export type Attachment = z.infer<typeof Attachment>;
+
+// A card for a link in the message, added by the server once it has fetched
+// the page. imageUrl is a server path to a thumbnail it keeps of the page's image.
+export const LinkPreview = z.object({
+  id: z.string(),
+  url: z.string(),
+  title: z.string().nullable(),
+  description: z.string().nullable(),
+  siteName: z.string().nullable(),
+  imageUrl: z.string().nullable(),
+});
+export type LinkPreview = z.infer<typeof LinkPreview>;
+
+// Who a message mentions: a member by username, or everyone online
+// (@here) or every member (@all) when it was sent
+export const Mention = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('user'), userId: z.string(), username: z.string() }),
+  z.object({ type: z.literal('here') }),
+  z.object({ type: z.literal('all') }),
+]);
+export type Mention = z.infer<typeof Mention>;
+
+// 'system' messages are notices the server posts, like "Alice added Bob"
+export const MessageType = z.enum(['text', 'image', 'file', 'system']);
+export type MessageType = z.infer<typeof MessageType>;
+
+// How to display the content: as typed, or as the subset in markdown.ts
+export const MessageFormat = z.enum(['plain', 'markdown']);
+export type MessageFormat = z.infer<typeof MessageFormat>;
+
+// Reactions grouped by emoji; `reacted` is whether the viewing user is among them
+export const ReactionSummary = z.object({
+  emoji: z.string(),
+  count: z.number(),
+  reacted: z.boolean(),
+});
+export type ReactionSummary = z.infer<typeof ReactionSummary>;
+
+// The quoted message shown above a reply
+export const MessagePreview = z.object({
+  id: z.string(),
+  senderId: z.string(),
+  senderName: z.string(),
+  content: z.string().nullable(),
+  type: MessageType,
+  format: MessageFormat,
+  deletedAt: z.string().nullable(),
+});
+export type MessagePreview = z.infer<typeof MessagePreview>;
+
+export const Message = z.object({
+  id: z.string(),
+  conversationId: z.string(),
+  senderId: z.string(),
+  senderName: z.string(),
+  senderAvatar: z.string().nullable(),
+  content: z.string().nullable(),
+  type: MessageType,
+  format: MessageFormat,
+  fileName: z.string().nullable(),
+  attachment: Attachment.nullable(),
+  linkPreviews: z.array(LinkPreview),
+  mentions: z.array(Mention),
+  createdAt: z.string(),
+  editedAt: z.string().nullable(),
+  deletedAt: z.string().nullable(),
+  replyToId: z.string().nullable(),
+  threadRootId: z.string().nullable(),
+  replyCount: z.number(),
+  replyTo: MessagePreview.nullable(),
+  reactions: z.array(ReactionSummary),
+  clientMessageId: z.string().nullable(),
+  // Set when an incoming webhook posted the message; senderId is then the
+  // webhook's id rather than a user's
+  webhookId: z.string().nullable(),
+});
+export type Message = z.infer<typeof Message>;
+
+export const MemberRole = z.enum(['owner', 'admin', 'member']);
+export type MemberRole = z.infer<typeof MemberRole>;
+
+export const Member = User.extend({
+  role: MemberRole,
+  lastReadMessageId: z.string().nullable(),
+});
+export type Member = z.infer<typeof Member>;
+
+export const Conversation = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  // Server path of the group picture; add ?size= for a particular size
+  avatar: z.string().nullable(),
+  isGroup: z.boolean(),
+  members: z.array(Member),
+  lastMessage: Message.nullable(),
+  // Unread messages for the user the conversation was fetched for
+  unreadCount: z.number(),
+  // That user's setting for this conversation; null follows their default
+  notifications: NotificationPreference.nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export type Conversation = z.infer<typeof Conversation>;
+
+// An incoming webhook as its group's admins see it. url is a server path;
+// the token that goes with it is only returned when it's created or rotated.
+export const Webhook = z.object({
+  id: z.string(),
+  conversationId: z.string(),
+  createdBy: z.string(),
+  displayName: z.string().nullable(),
+  // Server path of the avatar override; add ?size= for a particular size
+  avatar: z.string().nullable(),
+  url: z.string(),
+  createdAt: z.string(),
+});
+export type Webhook = z.infer<typeof Webhook>;
+
+export const ReadReceipt = z.object({
+  conversationId: z.string(),
+  userId: z.string(),
+  messageId: z.string(),
+  readAt: z.string(),
+});
+export type ReadReceipt = z.infer<typeof ReadReceipt>;
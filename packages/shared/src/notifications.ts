@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import type { NotificationLevel, NotificationPreference } from './models';
+
+// A native notification the page asks the desktop shell to show. It crosses
+// from the page to Electron's main process, which checks it with this.
+export const DesktopNotification = z.object({
+  title: z.string(),
+  body: z.string(),
+  // Handed back to the page when the notification is clicked
+  conversationId: z.string(),
+});
+export type DesktopNotification = z.infer<typeof DesktopNotification>;
+
+// Whether a timed mute has run out, leaving the setting with no effect
+export function isMuteExpired(preference: NotificationPreference, now = Date.now()): boolean {
+  return preference.level === 'muted' && !!preference.mutedUntil && new Date(preference.mutedUntil).getTime() <= now;
+}
+
+// The level that applies to a conversation: its own setting while that's in
+// force, else the user's default, else 'all'
+export function effectiveNotificationLevel(
+  conversation: NotificationPreference | null,
+  fallback: NotificationPreference | undefined,
+  now = Date.now()
+): NotificationLevel {
+  for (const preference of [conversation, fallback]) {
+    if (preference && !isMuteExpired(preference, now)) return preference.level;
+  }
+  return 'all';
+}
@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { MessageFormat, NotificationLevel, PresenceSetting } from './models';
+
+// Bodies the REST API accepts. Schemas only check shape and length; rules
+// that need the database, like whether a username is taken, stay on the server.
+
+export const MAX_MESSAGE_LENGTH = 10000;
+export const MAX_BIO_LENGTH = 200;
+export const MAX_STATUS_TEXT_LENGTH = 100;
+
+// Ids are opaque strings; this only keeps them to a sane size
+export const Id = z.string().min(1).max(64);
+
+// One emoji, including skin tones and joined sequences, and nothing else
+export function isReactionEmoji(emoji: string): boolean {
+  return emoji.length > 0
+    && emoji.length <= 16
+    && !/\s/.test(emoji)
+    && /^(\p{Extended_Pictographic}|\p{Emoji_Component}|\p{Emoji_Modifier}|\u200d|\ufe0f)+$/u.test(emoji)
+    && /\p{Extended_Pictographic}/u.test(emoji);
+}
+
+export const ReactionEmoji = z.string().refine(isReactionEmoji, 'A single emoji is required');
+
+const Username = z.string().trim().min(1, 'Username is required').max(32);
+const Password = z.string().min(1, 'Password is required').max(128);
+const DisplayName = z.string().trim().min(1, 'Display name is required').max(50);
+
+export const RegisterRequest = z.object({
+  username: Username,
+  password: Password,
+  displayName: DisplayName,
+});
+export type RegisterRequest = z.infer<typeof RegisterRequest>;
+
+// Not held to the registration rules, which older accounts may predate
+export const LoginRequest = z.object({
+  username: z.string().min(1, 'Username is required').max(256),
+  password: z.string().min(1, 'Password is required').max(256),
+});
+export type LoginRequest = z.infer<typeof LoginRequest>;
+
+export const RefreshRequest = z.object({
+  refreshToken: z.string().min(1).max(512),
+});
+export type RefreshRequest = z.infer<typeof RefreshRequest>;
+
+export const UpdateProfileRequest = z.object({
+  displayName: DisplayName,
+  bio: z.string().max(MAX_BIO_LENGTH).nullish(),
+});
+export type UpdateProfileRequest = z.infer<typeof UpdateProfileRequest>;
+
+// Sets the presence and/or custom status; customStatus: null clears it
+export const UpdateStatusRequest = z.object({
+  presence: PresenceSetting.optional(),
+  customStatus: z.object({
+    text: z.string().trim().max(MAX_STATUS_TEXT_LENGTH).nullish(),
+    emoji: z.string().max(16).nullish(),
+    expiresAt: z.iso.datetime({ offset: true })
+      .refine(value => new Date(value).getTime() > Date.now(), 'Status expiry must be in the future')
+      .nullish(),
+  }).nullish(),
+});
+export type UpdateStatusRequest = z.input<typeof UpdateStatusRequest>;
+
+// Sets the default or a conversation's notifications. mutedUntil only goes
+// with 'muted'; without it the mute lasts until changed.
+export const UpdateNotificationsRequest = z.object({
+  level: NotificationLevel,
+  mutedUntil: z.iso.datetime({ offset: true })
+    .refine(value => new Date(value).getTime() > Date.now(), 'Mute expiry must be in the future')
+    .nullish(),
+}).refine(body => body.level === 'muted' || !body.mutedUntil, {
+  message: 'mutedUntil only applies when muted',
+  path: ['mutedUntil'],
+});
+export type UpdateNotificationsRequest = z.infer<typeof UpdateNotificationsRequest>;
+
+export const CreateConversationRequest = z.object({
+  // The other members; the creator is added automatically
+  memberIds: z.array(Id).min(1).max(100),
+  name: z.string().trim().max(100).nullish(),
+  isGroup: z.boolean().optional(),
+});
+export type CreateConversationRequest = z.infer<typeof CreateConversationRequest>;
+
+// The group picture is uploaded separately, to /api/conversations/:id/avatar
+export const UpdateGroupRequest = z.object({
+  name: z.string().trim().min(1, 'Group name cannot be empty').max(100).optional(),
+});
+export type UpdateGroupRequest = z.infer<typeof UpdateGroupRequest>;
+
+export const MarkReadRequest = z.object({
+  messageId: Id,
+});
+export type MarkReadRequest = z.infer<typeof MarkReadRequest>;
+
+export const EditMessageRequest = z.object({
+  content: z.string().max(MAX_MESSAGE_LENGTH).refine(value => value.trim().length > 0, 'content required'),
+});
+export type EditMessageRequest = z.infer<typeof EditMessageRequest>;
+
+// Creates a webhook or changes its display name; null goes back to "Webhook"
+export const WebhookSettingsRequest = z.object({
+  displayName: z.string().trim().max(50).nullish(),
+});
+export type WebhookSettingsRequest = z.infer<typeof WebhookSettingsRequest>;
+
+// What an external system posts to a webhook's URL
+export const WebhookMessageRequest = z.object({
+  content: z.string().max(MAX_MESSAGE_LENGTH).refine(value => value.trim().length > 0, 'content required'),
+  format: MessageFormat.optional(),
+});
+export type WebhookMessageRequest = z.infer<typeof WebhookMessageRequest>;
+
+export const AddReactionRequest = z.object({
+  emoji: ReactionEmoji,
+});
+export type AddReactionRequest = z.infer<typeof AddReactionRequest>;
+
+export const AddMemberRequest = z.object({
+  userId: Id,
+});
+export type AddMemberRequest = z.infer<typeof AddMemberRequest>;
+
+export const SetMemberRoleRequest = z.object({
+  // Ownership can't be handed over
+  role: z.enum(['admin', 'member']),
+});
+export type SetMemberRoleRequest = z.infer<typeof SetMemberRoleRequest>;
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+// How the server reports a rejected request body or WebSocket frame:
+// `error` is readable, `code` says what kind of failure it was and `issues`
+// lists every problem found.
+
+export const ErrorCode = z.enum([
+  // The body or frame isn't JSON
+  'invalid_json',
+  // A REST body doesn't match its schema
+  'invalid_request',
+  // A WebSocket frame doesn't match its schema, or has an unknown type
+  'invalid_frame',
+  'rate_limited',
+]);
+export type ErrorCode = z.infer<typeof ErrorCode>;
+
+export const ValidationIssue = z.object({
+  // Dotted path to the offending field, e.g. "memberIds.0"; empty for the whole value
+  path: z.string(),
+  // zod's issue code, e.g. "invalid_type" or "too_big"
+  code: z.string(),
+  message: z.string(),
+});
+export type ValidationIssue = z.infer<typeof ValidationIssue>;
+
+export interface ValidationError {
+  code: ErrorCode;
+  error: string;
+  issues: ValidationIssue[];
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: ValidationError };
+
+function toIssue(issue: z.core.$ZodIssue): ValidationIssue {
+  return { path: issue.path.map(String).join('.'), code: issue.code, message: issue.message };
+}
+
+// Parses `value` with `schema`, describing any failure under `code`
+export function validate<T extends z.ZodType>(
+  schema: T,
+  value: unknown,
+  code: ErrorCode = 'invalid_request'
+): ValidationResult<z.output<T>> {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  const issues = result.error.issues.map(toIssue);
+  const [first] = issues;
+  return {
+    success: false,
+    error: { code, error: first.path ? `${first.path}: ${first.message}` : first.message, issues },
+  };
+}